@@ -1,429 +1,810 @@
-'use client'
-
-import { useState, useEffect, useCallback } from 'react'
-import { createClient } from '@/lib/supabase/client'
-import { 
-  Plus, Trash2, UserPlus, Copy, Check, X, 
-  ExternalLink, User, MoreHorizontal, Filter, Search,
-  Briefcase
-} from 'lucide-react'
-import { cn } from '@/lib/utils'
-
-// --- Interfaces ---
-interface Task {
-  id: string
-  title: string
-  status: string // 'todo', 'in_progress', 'submitted', 'approved', 'rejected'
-  priority: 'low' | 'medium' | 'high'
-  assigned_to: string | null
-  created_at: string
-  workspace_id: string
-  proof_link?: string 
-  client_feedback?: string
-}
-
-interface Profile {
-  full_name: string
-  avatar_url: string | null
-  role: string | null
-}
-
-interface WorkspaceMemberDB {
-  user_id: string
-  profiles: Profile | null 
-}
-
-interface Employee {
-  user_id: string
-  full_name: string
-  avatar_url: string | null
-  role: string
-  tasks: Task[]
-}
-
-// --- Helper Components ---
-const PriorityBadge = ({ priority, onChange }: { priority: string, onChange: (val: string) => void }) => {
-    const colors = {
-        high: "text-rose-700 bg-rose-50 border-rose-200 dark:bg-rose-900/20 dark:text-rose-300 dark:border-rose-900/50",
-        medium: "text-amber-700 bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-900/50",
-        low: "text-emerald-700 bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-900/50"
-    }
-
-    return (
-        <select 
-            value={priority}
-            onChange={(e) => onChange(e.target.value)}
-            className={cn(
-                "text-[10px] uppercase font-bold px-2 py-0.5 rounded border outline-none cursor-pointer transition-colors appearance-none text-center min-w-[60px]",
-                // @ts-expect-error - dynamic key access
-                colors[priority] || colors.low
-            )}
-        >
-            <option value="low">Low</option>
-            <option value="medium">Medium</option>
-            <option value="high">High</option>
-        </select>
-    )
-}
-
-const EmptyState = () => (
-    <div className="flex flex-col items-center justify-center p-12 text-center border-2 border-dashed border-neutral-200 dark:border-neutral-800 rounded-xl bg-neutral-50/50 dark:bg-neutral-900/50">
-        <div className="w-12 h-12 bg-indigo-50 dark:bg-indigo-900/20 rounded-full flex items-center justify-center mb-4">
-            <UserPlus className="w-6 h-6 text-indigo-500" />
-        </div>
-        <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">No employees found</h3>
-        <p className="text-sm text-neutral-500 max-w-xs mt-1">
-            Invite your team members to this workspace to start assigning tasks.
-        </p>
-    </div>
-)
-
-// --- Main Page ---
-
-export default function ManageEmployeesPage() {
-  const [employees, setEmployees] = useState<Employee[]>([])
-  const [loading, setLoading] = useState(true)
-  const [newTask, setNewTask] = useState<{ [key: string]: string }>({}) 
-  const [inviteCode, setInviteCode] = useState<string | null>(null)
-  const [showInvite, setShowInvite] = useState(false)
-  const [copied, setCopied] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
-
-  const supabase = createClient()
-
-  // --- Fetch Data ---
-  const fetchData = useCallback(async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) return
-
-      // 1. Get Workspace Context
-      const { data: workspaceData } = await supabase
-        .from('workspaces')
-        .select('id, invite_code')
-        .eq('owner_id', user.id)
-        .maybeSingle()
-      
-      let wsId = workspaceData?.id
-      const code = workspaceData?.invite_code
-
-      // Fallback: If not owner, check membership (unlikely for this page, but safe)
-      if (!workspaceData) {
-          const { data: memberData } = await supabase
-              .from('workspace_members')
-              .select('workspace_id')
-              .eq('user_id', user.id)
-              .maybeSingle()
-          
-          if (memberData) wsId = memberData.workspace_id
-      } else {
-         setInviteCode(code || null)
-      }
-      
-      if (!wsId) {
-        setLoading(false)
-        return
-      }
-
-      // 2. Fetch Members & Profiles
-      const { data: membersData } = await supabase
-        .from('workspace_members')
-        .select(`
-            user_id, 
-            profiles:user_id ( full_name, avatar_url, role )
-        `)
-        .eq('workspace_id', wsId)
-
-      const members = membersData as unknown as WorkspaceMemberDB[]
-
-      if (members) {
-        // 3. Fetch Tasks
-        const { data: tasksData } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('workspace_id', wsId)
-          .order('created_at', { ascending: false })
-
-        const tasks = (tasksData || []) as Task[]
-
-        const formatted: Employee[] = members.map((m) => ({
-          user_id: m.user_id,
-          full_name: m.profiles?.full_name || 'Unknown User',
-          avatar_url: m.profiles?.avatar_url || null,
-          role: m.profiles?.role || 'Team Member', // Fallback role
-          tasks: tasks.filter((t) => t.assigned_to === m.user_id)
-        }))
-
-        // Optional: Filter out myself (the owner) from the "Employee" list if desired
-        // setEmployees(formatted.filter(e => e.user_id !== user.id))
-        setEmployees(formatted)
-      }
-    } catch (error) {
-      console.error('Error fetching data:', error)
-    } finally {
-      setLoading(false)
-    }
-  }, [supabase])
-
-  useEffect(() => {
-    fetchData()
-  }, [fetchData])
-
-  // --- Handlers ---
-  const handleAddTask = async (userId: string) => {
-    const title = newTask[userId]
-    if (!title?.trim()) return
-
-    const { data: { user } } = await supabase.auth.getUser()
-    const { data: ws } = await supabase.from('workspace_members').select('workspace_id').eq('user_id', user?.id).single()
-
-    if (ws) {
-      await supabase.from('tasks').insert({
-        workspace_id: ws.workspace_id,
-        assigned_to: userId,
-        created_by: user?.id,
-        title: title,
-        priority: 'medium',
-        status: 'todo'
-      })
-      setNewTask({ ...newTask, [userId]: '' })
-      fetchData()
-    }
-  }
-
-  const handleDeleteTask = async (taskId: string) => {
-    if (confirm('Delete this task?')) {
-      await supabase.from('tasks').delete().eq('id', taskId)
-      fetchData()
-    }
-  }
-
-  const handlePriority = async (taskId: string, newPriority: string) => {
-    await supabase.from('tasks').update({ priority: newPriority }).eq('id', taskId)
-    fetchData()
-  }
-
-  const handleReview = async (taskId: string, status: 'approved' | 'rejected') => {
-    let feedback = null
-    if (status === 'rejected') {
-        feedback = prompt("Reason for rejection? (Optional)")
-    }
-
-    await supabase
-        .from('tasks')
-        .update({ status, client_feedback: feedback })
-        .eq('id', taskId)
-    
-    fetchData()
-  }
-
-  const copyCode = () => {
-    if (inviteCode) {
-        navigator.clipboard.writeText(inviteCode)
-        setCopied(true)
-        setTimeout(() => setCopied(false), 2000)
-    }
-  }
-
-  // --- Filtering ---
-  const filteredEmployees = employees.filter(e => 
-    e.full_name.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    e.role.toLowerCase().includes(searchQuery.toLowerCase())
-  )
-
-  if (loading) {
-      return (
-          <div className="p-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-pulse max-w-7xl mx-auto">
-              {[1,2,3].map(i => <div key={i} className="h-96 bg-neutral-100 dark:bg-neutral-800 rounded-xl" />)}
-          </div>
-      )
-  }
-
-  return (
-    <div className="p-6 md:p-8 max-w-7xl mx-auto w-full space-y-8">
-      
-      {/* Header */}
-      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
-        <div>
-          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">Manage Employees</h1>
-          <p className="text-neutral-500 dark:text-neutral-400">Assign tasks and track performance.</p>
-        </div>
-
-        <div className="flex flex-col sm:flex-row gap-3">
-             {/* Search Bar */}
-            <div className="relative">
-                <Search className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
-                <input 
-                    type="text" 
-                    placeholder="Search staff..." 
-                    className="pl-9 pr-4 py-2 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 w-full sm:w-64"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                />
-            </div>
-
-            {/* Invite Button / Popover */}
-            <div className="relative">
-                {!showInvite ? (
-                    <button 
-                        onClick={() => setShowInvite(true)}
-                        className="flex items-center justify-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition shadow-sm text-sm font-medium w-full sm:w-auto"
-                    >
-                        <UserPlus className="w-4 h-4" />
-                        Invite Staff
-                    </button>
-                ) : (
-                    <div className="flex items-center gap-2 bg-white dark:bg-neutral-800 border border-indigo-200 dark:border-indigo-900 p-1.5 pl-3 rounded-lg shadow-lg animate-in fade-in slide-in-from-top-2 absolute right-0 top-0 z-10 w-full sm:w-auto min-w-[280px]">
-                        <span className="text-[10px] font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-wider">Code:</span>
-                        <code className="text-base font-mono font-bold text-neutral-800 dark:text-neutral-200 tracking-widest flex-1 text-center">
-                            {inviteCode || '...'}
-                        </code>
-                        <div className="flex border-l border-neutral-200 dark:border-neutral-700 pl-1">
-                            <button onClick={copyCode} className="p-1.5 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded text-neutral-500 transition-colors" title="Copy Code">
-                                {copied ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
-                            </button>
-                            <button onClick={() => setShowInvite(false)} className="p-1.5 hover:bg-red-50 dark:hover:bg-red-900/20 rounded text-neutral-400 hover:text-red-500 transition-colors" title="Close">
-                                <X className="w-4 h-4" />
-                            </button>
-                        </div>
-                    </div>
-                )}
-            </div>
-        </div>
-      </div>
-
-      {/* Grid Content */}
-      {filteredEmployees.length === 0 ? (
-          <EmptyState />
-      ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredEmployees.map((emp) => (
-              <div key={emp.user_id} className="bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800 overflow-hidden flex flex-col h-[500px] shadow-sm hover:shadow-md transition-shadow">
-                
-                {/* Employee Header */}
-                <div className="p-4 border-b border-neutral-100 dark:border-neutral-800 bg-neutral-50/50 dark:bg-neutral-800/30 flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="h-10 w-10 shrink-0">
-                        {emp.avatar_url ? (
-                            <img src={emp.avatar_url} alt={emp.full_name} className="h-full w-full rounded-full object-cover shadow-sm" />
-                        ) : (
-                            <div className="h-full w-full bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center text-indigo-600 dark:text-indigo-400 font-bold border border-indigo-200 dark:border-indigo-800/50">
-                                {emp.full_name.charAt(0).toUpperCase()}
-                            </div>
-                        )}
-                    </div>
-                    <div>
-                      <h3 className="font-semibold text-neutral-900 dark:text-neutral-100 text-sm leading-tight">{emp.full_name}</h3>
-                      <div className="flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400 mt-0.5">
-                          <Briefcase className="w-3 h-3" />
-                          <span>{emp.role}</span>
-                      </div>
-                    </div>
-                  </div>
-                  <button className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-200">
-                    <MoreHorizontal className="w-5 h-5" />
-                  </button>
-                </div>
-
-                {/* Tasks List (Scrollable) */}
-                <div className="flex-1 p-4 space-y-3 overflow-y-auto custom-scrollbar bg-neutral-50/30 dark:bg-neutral-900">
-                  {emp.tasks.length === 0 ? (
-                    <div className="h-full flex flex-col items-center justify-center text-neutral-400 space-y-2 opacity-60">
-                        <Check className="w-8 h-8 stroke-1" />
-                        <span className="text-xs">All caught up!</span>
-                    </div>
-                  ) : (
-                    emp.tasks.map(task => (
-                      <div key={task.id} className={cn(
-                          "group bg-white dark:bg-neutral-800 border rounded-lg p-3 shadow-sm transition-all",
-                          task.status === 'submitted' 
-                            ? "border-amber-200 ring-1 ring-amber-100 dark:border-amber-900/50 dark:ring-amber-900/20" 
-                            : "border-neutral-200 dark:border-neutral-700 hover:border-neutral-300 dark:hover:border-neutral-600"
-                      )}>
-                        
-                        {/* Title & Actions */}
-                        <div className="flex justify-between items-start gap-2 mb-2">
-                          <span className="text-sm font-medium text-neutral-800 dark:text-neutral-200 leading-snug line-clamp-2">
-                              {task.title}
-                          </span>
-                          <button onClick={() => handleDeleteTask(task.id)} className="text-neutral-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
-                            <Trash2 className="w-3.5 h-3.5" />
-                          </button>
-                        </div>
-                        
-                        {/* Controls Row */}
-                        <div className="flex items-center justify-between mt-3">
-                          <PriorityBadge priority={task.priority} onChange={(val) => handlePriority(task.id, val)} />
-                          
-                          <span className={cn(
-                              "text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border",
-                              task.status === 'approved' ? "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50" :
-                              task.status === 'rejected' ? "bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-900/50" :
-                              task.status === 'submitted' ? "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50" :
-                              "bg-neutral-100 text-neutral-500 border-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:border-neutral-700"
-                          )}>
-                            {task.status.replace('_', ' ')}
-                          </span>
-                        </div>
-
-                        {/* Review Actions (Only if submitted or has link) */}
-                        {(task.proof_link || task.status === 'submitted') && (
-                            <div className="mt-3 pt-3 border-t border-neutral-100 dark:border-neutral-700/50">
-                                {task.proof_link && (
-                                    <a href={task.proof_link} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1.5 text-xs text-indigo-600 dark:text-indigo-400 hover:underline mb-3">
-                                        <ExternalLink className="w-3 h-3" /> 
-                                        <span className="truncate max-w-[150px]">View Submission</span>
-                                    </a>
-                                )}
-                                
-                                {task.status === 'submitted' && (
-                                    <div className="flex gap-2">
-                                        <button 
-                                            onClick={() => handleReview(task.id, 'approved')}
-                                            className="flex-1 bg-emerald-600 text-white text-xs font-medium py-1.5 rounded hover:bg-emerald-700 transition-colors flex items-center justify-center gap-1"
-                                        >
-                                            <Check className="w-3 h-3" /> Approve
-                                        </button>
-                                        <button 
-                                            onClick={() => handleReview(task.id, 'rejected')}
-                                            className="flex-1 bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400 border border-rose-200 dark:border-rose-800 text-xs font-medium py-1.5 rounded hover:bg-rose-100 dark:hover:bg-rose-900/40 transition-colors flex items-center justify-center gap-1"
-                                        >
-                                            <X className="w-3 h-3" /> Reject
-                                        </button>
-                                    </div>
-                                )}
-                            </div>
-                        )}
-                      </div>
-                    ))
-                  )}
-                </div>
-
-                {/* Footer Input */}
-                <div className="p-3 border-t border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900">
-                  <div className="flex gap-2 relative">
-                    <input
-                      type="text"
-                      placeholder="Assign new task..."
-                      className="flex-1 text-sm pl-3 pr-8 py-2 rounded-lg border border-neutral-300 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-neutral-900 dark:text-neutral-100 placeholder:text-neutral-400"
-                      value={newTask[emp.user_id] || ''}
-                      onChange={(e) => setNewTask({ ...newTask, [emp.user_id]: e.target.value })}
-                      onKeyDown={(e) => e.key === 'Enter' && handleAddTask(emp.user_id)}
-                    />
-                    <button 
-                        onClick={() => handleAddTask(emp.user_id)} 
-                        disabled={!newTask[emp.user_id]} 
-                        className="bg-indigo-600 text-white p-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
-                    >
-                      <Plus className="w-4 h-4" />
-                    </button>
-                  </div>
-                </div>
-
-              </div>
-            ))}
-          </div>
-      )}
-    </div>
-  )
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { 
+  Plus, Trash2, UserPlus, Check, X, 
+  ExternalLink, User, MoreHorizontal, Filter, Search,
+  Briefcase, Timer, DollarSign, CalendarClock, Gauge, LayoutGrid, Users, History, MessageSquare
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatMoney } from '@/lib/invoices'
+import { type Shift, summarizeShifts } from '@/lib/shifts'
+import { resolveTimeZone } from '@/lib/time-zones'
+import ShiftScheduleForm from '@/components/shifts/shift-schedule-form'
+import HourLimitForm from '@/components/timesheets/hour-limit-form'
+import InviteManager from '@/components/invites/invite-manager'
+import TaskBoard, { type BoardTask } from '@/components/tasks/task-board'
+import TaskTimeline from '@/components/tasks/task-timeline'
+import TaskComments from '@/components/tasks/task-comments'
+import { fetchUnreadCounts } from '@/lib/task-comments'
+import TaskAttachments from '@/components/tasks/task-attachments'
+import { type TaskAttachment, latestSubmission } from '@/lib/task-attachments'
+import { type TaskPriority, type TaskStatus, findTransition, taskActors, transitionTask } from '@/lib/tasks'
+import { type HourLimits, formatLimitHours } from '@/lib/hour-limits'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { type WorkspaceRole, ASSIGNABLE_ROLES, ROLE_LABELS, isWorkspaceRole } from '@/lib/permissions'
+
+// --- Interfaces ---
+interface Task {
+  id: string
+  title: string
+  status: TaskStatus
+  priority: TaskPriority
+  assigned_to: string | null
+  created_at: string
+  workspace_id: string
+  proof_link?: string 
+  client_feedback?: string
+  tracked_seconds?: number // total time logged against the task
+  submitted_files?: TaskAttachment[] // from the latest submission
+  hourly_rate: number | null // overrides the member rate
+  billable: boolean
+}
+
+interface TaskTimeLog {
+  task_id: string
+  duration_seconds: number
+}
+
+interface Profile {
+  full_name: string
+  avatar_url: string | null
+  role: string | null
+  time_zone: string | null
+}
+
+interface WorkspaceMemberDB extends HourLimits {
+  user_id: string
+  hourly_rate: number | null
+  role: string | null // workspace role
+  profiles: Profile | null 
+}
+
+interface Employee extends HourLimits {
+  user_id: string
+  hourly_rate: number | null
+  full_name: string
+  avatar_url: string | null
+  role: string // job title
+  workspace_role: WorkspaceRole
+  time_zone: string // shift times are in this zone
+  shifts: Shift[]
+  tasks: Task[]
+}
+
+// --- Helper: Format Duration ---
+const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+
+    if (h > 0) return `${h}h ${m}m`
+    return `${m}m`
+}
+
+// --- Helper: Parse Rate Prompt ---
+// Returns undefined when cancelled or invalid, null when cleared
+const askRate = (message: string, current: number | null) => {
+    const input = prompt(message, current?.toString() || '')
+    if (input === null) return undefined
+    if (!input.trim()) return null
+
+    const rate = parseFloat(input)
+    if (isNaN(rate) || rate < 0) {
+        alert("Please enter a valid hourly rate.")
+        return undefined
+    }
+    return Math.round(rate * 100) / 100
+}
+
+// --- Helper Components ---
+const PriorityBadge = ({ priority, onChange }: { priority: string, onChange: (val: string) => void }) => {
+    const colors = {
+        high: "text-rose-700 bg-rose-50 border-rose-200 dark:bg-rose-900/20 dark:text-rose-300 dark:border-rose-900/50",
+        medium: "text-amber-700 bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-900/50",
+        low: "text-emerald-700 bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-900/50"
+    }
+
+    return (
+        <select 
+            value={priority}
+            onChange={(e) => onChange(e.target.value)}
+            className={cn(
+                "text-[10px] uppercase font-bold px-2 py-0.5 rounded border outline-none cursor-pointer transition-colors appearance-none text-center min-w-[60px]",
+                // @ts-expect-error - dynamic key access
+                colors[priority] || colors.low
+            )}
+        >
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+        </select>
+    )
+}
+
+const EmptyState = () => (
+    <div className="flex flex-col items-center justify-center p-12 text-center border-2 border-dashed border-neutral-200 dark:border-neutral-800 rounded-xl bg-neutral-50/50 dark:bg-neutral-900/50">
+        <div className="w-12 h-12 bg-indigo-50 dark:bg-indigo-900/20 rounded-full flex items-center justify-center mb-4">
+            <UserPlus className="w-6 h-6 text-indigo-500" />
+        </div>
+        <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">No employees found</h3>
+        <p className="text-sm text-neutral-500 max-w-xs mt-1">
+            Invite your team members to this workspace to start assigning tasks.
+        </p>
+    </div>
+)
+
+// --- Main Page ---
+
+export default function ManageEmployeesPage() {
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newTask, setNewTask] = useState<{ [key: string]: string }>({}) 
+  const [showInvites, setShowInvites] = useState(false)
+  const [view, setView] = useState<'members' | 'board'>('members')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [currency, setCurrency] = useState('USD')
+  const [scheduleFor, setScheduleFor] = useState<Employee | null>(null)
+  const [limitsFor, setLimitsFor] = useState<Employee | null>(null)
+  const [historyFor, setHistoryFor] = useState<Task | null>(null)
+  const [commentsFor, setCommentsFor] = useState<Task | null>(null)
+  const [unread, setUnread] = useState<Record<string, number>>({})
+  const [unreadKey, setUnreadKey] = useState(0)
+
+  const supabase = createClient()
+  const { userId: currentUserId, workspace, workspaceId, can, isLoading: workspaceLoading } = useWorkspace()
+  const canManageMembers = can('manage_members')
+  const canManageRoles = can('manage_roles')
+  const canManageTasks = can('manage_tasks')
+  const canManageBilling = can('manage_billing')
+
+  // --- Fetch Data ---
+  const fetchData = useCallback(async () => {
+    if (workspaceLoading) return
+
+    try {
+      // 1. Active Workspace Context
+      const wsId = workspaceId
+      if (!wsId) {
+        setEmployees([])
+        setLoading(false)
+        return
+      }
+
+      const { data: workspaceData } = await supabase
+        .from('workspaces')
+        .select('id, currency, time_zone')
+        .eq('id', wsId)
+        .maybeSingle()
+
+      setCurrency(workspaceData?.currency || 'USD')
+
+      // 2. Fetch Members & Profiles
+      const { data: membersData } = await supabase
+        .from('workspace_members')
+        .select(`
+            user_id, 
+            hourly_rate,
+            role,
+            daily_hour_limit,
+            weekly_hour_limit,
+            auto_stop_at_limit,
+            profiles:user_id ( full_name, avatar_url, role, time_zone )
+        `)
+        .eq('workspace_id', wsId)
+
+      const members = membersData as unknown as WorkspaceMemberDB[]
+
+      if (members) {
+        // 3. Fetch Tasks
+        const { data: tasksData } = await supabase
+          .from('tasks')
+          .select('*')
+          .eq('workspace_id', wsId)
+          .order('created_at', { ascending: false })
+
+        // 4. Fetch Time Logged per Task
+        const { data: logsData } = await supabase
+          .from('time_logs')
+          .select('task_id, duration_seconds')
+          .eq('workspace_id', wsId)
+          .not('task_id', 'is', null)
+
+        const trackedTime: Record<string, number> = {}
+        const logs = (logsData || []) as TaskTimeLog[]
+        logs.forEach(log => {
+          trackedTime[log.task_id] = (trackedTime[log.task_id] || 0) + log.duration_seconds
+        })
+
+        // 4b. Files handed in with submissions
+        const { data: filesData } = await supabase
+          .from('task_attachments')
+          .select('*')
+          .eq('workspace_id', wsId)
+          .not('submission_event_id', 'is', null)
+
+        const files = (filesData || []) as TaskAttachment[]
+
+        const tasks = ((tasksData || []) as Task[]).map(t => ({
+          ...t,
+          tracked_seconds: trackedTime[t.id] || 0,
+          submitted_files: latestSubmission(files.filter(f => f.task_id === t.id))
+        }))
+
+        // 5. Fetch Shift Schedules
+        const { data: shiftsData } = await supabase
+          .from('shifts')
+          .select('*')
+          .eq('workspace_id', wsId)
+
+        const shifts = (shiftsData || []) as Shift[]
+
+        const formatted: Employee[] = members.map((m) => ({
+          user_id: m.user_id,
+          hourly_rate: m.hourly_rate,
+          daily_hour_limit: m.daily_hour_limit,
+          weekly_hour_limit: m.weekly_hour_limit,
+          auto_stop_at_limit: m.auto_stop_at_limit,
+          full_name: m.profiles?.full_name || 'Unknown User',
+          avatar_url: m.profiles?.avatar_url || null,
+          role: m.profiles?.role || 'Team Member', // Fallback role
+          workspace_role: isWorkspaceRole(m.role) ? m.role : 'member',
+          time_zone: resolveTimeZone(m.profiles?.time_zone, workspaceData?.time_zone),
+          shifts: shifts.filter((s) => s.user_id === m.user_id),
+          tasks: tasks.filter((t) => t.assigned_to === m.user_id)
+        }))
+
+        // Optional: Filter out myself (the owner) from the "Employee" list if desired
+        // setEmployees(formatted.filter(e => e.user_id !== user.id))
+        setEmployees(formatted)
+      }
+    } catch (error) {
+      console.error('Error fetching data:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [supabase, workspaceId, workspaceLoading])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  // Realtime: moves by members (or other managers) show up at once
+  useEffect(() => {
+    if (!workspaceId) return
+
+    const channel = supabase
+      .channel(`workspace-tasks-${workspaceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter: `workspace_id=eq.${workspaceId}` },
+        () => { fetchData() }
+      )
+      .subscribe()
+
+    return () => { supabase.removeChannel(channel) }
+  }, [supabase, workspaceId, fetchData])
+
+  // Unread comment counts, refreshed as comments arrive
+  useEffect(() => {
+    if (!workspaceId) return
+    let isMounted = true
+
+    const loadUnread = async () => {
+      const counts = await fetchUnreadCounts(supabase, workspaceId)
+      if (isMounted) setUnread(counts)
+    }
+    loadUnread()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, unreadKey])
+
+  useEffect(() => {
+    if (!workspaceId) return
+
+    const channel = supabase
+      .channel(`workspace-task-comments-${workspaceId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'task_comments', filter: `workspace_id=eq.${workspaceId}` },
+        () => setUnreadKey(k => k + 1)
+      )
+      .subscribe()
+
+    return () => { supabase.removeChannel(channel) }
+  }, [supabase, workspaceId])
+
+  // --- Handlers ---
+  const handleAddTask = async (userId: string) => {
+    const title = newTask[userId]
+    if (!title?.trim()) return
+
+    if (workspaceId) {
+      await supabase.from('tasks').insert({
+        workspace_id: workspaceId,
+        assigned_to: userId,
+        created_by: currentUserId,
+        title: title,
+        priority: 'medium',
+        status: 'todo'
+      })
+      setNewTask({ ...newTask, [userId]: '' })
+      fetchData()
+    }
+  }
+
+  const handleDeleteTask = async (taskId: string) => {
+    if (confirm('Delete this task?')) {
+      await supabase.from('tasks').delete().eq('id', taskId)
+      fetchData()
+    }
+  }
+
+  const handlePriority = async (taskId: string, newPriority: string) => {
+    await supabase.from('tasks').update({ priority: newPriority }).eq('id', taskId)
+    fetchData()
+  }
+
+  const handleReview = async (taskId: string, status: 'approved' | 'rejected') => {
+    let feedback = null
+    if (status === 'rejected') {
+        feedback = prompt("Reason for rejection? (Optional)")
+    }
+
+    const error = await transitionTask(supabase, taskId, status, { feedback: feedback || undefined })
+    if (error) alert(error)
+
+    fetchData()
+  }
+
+  // Board drops take the same paths as the buttons
+  const handleMove = async (task: BoardTask, to: TaskStatus) => {
+    const transition = findTransition(task.status, to, taskActors(task, currentUserId, canManageTasks))
+    if (!transition) return
+
+    if (transition.actor === 'reviewer') {
+      await handleReview(task.id, to as 'approved' | 'rejected')
+      return
+    }
+
+    // A manager moving a task assigned to themselves
+    const proof = transition.needsProof ? prompt('Paste work link (Google Docs, Figma...)')?.trim() : undefined
+    if (transition.needsProof && !proof) return
+
+    const error = await transitionTask(supabase, task.id, to, { proof })
+    if (error) alert(error)
+
+    fetchData()
+  }
+
+  const handleMemberRate = async (emp: Employee) => {
+    const rate = askRate(`Hourly rate for ${emp.full_name} (${currency}). Leave blank to clear.`, emp.hourly_rate)
+    if (rate === undefined || !workspaceId) return
+
+    const { error } = await supabase.rpc('set_member_rate', {
+      target_workspace: workspaceId,
+      target_user: emp.user_id,
+      rate
+    })
+
+    if (error) {
+      console.error('Error setting rate:', error)
+      alert('Failed to set the rate: ' + error.message)
+      return
+    }
+    fetchData()
+  }
+
+  const handleMemberRole = async (emp: Employee, role: WorkspaceRole) => {
+    if (!workspaceId || role === emp.workspace_role) return
+
+    const { error } = await supabase.rpc('set_member_role', {
+      target_workspace: workspaceId,
+      target_user: emp.user_id,
+      new_role: role
+    })
+
+    if (error) {
+      console.error('Error changing role:', error)
+      alert('Failed to change the role: ' + error.message)
+      return
+    }
+    fetchData()
+  }
+
+  const handleTaskRate = async (task: Task) => {
+    const rate = askRate(`Hourly rate for "${task.title}" (${currency}). Leave blank to use the member's rate.`, task.hourly_rate)
+    if (rate === undefined) return
+
+    const { error } = await supabase.rpc('set_task_billing', {
+      target_task: task.id,
+      rate,
+      is_billable: task.billable
+    })
+
+    if (error) {
+      console.error('Error setting task rate:', error)
+      alert('Failed to set the rate: ' + error.message)
+      return
+    }
+    fetchData()
+  }
+
+  const handleTaskBillable = async (task: Task) => {
+    const { error } = await supabase.rpc('set_task_billing', {
+      target_task: task.id,
+      rate: task.hourly_rate,
+      is_billable: !task.billable
+    })
+
+    if (error) {
+      console.error('Error changing billable:', error)
+      alert('Failed to change billable: ' + error.message)
+      return
+    }
+    fetchData()
+  }
+
+  // --- Filtering ---
+  const filteredEmployees = employees.filter(e => 
+    e.full_name.toLowerCase().includes(searchQuery.toLowerCase()) || 
+    e.role.toLowerCase().includes(searchQuery.toLowerCase())
+  )
+
+  if (loading) {
+      return (
+          <div className="p-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-pulse max-w-7xl mx-auto">
+              {[1,2,3].map(i => <div key={i} className="h-96 bg-neutral-100 dark:bg-neutral-800 rounded-xl" />)}
+          </div>
+      )
+  }
+
+  return (
+    <div className="p-6 md:p-8 max-w-7xl mx-auto w-full space-y-8">
+      
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">Manage Employees</h1>
+          <p className="text-neutral-500 dark:text-neutral-400">Assign tasks and track performance.</p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+            {/* View Toggle */}
+            <div className="flex bg-neutral-100 dark:bg-neutral-800 p-1 rounded-lg self-start sm:self-auto">
+              {([['members', Users, 'Members'], ['board', LayoutGrid, 'Board']] as const).map(([value, Icon, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setView(value)}
+                  className={cn(
+                    "flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all",
+                    view === value
+                      ? "bg-white dark:bg-neutral-700 text-neutral-900 dark:text-neutral-100 shadow-sm"
+                      : "text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200"
+                  )}
+                >
+                  <Icon className="w-3.5 h-3.5" /> {label}
+                </button>
+              ))}
+            </div>
+
+             {/* Search Bar */}
+            <div className="relative">
+                <Search className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+                <input 
+                    type="text" 
+                    placeholder="Search staff..." 
+                    className="pl-9 pr-4 py-2 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 w-full sm:w-64"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                />
+            </div>
+
+            {/* Invite Button */}
+            {canManageMembers && (
+              <button 
+                  onClick={() => setShowInvites(true)}
+                  className="flex items-center justify-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition shadow-sm text-sm font-medium w-full sm:w-auto"
+              >
+                  <UserPlus className="w-4 h-4" />
+                  Invite Staff
+              </button>
+            )}
+        </div>
+      </div>
+
+      {/* Grid Content */}
+      {filteredEmployees.length === 0 ? (
+          <EmptyState />
+      ) : view === 'board' ? (
+          <TaskBoard
+            tasks={filteredEmployees.flatMap(emp => emp.tasks.map(t => ({ ...t, assignee_name: emp.full_name, unread: unread[t.id] })))}
+            actorsFor={(task) => taskActors(task, currentUserId, canManageTasks)}
+            onMove={handleMove}
+          />
+      ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filteredEmployees.map((emp) => (
+              <div key={emp.user_id} className="bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800 overflow-hidden flex flex-col h-[500px] shadow-sm hover:shadow-md transition-shadow">
+                
+                {/* Employee Header */}
+                <div className="p-4 border-b border-neutral-100 dark:border-neutral-800 bg-neutral-50/50 dark:bg-neutral-800/30 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="h-10 w-10 shrink-0">
+                        {emp.avatar_url ? (
+                            <img src={emp.avatar_url} alt={emp.full_name} className="h-full w-full rounded-full object-cover shadow-sm" />
+                        ) : (
+                            <div className="h-full w-full bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center text-indigo-600 dark:text-indigo-400 font-bold border border-indigo-200 dark:border-indigo-800/50">
+                                {emp.full_name.charAt(0).toUpperCase()}
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2">
+                          <h3 className="font-semibold text-neutral-900 dark:text-neutral-100 text-sm leading-tight">{emp.full_name}</h3>
+                          {canManageRoles && emp.workspace_role !== 'owner' ? (
+                              <select
+                                  value={emp.workspace_role}
+                                  onChange={(e) => handleMemberRole(emp, e.target.value as WorkspaceRole)}
+                                  title="Workspace role"
+                                  className="text-[10px] font-bold uppercase tracking-wider bg-transparent border border-neutral-200 dark:border-neutral-700 rounded px-1 py-0.5 text-neutral-500 dark:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                              >
+                                  {ASSIGNABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                              </select>
+                          ) : (
+                              <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-neutral-100 dark:bg-neutral-800 text-neutral-500 dark:text-neutral-400">
+                                  {ROLE_LABELS[emp.workspace_role]}
+                              </span>
+                          )}
+                      </div>
+                      <div className="flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400 mt-0.5">
+                          <Briefcase className="w-3 h-3" />
+                          <span>{emp.role}</span>
+                          <span className="text-neutral-300 dark:text-neutral-600">&middot;</span>
+                          <button
+                              onClick={() => handleMemberRate(emp)}
+                              disabled={!canManageBilling}
+                              className="hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors disabled:pointer-events-none"
+                              title="Set hourly rate"
+                          >
+                              {emp.hourly_rate !== null ? `${formatMoney(emp.hourly_rate, currency)}/h` : 'Set rate'}
+                          </button>
+                      </div>
+                      <button
+                          onClick={() => setScheduleFor(emp)}
+                          disabled={!canManageMembers}
+                          className="flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors mt-0.5 disabled:pointer-events-none"
+                          title="Edit shift schedule"
+                      >
+                          <CalendarClock className="w-3 h-3" />
+                          <span>{summarizeShifts(emp.shifts)}</span>
+                      </button>
+                      <button
+                          onClick={() => setLimitsFor(emp)}
+                          disabled={!canManageMembers}
+                          className="flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors mt-0.5 disabled:pointer-events-none"
+                          title="Set hour limits"
+                      >
+                          <Gauge className="w-3 h-3" />
+                          <span>
+                              {emp.daily_hour_limit === null && emp.weekly_hour_limit === null
+                                  ? 'No hour limits'
+                                  : [
+                                      emp.daily_hour_limit !== null && `${formatLimitHours(emp.daily_hour_limit)}/day`,
+                                      emp.weekly_hour_limit !== null && `${formatLimitHours(emp.weekly_hour_limit)}/week`
+                                    ].filter(Boolean).join(' · ')}
+                              {emp.auto_stop_at_limit && ' (auto-stop)'}
+                          </span>
+                      </button>
+                    </div>
+                  </div>
+                  <button className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-200">
+                    <MoreHorizontal className="w-5 h-5" />
+                  </button>
+                </div>
+
+                {/* Tasks List (Scrollable) */}
+                <div className="flex-1 p-4 space-y-3 overflow-y-auto custom-scrollbar bg-neutral-50/30 dark:bg-neutral-900">
+                  {emp.tasks.length === 0 ? (
+                    <div className="h-full flex flex-col items-center justify-center text-neutral-400 space-y-2 opacity-60">
+                        <Check className="w-8 h-8 stroke-1" />
+                        <span className="text-xs">All caught up!</span>
+                    </div>
+                  ) : (
+                    emp.tasks.map(task => (
+                      <div key={task.id} className={cn(
+                          "group bg-white dark:bg-neutral-800 border rounded-lg p-3 shadow-sm transition-all",
+                          task.status === 'submitted' 
+                            ? "border-amber-200 ring-1 ring-amber-100 dark:border-amber-900/50 dark:ring-amber-900/20" 
+                            : "border-neutral-200 dark:border-neutral-700 hover:border-neutral-300 dark:hover:border-neutral-600"
+                      )}>
+                        
+                        {/* Title & Actions */}
+                        <div className="flex justify-between items-start gap-2 mb-2">
+                          <span className="text-sm font-medium text-neutral-800 dark:text-neutral-200 leading-snug line-clamp-2">
+                              {task.title}
+                          </span>
+                          <div className="flex items-center gap-1.5 shrink-0">
+                            <button
+                                onClick={() => setCommentsFor(task)}
+                                className={cn(
+                                    "flex items-center gap-0.5 text-[10px] font-bold transition-opacity",
+                                    unread[task.id] ? "text-indigo-600 dark:text-indigo-400" : "text-neutral-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100"
+                                )}
+                                title={unread[task.id] ? `${unread[task.id]} unread comments` : 'Discussion'}
+                            >
+                              <MessageSquare className="w-3.5 h-3.5" />
+                              {!!unread[task.id] && unread[task.id]}
+                            </button>
+                            <button onClick={() => setHistoryFor(task)} className="text-neutral-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity" title="Task history">
+                              <History className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => handleDeleteTask(task.id)} className="text-neutral-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity" title="Delete task">
+                              <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        </div>
+                        
+                        {/* Controls Row */}
+                        <div className="flex items-center justify-between mt-3">
+                          <div className="flex items-center gap-2">
+                            <PriorityBadge priority={task.priority} onChange={(val) => handlePriority(task.id, val)} />
+                            <button
+                                onClick={() => handleTaskBillable(task)}
+                                disabled={!canManageBilling}
+                                title={task.billable ? 'Billable (click to make non-billable)' : 'Non-billable (click to make billable)'}
+                                className={cn(
+                                    "p-0.5 rounded transition-colors disabled:pointer-events-none",
+                                    task.billable ? "text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20" : "text-neutral-300 dark:text-neutral-600 hover:bg-neutral-100 dark:hover:bg-neutral-700"
+                                )}
+                            >
+                                <DollarSign className="w-3 h-3" />
+                            </button>
+                            {task.billable && (
+                                <button
+                                    onClick={() => handleTaskRate(task)}
+                                    disabled={!canManageBilling}
+                                    className="text-[10px] font-medium text-neutral-500 dark:text-neutral-400 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:pointer-events-none"
+                                    title="Set a task-specific rate"
+                                >
+                                    {task.hourly_rate !== null ? `${formatMoney(task.hourly_rate, currency)}/h` : 'Rate'}
+                                </button>
+                            )}
+                            {!!task.tracked_seconds && (
+                              <span className="flex items-center gap-1 text-[10px] font-medium text-neutral-500 dark:text-neutral-400" title="Time tracked">
+                                <Timer className="w-3 h-3" />
+                                {formatDuration(task.tracked_seconds)}
+                              </span>
+                            )}
+                          </div>
+                          
+                          <span className={cn(
+                              "text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border",
+                              task.status === 'approved' ? "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50" :
+                              task.status === 'rejected' ? "bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-900/50" :
+                              task.status === 'submitted' ? "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50" :
+                              "bg-neutral-100 text-neutral-500 border-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:border-neutral-700"
+                          )}>
+                            {task.status.replace('_', ' ')}
+                          </span>
+                        </div>
+
+                        {/* Review Actions (Only if submitted or has link / files) */}
+                        {(task.proof_link || !!task.submitted_files?.length || task.status === 'submitted') && (
+                            <div className="mt-3 pt-3 border-t border-neutral-100 dark:border-neutral-700/50">
+                                {!!task.submitted_files?.length && (
+                                    <div className="mb-3">
+                                        <TaskAttachments attachments={task.submitted_files} compact />
+                                    </div>
+                                )}
+                                {task.proof_link && (
+                                    <a href={task.proof_link} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1.5 text-xs text-indigo-600 dark:text-indigo-400 hover:underline mb-3">
+                                        <ExternalLink className="w-3 h-3" /> 
+                                        <span className="truncate max-w-[150px]">View Submission</span>
+                                    </a>
+                                )}
+                                
+                                {task.status === 'submitted' && task.assigned_to !== currentUserId && (
+                                    <div className="flex gap-2">
+                                        <button 
+                                            onClick={() => handleReview(task.id, 'approved')}
+                                            className="flex-1 bg-emerald-600 text-white text-xs font-medium py-1.5 rounded hover:bg-emerald-700 transition-colors flex items-center justify-center gap-1"
+                                        >
+                                            <Check className="w-3 h-3" /> Approve
+                                        </button>
+                                        <button 
+                                            onClick={() => handleReview(task.id, 'rejected')}
+                                            className="flex-1 bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400 border border-rose-200 dark:border-rose-800 text-xs font-medium py-1.5 rounded hover:bg-rose-100 dark:hover:bg-rose-900/40 transition-colors flex items-center justify-center gap-1"
+                                        >
+                                            <X className="w-3 h-3" /> Reject
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {/* Footer Input */}
+                <div className="p-3 border-t border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-900">
+                  <div className="flex gap-2 relative">
+                    <input
+                      type="text"
+                      placeholder="Assign new task..."
+                      className="flex-1 text-sm pl-3 pr-8 py-2 rounded-lg border border-neutral-300 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-neutral-900 dark:text-neutral-100 placeholder:text-neutral-400"
+                      value={newTask[emp.user_id] || ''}
+                      onChange={(e) => setNewTask({ ...newTask, [emp.user_id]: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddTask(emp.user_id)}
+                    />
+                    <button 
+                        onClick={() => handleAddTask(emp.user_id)} 
+                        disabled={!newTask[emp.user_id]} 
+                        className="bg-indigo-600 text-white p-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+              </div>
+            ))}
+          </div>
+      )}
+
+      {/* Shift Schedule Modal */}
+      {scheduleFor && workspaceId && (
+        <ShiftScheduleForm
+          workspaceId={workspaceId}
+          member={scheduleFor}
+          shifts={scheduleFor.shifts}
+          timeZone={scheduleFor.time_zone}
+          onClose={() => setScheduleFor(null)}
+          onSaved={fetchData}
+        />
+      )}
+
+      {/* Hour Limits Modal */}
+      {limitsFor && workspaceId && (
+        <HourLimitForm
+          workspaceId={workspaceId}
+          member={limitsFor}
+          onClose={() => setLimitsFor(null)}
+          onSaved={fetchData}
+        />
+      )}
+
+      {/* Task History Modal */}
+      {historyFor && (
+        <TaskTimeline taskId={historyFor.id} taskTitle={historyFor.title} onClose={() => setHistoryFor(null)} />
+      )}
+
+      {/* Task Discussion Modal */}
+      {commentsFor && workspaceId && currentUserId && (
+        <TaskComments
+          taskId={commentsFor.id}
+          taskTitle={commentsFor.title}
+          workspaceId={workspaceId}
+          assignedTo={commentsFor.assigned_to}
+          userId={currentUserId}
+          onClose={() => {
+            setCommentsFor(null)
+            setUnreadKey(k => k + 1)
+          }}
+        />
+      )}
+
+      {/* Invitations Modal */}
+      {showInvites && workspace && currentUserId && (
+        <InviteManager
+          workspaceId={workspace.id}
+          workspaceName={workspace.name}
+          userId={currentUserId}
+          canInviteAdmins={canManageRoles}
+          onClose={() => setShowInvites(false)}
+        />
+      )}
+    </div>
+  )
 }
\ No newline at end of file
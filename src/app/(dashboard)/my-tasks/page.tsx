@@ -1,302 +1,625 @@
-'use client'
-
-import { useState, useEffect, useCallback } from 'react'
-import { createClient } from '@/lib/supabase/client'
-import { 
-  CheckCircle, Clock, FileText, Send, AlertCircle, 
-  RefreshCw, Check, Briefcase, ExternalLink, X, Play
-} from 'lucide-react'
-import { cn } from '@/lib/utils'
-
-// --- Interfaces ---
-
-interface Task {
-  id: string
-  title: string
-  description: string | null
-  status: 'todo' | 'in_progress' | 'submitted' | 'approved' | 'rejected'
-  priority: 'low' | 'medium' | 'high'
-  proof_link?: string
-  client_feedback?: string
-  created_at: string
-}
-
-// --- Components ---
-
-const TaskSkeleton = () => (
-  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 animate-pulse">
-    {[1, 2, 3, 4].map((i) => (
-      <div key={i} className="h-48 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800 p-6 flex flex-col justify-between">
-        <div className="space-y-3">
-          <div className="h-4 w-1/4 bg-neutral-200 dark:bg-neutral-800 rounded" />
-          <div className="h-6 w-3/4 bg-neutral-200 dark:bg-neutral-800 rounded" />
-        </div>
-        <div className="h-10 w-full bg-neutral-100 dark:bg-neutral-800 rounded mt-4" />
-      </div>
-    ))}
-  </div>
-)
-
-const StatusBadge = ({ status }: { status: string }) => {
-    const styles = {
-        todo: "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400 border-neutral-200 dark:border-neutral-700",
-        in_progress: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400 border-indigo-200 dark:border-indigo-800",
-        submitted: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 border-amber-200 dark:border-amber-800",
-        approved: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400 border-emerald-200 dark:border-emerald-800",
-        rejected: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400 border-rose-200 dark:border-rose-800"
-    }
-
-    const icons = {
-        todo: Briefcase,
-        in_progress: Clock,
-        submitted: Send,
-        approved: Check,
-        rejected: AlertCircle
-    }
-
-    // @ts-expect-error - dynamic key
-    const Icon = icons[status] || Briefcase
-    
-    return (
-        <span className={cn(
-            "inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-bold uppercase tracking-wide border",
-            // @ts-expect-error - dynamic key
-            styles[status] || styles.todo
-        )}>
-            <Icon className="w-3 h-3" />
-            <span>{status.replace('_', ' ')}</span>
-        </span>
-    )
-}
-
-// --- Main Page ---
-
-export default function MyTasksPage() {
-  const [tasks, setTasks] = useState<Task[]>([])
-  const [loading, setLoading] = useState(true)
-  const [submittingId, setSubmittingId] = useState<string | null>(null) 
-  const [proofLink, setProofLink] = useState('')
-  
-  const supabase = createClient()
-
-  // FIX 1: Separated data fetching (pure async) from state setting
-  // This satisfies the "setState in Effect" rule by not passing a state-setter function as a dependency
-  const getTasksFromSupabase = useCallback(async () => {
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) return []
-
-    const { data } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('assigned_to', user.id)
-      .order('created_at', { ascending: false })
-    
-    return (data as Task[]) || []
-  }, [supabase])
-
-  // FIX 2: Effect now handles the state update locally
-  useEffect(() => {
-    let isMounted = true
-    
-    const init = async () => {
-        const data = await getTasksFromSupabase()
-        if (isMounted) {
-            setTasks(data)
-            setLoading(false)
-        }
-    }
-    init()
-    
-    return () => { isMounted = false }
-  }, [getTasksFromSupabase])
-
-  // Helper for manual refreshes (buttons)
-  const refreshTasks = async () => {
-      const data = await getTasksFromSupabase()
-      setTasks(data)
-  }
-
-  // --- Actions ---
-
-  const handleStart = async (taskId: string) => {
-    await supabase.from('tasks').update({ status: 'in_progress' }).eq('id', taskId)
-    // Optimistic update
-    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: 'in_progress' } : t))
-  }
-
-  const handleSubmit = async (taskId: string) => {
-    if (!proofLink.trim()) return
-
-    await supabase
-      .from('tasks')
-      .update({ 
-        status: 'submitted',
-        proof_link: proofLink 
-      })
-      .eq('id', taskId)
-    
-    setProofLink('')
-    setSubmittingId(null)
-    refreshTasks() // Use the new helper
-  }
-
-  // --- Render ---
-
-  return (
-    <div className="p-6 md:p-8 max-w-6xl mx-auto w-full space-y-8">
-      
-      {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">My Tasks</h1>
-        <p className="text-neutral-500 dark:text-neutral-400">Manage your assignments and submit deliverables.</p>
-      </div>
-
-      {loading ? (
-        <TaskSkeleton />
-      ) : tasks.length === 0 ? (
-        <div className="flex flex-col items-center justify-center py-20 border-2 border-dashed border-neutral-200 dark:border-neutral-800 rounded-2xl bg-neutral-50/50 dark:bg-neutral-900/50">
-          <div className="w-16 h-16 bg-white dark:bg-neutral-800 rounded-full flex items-center justify-center shadow-sm mb-4">
-             <CheckCircle className="w-8 h-8 text-emerald-500" />
-          </div>
-          <h3 className="text-lg font-bold text-neutral-900 dark:text-neutral-100">All caught up!</h3>
-          <p className="text-neutral-500 dark:text-neutral-400 text-sm max-w-xs text-center mt-1">
-            You have no pending tasks. Enjoy your free time or ask your manager for more work.
-          </p>
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {tasks.map((task) => {
-             const isRejected = task.status === 'rejected'
-             const isSubmitting = submittingId === task.id
-
-             return (
-                <div 
-                    key={task.id} 
-                    className={cn(
-                        "bg-white dark:bg-neutral-900 rounded-xl border shadow-sm transition-all duration-300 flex flex-col",
-                        isRejected 
-                            ? "border-rose-200 dark:border-rose-900/50 ring-1 ring-rose-100 dark:ring-rose-900/20" 
-                            : task.status === 'in_progress'
-                            ? "border-indigo-200 dark:border-indigo-900/50"
-                            : "border-neutral-200 dark:border-neutral-800"
-                    )}
-                >
-                  
-                  {/* Card Content */}
-                  <div className="p-5 flex-1 space-y-4">
-                    
-                    {/* Top Row: Priority & Status */}
-                    <div className="flex items-center justify-between">
-                        <span className={cn(
-                            "text-[10px] uppercase font-bold px-2 py-0.5 rounded border",
-                            task.priority === 'high' ? "text-rose-700 bg-rose-50 border-rose-200 dark:bg-rose-900/20 dark:text-rose-300 dark:border-rose-900/50" :
-                            task.priority === 'medium' ? "text-amber-700 bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-900/50" :
-                            "text-emerald-700 bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-900/50"
-                        )}>
-                            {task.priority} Priority
-                        </span>
-                        <StatusBadge status={task.status} />
-                    </div>
-
-                    {/* Title */}
-                    <div>
-                        <h3 className="text-lg font-bold text-neutral-900 dark:text-neutral-100 leading-tight">
-                            {task.title}
-                        </h3>
-                        <p className="text-xs text-neutral-400 mt-1">
-                            Assigned {new Date(task.created_at).toLocaleDateString()}
-                        </p>
-                    </div>
-
-                    {/* Feedback Alert (Only if Rejected) */}
-                    {isRejected && task.client_feedback && (
-                        <div className="bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-900/30 rounded-lg p-3 flex gap-3 text-sm">
-                            <AlertCircle className="w-5 h-5 text-rose-600 dark:text-rose-400 shrink-0" />
-                            <div className="space-y-1">
-                                <p className="font-bold text-rose-700 dark:text-rose-300">Correction Required</p>
-                                {/* FIX 3: Escaped quotes below to &quot; */}
-                                <p className="text-rose-600 dark:text-rose-400 text-xs leading-relaxed">
-                                    &quot;{task.client_feedback}&quot;
-                                </p>
-                            </div>
-                        </div>
-                    )}
-                  </div>
-
-                  {/* Footer Actions */}
-                  <div className="p-4 bg-neutral-50 dark:bg-neutral-900 border-t border-neutral-100 dark:border-neutral-800 rounded-b-xl">
-                     
-                     {/* CASE 1: Start Button */}
-                     {task.status === 'todo' && (
-                        <button 
-                            onClick={() => handleStart(task.id)}
-                            className="w-full flex items-center justify-center gap-2 bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 hover:border-indigo-300 dark:hover:border-indigo-700 text-neutral-700 dark:text-neutral-200 py-2.5 rounded-lg text-sm font-medium transition-all group"
-                        >
-                            <Play className="w-4 h-4 text-neutral-400 group-hover:text-indigo-500 transition-colors" />
-                            Start Working
-                        </button>
-                     )}
-
-                     {/* CASE 2: Submit / Resubmit Form */}
-                     {(task.status === 'in_progress' || isRejected) && (
-                        !isSubmitting ? (
-                            <button 
-                                onClick={() => setSubmittingId(task.id)}
-                                className={cn(
-                                    "w-full flex items-center justify-center gap-2 text-white py-2.5 rounded-lg text-sm font-bold shadow-sm transition-all hover:scale-[1.02]",
-                                    isRejected ? "bg-rose-600 hover:bg-rose-700" : "bg-indigo-600 hover:bg-indigo-700"
-                                )}
-                            >
-                                {isRejected ? <RefreshCw className="w-4 h-4" /> : <Send className="w-4 h-4" />}
-                                {isRejected ? "Submit Fix" : "Submit Work"}
-                            </button>
-                        ) : (
-                            <div className="flex gap-2 animate-in fade-in slide-in-from-bottom-2">
-                                <input 
-                                    type="text" 
-                                    autoFocus
-                                    placeholder="Paste work link (Google Docs, Figma...)" 
-                                    className="flex-1 px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
-                                    value={proofLink}
-                                    onChange={(e) => setProofLink(e.target.value)}
-                                    onKeyDown={(e) => e.key === 'Enter' && handleSubmit(task.id)}
-                                />
-                                <button 
-                                    onClick={() => handleSubmit(task.id)}
-                                    disabled={!proofLink}
-                                    className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
-                                >
-                                    <Check className="w-4 h-4" />
-                                </button>
-                                <button 
-                                    onClick={() => { setSubmittingId(null); setProofLink('') }}
-                                    className="bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 text-neutral-600 dark:text-neutral-300 px-3 rounded-lg"
-                                >
-                                    <X className="w-4 h-4" />
-                                </button>
-                            </div>
-                        )
-                     )}
-
-                     {/* CASE 3: View Submission (Read Only) */}
-                     {(task.status === 'submitted' || task.status === 'approved') && task.proof_link && (
-                        <a 
-                            href={task.proof_link} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="flex items-center justify-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline py-2"
-                        >
-                            <ExternalLink className="w-4 h-4" />
-                            View Submitted Work
-                        </a>
-                     )}
-
-                  </div>
-                </div>
-             )
-          })}
-        </div>
-      )}
-    </div>
-  )
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useTimer } from '@/components/providers/timer-context'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { 
+  CheckCircle, Clock, FileText, Send, AlertCircle, 
+  RefreshCw, Check, Briefcase, ExternalLink, X, Play, Timer, Square,
+  LayoutGrid, List, History, MessageSquare, Paperclip, Loader2
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type TaskPriority, type TaskStatus, findTransition, transitionTask } from '@/lib/tasks'
+import TaskBoard, { type BoardTask } from '@/components/tasks/task-board'
+import TaskTimeline from '@/components/tasks/task-timeline'
+import TaskComments from '@/components/tasks/task-comments'
+import { fetchUnreadCounts } from '@/lib/task-comments'
+import TaskAttachments from '@/components/tasks/task-attachments'
+import {
+  type TaskAttachment, ATTACHMENT_BUCKET, ATTACHMENT_KINDS, DEFAULT_ATTACHMENT_LIMITS,
+  latestSubmission, removeOrphanedUploads, toAttachmentLimits, uploadTaskAttachment, validateAttachment
+} from '@/lib/task-attachments'
+
+// --- Interfaces ---
+
+interface Task {
+  id: string
+  title: string
+  description: string | null
+  status: TaskStatus
+  priority: TaskPriority
+  assigned_to: string | null
+  proof_link?: string
+  client_feedback?: string
+  created_at: string
+}
+
+interface TaskTimeLog {
+  task_id: string
+  duration_seconds: number
+}
+
+// --- Helper: Format Duration ---
+const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+
+    if (h > 0) return `${h}h ${m}m`
+    return `${m}m`
+}
+
+// --- Components ---
+
+const TaskSkeleton = () => (
+  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 animate-pulse">
+    {[1, 2, 3, 4].map((i) => (
+      <div key={i} className="h-48 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800 p-6 flex flex-col justify-between">
+        <div className="space-y-3">
+          <div className="h-4 w-1/4 bg-neutral-200 dark:bg-neutral-800 rounded" />
+          <div className="h-6 w-3/4 bg-neutral-200 dark:bg-neutral-800 rounded" />
+        </div>
+        <div className="h-10 w-full bg-neutral-100 dark:bg-neutral-800 rounded mt-4" />
+      </div>
+    ))}
+  </div>
+)
+
+const StatusBadge = ({ status }: { status: string }) => {
+    const styles = {
+        todo: "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400 border-neutral-200 dark:border-neutral-700",
+        in_progress: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400 border-indigo-200 dark:border-indigo-800",
+        submitted: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 border-amber-200 dark:border-amber-800",
+        approved: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400 border-emerald-200 dark:border-emerald-800",
+        rejected: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400 border-rose-200 dark:border-rose-800"
+    }
+
+    const icons = {
+        todo: Briefcase,
+        in_progress: Clock,
+        submitted: Send,
+        approved: Check,
+        rejected: AlertCircle
+    }
+
+    // @ts-expect-error - dynamic key
+    const Icon = icons[status] || Briefcase
+    
+    return (
+        <span className={cn(
+            "inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-full text-xs font-bold uppercase tracking-wide border",
+            // @ts-expect-error - dynamic key
+            styles[status] || styles.todo
+        )}>
+            <Icon className="w-3 h-3" />
+            <span>{status.replace('_', ' ')}</span>
+        </span>
+    )
+}
+
+// --- Main Page ---
+
+export default function MyTasksPage() {
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [loading, setLoading] = useState(true)
+  const [submittingId, setSubmittingId] = useState<string | null>(null) 
+  const [proofLink, setProofLink] = useState('')
+  const [trackedTime, setTrackedTime] = useState<Record<string, number>>({})
+  const [view, setView] = useState<'list' | 'board'>('list')
+  const [historyFor, setHistoryFor] = useState<Task | null>(null)
+  const [commentsFor, setCommentsFor] = useState<Task | null>(null)
+  const [unread, setUnread] = useState<Record<string, number>>({})
+  const [unreadKey, setUnreadKey] = useState(0)
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([])
+  const [attachmentLimits, setAttachmentLimits] = useState(DEFAULT_ATTACHMENT_LIMITS)
+  const [attachmentsKey, setAttachmentsKey] = useState(0)
+  const [uploadingId, setUploadingId] = useState<string | null>(null)
+  
+  const supabase = createClient()
+  const { isWorking, activeTaskId, time, trackTask, toggleTimer, formatTime } = useTimer()
+  const { userId, workspaceId } = useWorkspace()
+
+  // FIX 1: Separated data fetching (pure async) from state setting
+  // This satisfies the "setState in Effect" rule by not passing a state-setter function as a dependency
+  const getTasksFromSupabase = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user || !workspaceId) return []
+
+    const { data } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('assigned_to', user.id)
+      .order('created_at', { ascending: false })
+    
+    return (data as Task[]) || []
+  }, [supabase, workspaceId])
+
+  // Total logged time per task (refreshed whenever a session ends)
+  useEffect(() => {
+    if (isWorking || !workspaceId) return
+    let isMounted = true
+
+    const loadTrackedTime = async () => {
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) return
+
+        const { data } = await supabase
+          .from('time_logs')
+          .select('task_id, duration_seconds')
+          .eq('workspace_id', workspaceId)
+          .eq('user_id', user.id)
+          .not('task_id', 'is', null)
+
+        if (isMounted && data) {
+            const totals: Record<string, number> = {}
+            const logs = data as TaskTimeLog[]
+            logs.forEach(log => {
+                totals[log.task_id] = (totals[log.task_id] || 0) + log.duration_seconds
+            })
+            setTrackedTime(totals)
+        }
+    }
+    loadTrackedTime()
+
+    return () => { isMounted = false }
+  }, [supabase, isWorking, workspaceId])
+
+  // FIX 2: Effect now handles the state update locally
+  useEffect(() => {
+    let isMounted = true
+    
+    const init = async () => {
+        const data = await getTasksFromSupabase()
+        if (isMounted) {
+            setTasks(data)
+            setLoading(false)
+        }
+    }
+    init()
+    
+    return () => { isMounted = false }
+  }, [getTasksFromSupabase])
+
+  // Helper for manual refreshes (buttons)
+  const refreshTasks = useCallback(async () => {
+      const data = await getTasksFromSupabase()
+      setTasks(data)
+  }, [getTasksFromSupabase])
+
+  // Realtime: reviews and new assignments show up without a reload
+  useEffect(() => {
+    if (!userId) return
+
+    const channel = supabase
+      .channel(`my-tasks-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter: `assigned_to=eq.${userId}` },
+        () => { refreshTasks() }
+      )
+      .subscribe()
+
+    return () => { supabase.removeChannel(channel) }
+  }, [supabase, userId, refreshTasks])
+
+  // Unread comment counts, refreshed as comments arrive
+  useEffect(() => {
+    if (!workspaceId) return
+    let isMounted = true
+
+    const loadUnread = async () => {
+      const counts = await fetchUnreadCounts(supabase, workspaceId)
+      if (isMounted) setUnread(counts)
+    }
+    loadUnread()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, unreadKey])
+
+  useEffect(() => {
+    if (!workspaceId) return
+
+    const channel = supabase
+      .channel(`my-task-comments-${workspaceId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'task_comments', filter: `workspace_id=eq.${workspaceId}` },
+        () => setUnreadKey(k => k + 1)
+      )
+      .subscribe()
+
+    return () => { supabase.removeChannel(channel) }
+  }, [supabase, workspaceId])
+
+  // Files attached to tasks, and what the workspace accepts
+  useEffect(() => {
+    if (!workspaceId) return
+    let isMounted = true
+
+    const loadAttachments = async () => {
+      const [{ data: ws }, { data, error }] = await Promise.all([
+        supabase.from('workspaces').select('attachment_max_mb, attachment_types').eq('id', workspaceId).maybeSingle(),
+        supabase.from('task_attachments').select('*').eq('workspace_id', workspaceId).order('created_at', { ascending: true })
+      ])
+
+      if (error) console.error('Error fetching attachments:', error)
+      if (isMounted) {
+        setAttachmentLimits(toAttachmentLimits(ws))
+        setAttachments((data || []) as TaskAttachment[])
+      }
+    }
+    loadAttachments()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, attachmentsKey])
+
+  // Uploads an earlier visit left behind without a record
+  useEffect(() => {
+    if (workspaceId) removeOrphanedUploads(supabase, workspaceId)
+  }, [supabase, workspaceId])
+
+  // --- Actions ---
+
+  const pendingFiles = (taskId: string) => attachments.filter(a => a.task_id === taskId && !a.submission_event_id)
+
+  // Moves go through transition_task(), which refuses anything the assignee may not do
+  const handleStart = async (taskId: string) => {
+    const error = await transitionTask(supabase, taskId, 'in_progress')
+    if (error) {
+      alert(error)
+      return
+    }
+    // Optimistic update
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status: 'in_progress' } : t))
+  }
+
+  const submitWork = async (taskId: string, link: string) => {
+    const error = await transitionTask(supabase, taskId, 'submitted', { proof: link || undefined })
+    if (error) alert(error)
+
+    refreshTasks() // Use the new helper
+    setAttachmentsKey(k => k + 1)
+    return !error
+  }
+
+  const handleSubmit = async (taskId: string) => {
+    if (!proofLink.trim() && pendingFiles(taskId).length === 0) return
+
+    if (!(await submitWork(taskId, proofLink))) return
+    setProofLink('')
+    setSubmittingId(null)
+  }
+
+  // Board drops take the same paths as the buttons
+  const handleMove = async (task: BoardTask, to: TaskStatus) => {
+    const transition = findTransition(task.status, to, ['assignee'])
+    if (!transition) return
+
+    if (transition.needsProof) {
+      const hasFiles = pendingFiles(task.id).length > 0
+      const link = prompt(hasFiles
+        ? 'Paste work link (optional, your attached files are submitted too)'
+        : 'Paste work link (Google Docs, Figma...)')
+      if (link === null || (!link.trim() && !hasFiles)) return
+      await submitWork(task.id, link.trim())
+    } else {
+      await handleStart(task.id)
+    }
+  }
+
+  // Uploads go up straight away and wait, unsubmitted, until the work is submitted
+  const handleAttach = async (taskId: string, files: FileList | null) => {
+    if (!files || !workspaceId) return
+    const chosen = Array.from(files)
+    const problems = chosen.map(f => validateAttachment(f, attachmentLimits)).filter((p): p is string => !!p)
+    const accepted = chosen.filter(f => !validateAttachment(f, attachmentLimits))
+
+    setUploadingId(taskId)
+    for (const file of accepted) {
+      const { attachment, error } = await uploadTaskAttachment(supabase, workspaceId, taskId, file)
+      if (attachment) setAttachments(prev => [...prev, attachment])
+      if (error) problems.push(error)
+    }
+    setUploadingId(null)
+
+    if (problems.length > 0) alert(problems.join('\n'))
+  }
+
+  const handleRemoveAttachment = async (attachment: TaskAttachment) => {
+    const { error } = await supabase.from('task_attachments').delete().eq('id', attachment.id)
+    if (error) {
+      console.error('Error removing attachment:', error)
+      alert('Failed to remove the file.')
+      return
+    }
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([attachment.path])
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id))
+  }
+
+  // --- Render ---
+
+  return (
+    <div className="p-6 md:p-8 max-w-6xl mx-auto w-full space-y-8">
+      
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">My Tasks</h1>
+          <p className="text-neutral-500 dark:text-neutral-400">Manage your assignments and submit deliverables.</p>
+        </div>
+
+        {/* View Toggle */}
+        <div className="flex bg-neutral-100 dark:bg-neutral-800 p-1 rounded-lg self-start sm:self-auto">
+          {([['list', List, 'List'], ['board', LayoutGrid, 'Board']] as const).map(([value, Icon, label]) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={cn(
+                "flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all",
+                view === value
+                  ? "bg-white dark:bg-neutral-700 text-neutral-900 dark:text-neutral-100 shadow-sm"
+                  : "text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-200"
+              )}
+            >
+              <Icon className="w-3.5 h-3.5" /> {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <TaskSkeleton />
+      ) : tasks.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 border-2 border-dashed border-neutral-200 dark:border-neutral-800 rounded-2xl bg-neutral-50/50 dark:bg-neutral-900/50">
+          <div className="w-16 h-16 bg-white dark:bg-neutral-800 rounded-full flex items-center justify-center shadow-sm mb-4">
+             <CheckCircle className="w-8 h-8 text-emerald-500" />
+          </div>
+          <h3 className="text-lg font-bold text-neutral-900 dark:text-neutral-100">All caught up!</h3>
+          <p className="text-neutral-500 dark:text-neutral-400 text-sm max-w-xs text-center mt-1">
+            You have no pending tasks. Enjoy your free time or ask your manager for more work.
+          </p>
+        </div>
+      ) : view === 'board' ? (
+        <TaskBoard tasks={tasks.map(t => ({ ...t, unread: unread[t.id] }))} actorsFor={() => ['assignee']} onMove={handleMove} />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {tasks.map((task) => {
+             const isRejected = task.status === 'rejected'
+             const isSubmitting = submittingId === task.id
+             const pending = pendingFiles(task.id)
+             const submittedFiles = latestSubmission(attachments.filter(a => a.task_id === task.id))
+
+             return (
+                <div 
+                    key={task.id} 
+                    className={cn(
+                        "bg-white dark:bg-neutral-900 rounded-xl border shadow-sm transition-all duration-300 flex flex-col",
+                        isRejected 
+                            ? "border-rose-200 dark:border-rose-900/50 ring-1 ring-rose-100 dark:ring-rose-900/20" 
+                            : task.status === 'in_progress'
+                            ? "border-indigo-200 dark:border-indigo-900/50"
+                            : "border-neutral-200 dark:border-neutral-800"
+                    )}
+                >
+                  
+                  {/* Card Content */}
+                  <div className="p-5 flex-1 space-y-4">
+                    
+                    {/* Top Row: Priority & Status */}
+                    <div className="flex items-center justify-between">
+                        <span className={cn(
+                            "text-[10px] uppercase font-bold px-2 py-0.5 rounded border",
+                            task.priority === 'high' ? "text-rose-700 bg-rose-50 border-rose-200 dark:bg-rose-900/20 dark:text-rose-300 dark:border-rose-900/50" :
+                            task.priority === 'medium' ? "text-amber-700 bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-900/50" :
+                            "text-emerald-700 bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-900/50"
+                        )}>
+                            {task.priority} Priority
+                        </span>
+                        <StatusBadge status={task.status} />
+                    </div>
+
+                    {/* Title */}
+                    <div>
+                        <h3 className="text-lg font-bold text-neutral-900 dark:text-neutral-100 leading-tight">
+                            {task.title}
+                        </h3>
+                        <p className="text-xs text-neutral-400 mt-1 flex items-center gap-1.5">
+                            Assigned {new Date(task.created_at).toLocaleDateString()}
+                            {trackedTime[task.id] > 0 && (
+                                <>
+                                    <span className="text-neutral-300">&middot;</span>
+                                    <Timer className="w-3 h-3" />
+                                    {formatDuration(trackedTime[task.id])} tracked
+                                </>
+                            )}
+                            <span className="text-neutral-300">&middot;</span>
+                            <button
+                                onClick={() => setHistoryFor(task)}
+                                className="flex items-center gap-1 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                            >
+                                <History className="w-3 h-3" />
+                                History
+                            </button>
+                            <span className="text-neutral-300">&middot;</span>
+                            <button
+                                onClick={() => setCommentsFor(task)}
+                                className={cn(
+                                    "flex items-center gap-1 transition-colors",
+                                    unread[task.id] ? "text-indigo-600 dark:text-indigo-400 font-semibold" : "hover:text-indigo-600 dark:hover:text-indigo-400"
+                                )}
+                            >
+                                <MessageSquare className="w-3 h-3" />
+                                {unread[task.id] ? `${unread[task.id]} new` : 'Discuss'}
+                            </button>
+                        </p>
+                    </div>
+
+                    {/* Feedback Alert (Only if Rejected) */}
+                    {isRejected && task.client_feedback && (
+                        <div className="bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-900/30 rounded-lg p-3 flex gap-3 text-sm">
+                            <AlertCircle className="w-5 h-5 text-rose-600 dark:text-rose-400 shrink-0" />
+                            <div className="space-y-1">
+                                <p className="font-bold text-rose-700 dark:text-rose-300">Correction Required</p>
+                                {/* FIX 3: Escaped quotes below to &quot; */}
+                                <p className="text-rose-600 dark:text-rose-400 text-xs leading-relaxed">
+                                    &quot;{task.client_feedback}&quot;
+                                </p>
+                            </div>
+                        </div>
+                    )}
+                  </div>
+
+                  {/* Footer Actions */}
+                  <div className="p-4 bg-neutral-50 dark:bg-neutral-900 border-t border-neutral-100 dark:border-neutral-800 rounded-b-xl space-y-3">
+
+                     {/* Time Tracking (Open tasks only) */}
+                     {(task.status === 'todo' || task.status === 'in_progress' || isRejected) && (
+                        isWorking && activeTaskId === task.id ? (
+                            <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-900/50">
+                                <span className="flex items-center gap-2 text-sm font-medium text-indigo-700 dark:text-indigo-400">
+                                    <Timer className="w-4 h-4" />
+                                    Tracking <span className="font-mono">{formatTime(time)}</span>
+                                </span>
+                                <button
+                                    onClick={toggleTimer}
+                                    title="Stop Timer"
+                                    className="p-1.5 rounded-md text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors"
+                                >
+                                    <Square className="w-4 h-4 fill-current" />
+                                </button>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => trackTask(task.id)}
+                                className="w-full flex items-center justify-center gap-2 text-xs font-medium text-neutral-500 hover:text-indigo-600 dark:hover:text-indigo-400 py-1 transition-colors"
+                            >
+                                <Timer className="w-3.5 h-3.5" />
+                                {isWorking ? 'Switch Timer to This Task' : 'Track Time on This Task'}
+                            </button>
+                        )
+                     )}
+                     
+                     {/* CASE 1: Start Button */}
+                     {task.status === 'todo' && (
+                        <button 
+                            onClick={() => handleStart(task.id)}
+                            className="w-full flex items-center justify-center gap-2 bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 hover:border-indigo-300 dark:hover:border-indigo-700 text-neutral-700 dark:text-neutral-200 py-2.5 rounded-lg text-sm font-medium transition-all group"
+                        >
+                            <Play className="w-4 h-4 text-neutral-400 group-hover:text-indigo-500 transition-colors" />
+                            Start Working
+                        </button>
+                     )}
+
+                     {/* CASE 2: Submit / Resubmit Form */}
+                     {(task.status === 'in_progress' || isRejected) && (
+                        !isSubmitting ? (
+                            <button 
+                                onClick={() => setSubmittingId(task.id)}
+                                className={cn(
+                                    "w-full flex items-center justify-center gap-2 text-white py-2.5 rounded-lg text-sm font-bold shadow-sm transition-all hover:scale-[1.02]",
+                                    isRejected ? "bg-rose-600 hover:bg-rose-700" : "bg-indigo-600 hover:bg-indigo-700"
+                                )}
+                            >
+                                {isRejected ? <RefreshCw className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                                {isRejected ? "Submit Fix" : "Submit Work"}
+                            </button>
+                        ) : (
+                            <div className="space-y-2 animate-in fade-in slide-in-from-bottom-2">
+                                <div className="flex gap-2">
+                                    <input 
+                                        type="text" 
+                                        autoFocus
+                                        placeholder={pending.length > 0 ? "Work link (optional)" : "Paste work link (Google Docs, Figma...)"}
+                                        className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                        value={proofLink}
+                                        onChange={(e) => setProofLink(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleSubmit(task.id)}
+                                    />
+                                    <label
+                                        title="Attach files"
+                                        className={cn(
+                                            "flex items-center bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 hover:border-indigo-300 dark:hover:border-indigo-700 text-neutral-500 px-3 rounded-lg cursor-pointer transition-colors",
+                                            uploadingId === task.id && "pointer-events-none opacity-50"
+                                        )}
+                                    >
+                                        {uploadingId === task.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+                                        <input
+                                            type="file"
+                                            multiple
+                                            className="hidden"
+                                            accept={attachmentLimits.attachment_types.flatMap(k => ATTACHMENT_KINDS[k].extensions.map(ext => `.${ext}`)).join(',')}
+                                            onChange={(e) => {
+                                                handleAttach(task.id, e.target.files)
+                                                e.target.value = ''
+                                            }}
+                                        />
+                                    </label>
+                                    <button 
+                                        onClick={() => handleSubmit(task.id)}
+                                        disabled={(!proofLink && pending.length === 0) || uploadingId === task.id}
+                                        className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <Check className="w-4 h-4" />
+                                    </button>
+                                    <button 
+                                        onClick={() => { setSubmittingId(null); setProofLink('') }}
+                                        className="bg-neutral-200 dark:bg-neutral-700 hover:bg-neutral-300 text-neutral-600 dark:text-neutral-300 px-3 rounded-lg"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+
+                                <TaskAttachments attachments={pending} onRemove={handleRemoveAttachment} compact />
+                                <p className="text-[11px] text-neutral-400">
+                                    Attach {attachmentLimits.attachment_types.map(k => ATTACHMENT_KINDS[k].label.toLowerCase()).join(', ') || 'no files'}, up to {attachmentLimits.attachment_max_mb} MB each.
+                                </p>
+                            </div>
+                        )
+                     )}
+
+                     {/* CASE 3: View Submission (Read Only) */}
+                     {(task.status === 'submitted' || task.status === 'approved') && submittedFiles.length > 0 && (
+                        <TaskAttachments attachments={submittedFiles} />
+                     )}
+                     {(task.status === 'submitted' || task.status === 'approved') && task.proof_link && (
+                        <a 
+                            href={task.proof_link} 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="flex items-center justify-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline py-2"
+                        >
+                            <ExternalLink className="w-4 h-4" />
+                            View Submitted Work
+                        </a>
+                     )}
+
+                  </div>
+                </div>
+             )
+          })}
+        </div>
+      )}
+
+      {/* Task History Modal */}
+      {historyFor && (
+        <TaskTimeline taskId={historyFor.id} taskTitle={historyFor.title} onClose={() => setHistoryFor(null)} />
+      )}
+
+      {/* Task Discussion Modal */}
+      {commentsFor && workspaceId && userId && (
+        <TaskComments
+          taskId={commentsFor.id}
+          taskTitle={commentsFor.title}
+          workspaceId={workspaceId}
+          assignedTo={commentsFor.assigned_to}
+          userId={userId}
+          onClose={() => {
+            setCommentsFor(null)
+            setUnreadKey(k => k + 1)
+          }}
+        />
+      )}
+    </div>
+  )
 }
\ No newline at end of file
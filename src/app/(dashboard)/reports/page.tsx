@@ -1,229 +1,456 @@
-'use client'
-
-import { useEffect, useState, useMemo } from 'react'
-import { createClient } from '@/lib/supabase/client'
-import { 
-  Clock, Calendar, Download, TrendingUp, 
-  History, FileText, ArrowRight, type LucideIcon 
-} from 'lucide-react'
-import Link from 'next/link'
-import { cn } from '@/lib/utils'
-
-// --- Interfaces ---
-
-interface TimeLog {
-  id: string
-  start_time: string
-  end_time: string
-  duration_seconds: number
-  created_at: string
-}
-
-// --- Components ---
-
-// FIX: Replaced 'any' with 'LucideIcon'
-const StatCard = ({ label, value, icon: Icon, subtext }: { label: string, value: string, icon: LucideIcon, subtext?: string }) => (
-  <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 p-6 rounded-xl shadow-sm flex items-start justify-between">
-    <div>
-      <p className="text-sm font-medium text-neutral-500 dark:text-neutral-400 mb-1">{label}</p>
-      <h3 className="text-2xl font-bold text-neutral-900 dark:text-neutral-50">{value}</h3>
-      {subtext && <p className="text-xs text-neutral-400 mt-2">{subtext}</p>}
-    </div>
-    <div className="p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg text-indigo-600 dark:text-indigo-400">
-      <Icon className="w-5 h-5" />
-    </div>
-  </div>
-)
-
-const ReportsSkeleton = () => (
-  <div className="space-y-8 animate-pulse">
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-      {[1, 2, 3].map(i => (
-        <div key={i} className="h-32 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
-      ))}
-    </div>
-    <div className="h-96 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
-  </div>
-)
-
-// --- Helper: Format Seconds ---
-const formatDuration = (seconds: number) => {
-    const h = Math.floor(seconds / 3600)
-    const m = Math.floor((seconds % 3600) / 60)
-    
-    if (h > 0) return `${h}h ${m}m`
-    return `${m}m ${seconds % 60}s`
-}
-
-// --- Helper: Format Date Smartly ---
-const formatDate = (isoString: string) => {
-    const date = new Date(isoString)
-    const now = new Date()
-    const yesterday = new Date(now)
-    yesterday.setDate(yesterday.getDate() - 1)
-
-    if (date.toDateString() === now.toDateString()) return 'Today'
-    if (date.toDateString() === yesterday.toDateString()) return 'Yesterday'
-    
-    return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
-}
-
-// --- Main Page ---
-
-export default function ReportsPage() {
-  const [logs, setLogs] = useState<TimeLog[]>([])
-  const [loading, setLoading] = useState(true)
-  const supabase = createClient()
-
-  useEffect(() => {
-    const fetchLogs = async () => {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) return
-
-      const { data, error } = await supabase
-        .from('time_logs')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('start_time', { ascending: false }) // Sort by start time
-
-      if (error) {
-        console.error('Error fetching logs:', error)
-      } else if (data) {
-        setLogs(data as unknown as TimeLog[])
-      }
-      setLoading(false)
-    }
-
-    fetchLogs()
-  }, [supabase])
-
-  // --- Derived Statistics ---
-  const stats = useMemo(() => {
-    const totalSeconds = logs.reduce((acc, log) => acc + log.duration_seconds, 0)
-    const totalSessions = logs.length
-    const avgSeconds = totalSessions > 0 ? totalSeconds / totalSessions : 0
-
-    return {
-        totalTime: formatDuration(totalSeconds),
-        count: totalSessions,
-        avgSession: formatDuration(Math.round(avgSeconds))
-    }
-  }, [logs])
-
-  const handleExport = () => {
-    alert("Export feature would generate a CSV here.")
-  }
-
-  if (loading) {
-    return <div className="p-8 max-w-6xl mx-auto"><ReportsSkeleton /></div>
-  }
-
-  return (
-    <div className="p-6 md:p-10 max-w-6xl mx-auto w-full space-y-8">
-      
-      {/* Header */}
-      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-        <div>
-          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">My Timesheets</h1>
-          <p className="text-neutral-500 dark:text-neutral-400">Track your productivity and work history.</p>
-        </div>
-        <button 
-          onClick={handleExport}
-          className="flex items-center gap-2 bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-700 text-neutral-700 dark:text-neutral-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
-        >
-          <Download className="w-4 h-4" />
-          Export CSV
-        </button>
-      </div>
-
-      {/* Stats Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <StatCard 
-            label="Total Hours Tracked" 
-            value={stats.totalTime} 
-            icon={History} 
-            subtext="All time aggregate"
-        />
-        <StatCard 
-            label="Total Sessions" 
-            value={stats.count.toString()} 
-            icon={FileText} 
-        />
-        <StatCard 
-            label="Avg. Session Length" 
-            value={stats.avgSession} 
-            icon={TrendingUp} 
-            subtext="Based on completed logs"
-        />
-      </div>
-
-      {/* Data Table */}
-      <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm overflow-hidden">
-        
-        {logs.length === 0 ? (
-          <div className="flex flex-col items-center justify-center py-16 text-center">
-             <div className="w-16 h-16 bg-neutral-100 dark:bg-neutral-800 rounded-full flex items-center justify-center mb-4">
-                <Clock className="w-8 h-8 text-neutral-400" />
-             </div>
-             <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">No logs found</h3>
-             <p className="text-neutral-500 max-w-sm mt-1 mb-6">
-               It looks like you haven&apos;t tracked any time yet. Start the timer to generate your first report.
-             </p>
-             <Link href="/timer" className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-700 font-medium">
-                Go to Time Tracker <ArrowRight className="w-4 h-4" />
-             </Link>
-          </div>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full text-left">
-              <thead>
-                <tr className="bg-neutral-50/50 dark:bg-neutral-800/50 border-b border-neutral-200 dark:border-neutral-800">
-                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Date</th>
-                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Time Window</th>
-                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Duration</th>
-                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider text-right">Status</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
-                {logs.map((log) => (
-                  <tr key={log.id} className="group hover:bg-neutral-50 dark:hover:bg-neutral-800/40 transition-colors">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center gap-3">
-                        <div className="p-2 rounded bg-neutral-100 dark:bg-neutral-800 text-neutral-500">
-                           <Calendar className="w-4 h-4" />
-                        </div>
-                        <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
-                          {formatDate(log.start_time)}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-neutral-600 dark:text-neutral-400 flex flex-col">
-                         <span>
-                            {new Date(log.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                            <span className="mx-1.5 text-neutral-300">-</span>
-                            {new Date(log.end_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                         </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-sm font-bold bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400">
-                        {formatDuration(log.duration_seconds)}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right">
-                       <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-bold uppercase bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400">
-                          <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" />
-                          Logged
-                       </span>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        )}
-      </div>
-    </div>
-  )
+'use client'
+
+import { useEffect, useState, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { 
+  Clock, Calendar, TrendingUp, 
+  History, FileText, ArrowRight, Coffee, Plus, Pencil, Lock, StickyNote, type LucideIcon 
+} from 'lucide-react'
+import Link from 'next/link'
+import { cn } from '@/lib/utils'
+import TimeEntryForm from '@/components/timesheets/time-entry-form'
+import WeeklyTimesheet from '@/components/timesheets/weekly-timesheet'
+import ExportMenu from '@/components/timesheets/export-menu'
+import SessionNotesForm from '@/components/timesheets/session-notes-form'
+import type { TimeLogRequest } from '@/lib/time-requests'
+import { type Timesheet, isLockedAt, formatDayKey } from '@/lib/timesheets'
+import { addDaysToKey, dayKey, fetchTimeZones, getBrowserTimeZone, resolveTimeZone } from '@/lib/time-zones'
+
+// --- Interfaces ---
+
+interface TimeLog {
+  id: string
+  start_time: string
+  end_time: string
+  duration_seconds: number // worked time, breaks excluded
+  break_seconds: number
+  task_id: string | null
+  source: 'timer' | 'manual'
+  edited_at: string | null
+  auto_stopped: boolean // closed by the server after running too long
+  notes: string | null // what was worked on
+  created_at: string
+}
+
+type LogStatus = 'logged' | 'manual' | 'edited' | 'pending' | 'auto_stopped'
+
+// --- Components ---
+
+// FIX: Replaced 'any' with 'LucideIcon'
+const StatCard = ({ label, value, icon: Icon, subtext }: { label: string, value: string, icon: LucideIcon, subtext?: string }) => (
+  <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 p-6 rounded-xl shadow-sm flex items-start justify-between">
+    <div>
+      <p className="text-sm font-medium text-neutral-500 dark:text-neutral-400 mb-1">{label}</p>
+      <h3 className="text-2xl font-bold text-neutral-900 dark:text-neutral-50">{value}</h3>
+      {subtext && <p className="text-xs text-neutral-400 mt-2">{subtext}</p>}
+    </div>
+    <div className="p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg text-indigo-600 dark:text-indigo-400">
+      <Icon className="w-5 h-5" />
+    </div>
+  </div>
+)
+
+const ReportsSkeleton = () => (
+  <div className="space-y-8 animate-pulse">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      {[1, 2, 3, 4].map(i => (
+        <div key={i} className="h-32 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
+      ))}
+    </div>
+    <div className="h-96 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
+  </div>
+)
+
+const LogStatusBadge = ({ status }: { status: LogStatus }) => {
+    const styles = {
+        logged: { className: "bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400", dot: "bg-emerald-500", label: 'Logged' },
+        manual: { className: "bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20 dark:text-indigo-400", dot: "bg-indigo-500", label: 'Manual' },
+        edited: { className: "bg-sky-50 text-sky-600 dark:bg-sky-900/20 dark:text-sky-400", dot: "bg-sky-500", label: 'Edited' },
+        pending: { className: "bg-amber-50 text-amber-600 dark:bg-amber-900/20 dark:text-amber-400", dot: "bg-amber-500", label: 'Edit Pending' },
+        auto_stopped: { className: "bg-rose-50 text-rose-600 dark:bg-rose-900/20 dark:text-rose-400", dot: "bg-rose-500", label: 'Auto-stopped' }
+    }
+    const style = styles[status]
+
+    return (
+        <span className={cn("inline-flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-bold uppercase", style.className)}>
+            <span className={cn("w-1.5 h-1.5 rounded-full", style.dot)} />
+            {style.label}
+        </span>
+    )
+}
+
+const RequestStatusBadge = ({ status }: { status: TimeLogRequest['status'] }) => (
+    <span className={cn(
+        "text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border",
+        status === 'approved' ? "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50" :
+        status === 'rejected' ? "bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-900/50" :
+        "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50"
+    )}>
+        {status}
+    </span>
+)
+
+const formatTime = (iso: string, timeZone: string) =>
+    new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })
+
+const formatWindow = (start: string, end: string, timeZone: string) =>
+    `${new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone })}, ` +
+    `${formatTime(start, timeZone)} - ${formatTime(end, timeZone)}`
+
+// --- Helper: Format Seconds ---
+const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+    
+    if (h > 0) return `${h}h ${m}m`
+    return `${m}m ${seconds % 60}s`
+}
+
+// --- Helper: Format Date Smartly (in the report time zone) ---
+const formatDate = (isoString: string, timeZone: string) => {
+    const day = dayKey(new Date(isoString), timeZone)
+    const today = dayKey(new Date(), timeZone)
+
+    if (day === today) return 'Today'
+    if (day === addDaysToKey(today, -1)) return 'Yesterday'
+    
+    return formatDayKey(day, { weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+// --- Main Page ---
+
+export default function ReportsPage() {
+  const [logs, setLogs] = useState<TimeLog[]>([])
+  const [requests, setRequests] = useState<TimeLogRequest[]>([])
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [entryForm, setEntryForm] = useState<{ log?: TimeLog } | null>(null)
+  const [notesLog, setNotesLog] = useState<TimeLog | null>(null)
+  const [timeZone, setTimeZone] = useState(getBrowserTimeZone)
+  const { workspaceId, isLoading: workspaceLoading } = useWorkspace()
+  const supabase = createClient()
+
+  useEffect(() => {
+    if (workspaceLoading) return
+
+    const fetchLogs = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      // Everything below belongs to the active workspace
+      if (!workspaceId) {
+        setLogs([])
+        setRequests([])
+        setTimesheets([])
+        setLoading(false)
+        return
+      }
+
+      // Days and weeks are bucketed in the user's (or workspace's) zone
+      const { profileZone, workspaceZone } = await fetchTimeZones(supabase, user.id, workspaceId)
+      setTimeZone(resolveTimeZone(profileZone, workspaceZone))
+
+      const { data, error } = await supabase
+        .from('time_logs')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', user.id)
+        .order('start_time', { ascending: false }) // Sort by start time
+
+      if (error) {
+        console.error('Error fetching logs:', error)
+      } else if (data) {
+        setLogs(data as unknown as TimeLog[])
+      }
+
+      // Manual entries and edit requests (pending and reviewed)
+      const { data: requestData } = await supabase
+        .from('time_log_requests')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (requestData) setRequests(requestData as TimeLogRequest[])
+
+      // Submitted weeks (approved ones are locked)
+      const { data: timesheetData } = await supabase
+        .from('timesheets')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', user.id)
+        .order('week_start', { ascending: false })
+
+      if (timesheetData) setTimesheets(timesheetData as Timesheet[])
+      setLoading(false)
+    }
+
+    fetchLogs()
+  }, [supabase, refreshKey, workspaceId, workspaceLoading])
+
+  const pendingEditIds = useMemo(() => new Set(
+    requests.filter(r => r.status === 'pending' && r.time_log_id).map(r => r.time_log_id)
+  ), [requests])
+
+  // Pending requests plus the five most recently reviewed
+  const visibleRequests = useMemo(() => [
+    ...requests.filter(r => r.status === 'pending'),
+    ...requests.filter(r => r.status !== 'pending').slice(0, 5)
+  ], [requests])
+
+  const getLogStatus = (log: TimeLog): LogStatus => {
+    if (pendingEditIds.has(log.id)) return 'pending'
+    if (log.source === 'manual') return 'manual'
+    if (log.edited_at) return 'edited'
+    if (log.auto_stopped) return 'auto_stopped'
+    return 'logged'
+  }
+
+  // Notes can change without an edit request (approved weeks stay locked)
+  const saveNotes = async (notes: string) => {
+    if (!notesLog) return false
+
+    const { error } = await supabase.rpc('set_time_log_notes', { log_id: notesLog.id, note: notes })
+    if (error) {
+      console.error('Error saving notes:', error)
+      return false
+    }
+
+    setLogs(current => current.map(l => l.id === notesLog.id ? { ...l, notes: notes || null } : l))
+    return true
+  }
+
+  // --- Derived Statistics ---
+  const stats = useMemo(() => {
+    const totalSeconds = logs.reduce((acc, log) => acc + log.duration_seconds, 0)
+    const totalBreakSeconds = logs.reduce((acc, log) => acc + (log.break_seconds || 0), 0)
+    const totalSessions = logs.length
+    const avgSeconds = totalSessions > 0 ? totalSeconds / totalSessions : 0
+
+    return {
+        totalTime: formatDuration(totalSeconds),
+        totalBreak: formatDuration(totalBreakSeconds),
+        count: totalSessions,
+        avgSession: formatDuration(Math.round(avgSeconds))
+    }
+  }, [logs])
+
+  if (loading) {
+    return <div className="p-8 max-w-6xl mx-auto"><ReportsSkeleton /></div>
+  }
+
+  return (
+    <div className="p-6 md:p-10 max-w-6xl mx-auto w-full space-y-8">
+      
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">My Timesheets</h1>
+          <p className="text-neutral-500 dark:text-neutral-400">Track your productivity and work history.</p>
+        </div>
+        <div className="flex gap-3">
+          <button 
+            onClick={() => setEntryForm({})}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Add Time
+          </button>
+          {workspaceId && <ExportMenu workspaceId={workspaceId} scope="me" timeZone={timeZone} />}
+        </div>
+      </div>
+
+      {/* Manual Entry / Edit Form */}
+      {entryForm && (
+        <TimeEntryForm
+          log={entryForm.log}
+          timeZone={timeZone}
+          onClose={() => setEntryForm(null)}
+          onSubmitted={() => setRefreshKey(k => k + 1)}
+        />
+      )}
+
+      {/* Session Notes */}
+      {notesLog && (
+        <SessionNotesForm
+          title="Session Notes"
+          subtitle={formatWindow(notesLog.start_time, notesLog.end_time, timeZone)}
+          initialNotes={notesLog.notes}
+          onSave={saveNotes}
+          onClose={() => setNotesLog(null)}
+        />
+      )}
+
+      {/* Stats Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard 
+            label="Total Hours Tracked" 
+            value={stats.totalTime} 
+            icon={History} 
+            subtext="All time aggregate"
+        />
+        <StatCard 
+            label="Total Sessions" 
+            value={stats.count.toString()} 
+            icon={FileText} 
+        />
+        <StatCard 
+            label="Avg. Session Length" 
+            value={stats.avgSession} 
+            icon={TrendingUp} 
+            subtext="Based on completed logs"
+        />
+        <StatCard 
+            label="Total Break Time" 
+            value={stats.totalBreak} 
+            icon={Coffee} 
+            subtext="Excluded from tracked hours"
+        />
+      </div>
+
+      {/* Weekly Timesheet */}
+      <WeeklyTimesheet logs={logs} timesheets={timesheets} timeZone={timeZone} onSubmitted={() => setRefreshKey(k => k + 1)} />
+
+      {/* Time Requests */}
+      {visibleRequests.length > 0 && (
+        <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm">
+          <div className="px-6 py-4 border-b border-neutral-100 dark:border-neutral-800">
+            <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Time Requests</h2>
+            <p className="text-xs text-neutral-500 mt-0.5">Manual entries and edits awaiting or after owner review.</p>
+          </div>
+          <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+            {visibleRequests.map(req => (
+              <li key={req.id} className="px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div className="text-sm">
+                  <span className="font-medium text-neutral-900 dark:text-neutral-100">
+                    {req.kind === 'create' ? 'Manual entry' : 'Edit'}:
+                  </span>{' '}
+                  {req.original && (
+                    <span className="text-neutral-400 line-through mr-1.5">
+                      {formatWindow(req.original.start_time, req.original.end_time, timeZone)}
+                    </span>
+                  )}
+                  <span className="text-neutral-600 dark:text-neutral-300">
+                    {formatWindow(req.proposed_start_time, req.proposed_end_time, timeZone)}
+                  </span>
+                  {req.review_comment && (
+                    <p className="text-xs text-neutral-500 mt-0.5">&quot;{req.review_comment}&quot;</p>
+                  )}
+                </div>
+                <RequestStatusBadge status={req.status} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Data Table */}
+      <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm overflow-hidden">
+        
+        {logs.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+             <div className="w-16 h-16 bg-neutral-100 dark:bg-neutral-800 rounded-full flex items-center justify-center mb-4">
+                <Clock className="w-8 h-8 text-neutral-400" />
+             </div>
+             <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">No logs found</h3>
+             <p className="text-neutral-500 max-w-sm mt-1 mb-6">
+               It looks like you haven&apos;t tracked any time yet. Start the timer to generate your first report.
+             </p>
+             <Link href="/timer" className="inline-flex items-center gap-2 text-indigo-600 hover:text-indigo-700 font-medium">
+                Go to Time Tracker <ArrowRight className="w-4 h-4" />
+             </Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-neutral-50/50 dark:bg-neutral-800/50 border-b border-neutral-200 dark:border-neutral-800">
+                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Time Window</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Worked</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Break</th>
+                  <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider text-right">Status</th>
+                  <th className="px-6 py-4" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                {logs.map((log) => (
+                  <tr key={log.id} className="group hover:bg-neutral-50 dark:hover:bg-neutral-800/40 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 rounded bg-neutral-100 dark:bg-neutral-800 text-neutral-500">
+                           <Calendar className="w-4 h-4" />
+                        </div>
+                        <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+                          {formatDate(log.start_time, timeZone)}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-neutral-600 dark:text-neutral-400 flex flex-col">
+                         <span>
+                            {formatTime(log.start_time, timeZone)}
+                            <span className="mx-1.5 text-neutral-300">-</span>
+                            {formatTime(log.end_time, timeZone)}
+                         </span>
+                         {log.notes && (
+                            <span className="text-xs text-neutral-400 truncate max-w-64" title={log.notes}>{log.notes}</span>
+                         )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-sm font-bold bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400">
+                        {formatDuration(log.duration_seconds)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {log.break_seconds ? (
+                        <span className="inline-flex items-center gap-1.5 px-2.5 py-0.5 rounded-md text-sm font-medium bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+                          <Coffee className="w-3.5 h-3.5" />
+                          {formatDuration(log.break_seconds)}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-neutral-400">&mdash;</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                       <LogStatusBadge status={getLogStatus(log)} />
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-right">
+                       {isLockedAt(timesheets, log.start_time) ? (
+                          <span title="Approved week, locked" className="inline-flex p-1.5 text-neutral-300 dark:text-neutral-600">
+                             <Lock className="w-4 h-4" />
+                          </span>
+                       ) : (
+                          <>
+                             <button
+                                onClick={() => setNotesLog(log)}
+                                title={log.notes ? 'Edit Notes' : 'Add Notes'}
+                                className="p-1.5 rounded-md text-neutral-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 opacity-0 group-hover:opacity-100 transition-all"
+                             >
+                                <StickyNote className="w-4 h-4" />
+                             </button>
+                             {!pendingEditIds.has(log.id) && (
+                                <button
+                                   onClick={() => setEntryForm({ log })}
+                                   title="Request Edit"
+                                   className="p-1.5 rounded-md text-neutral-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 opacity-0 group-hover:opacity-100 transition-all"
+                                >
+                                   <Pencil className="w-4 h-4" />
+                                </button>
+                             )}
+                          </>
+                       )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
 }
\ No newline at end of file
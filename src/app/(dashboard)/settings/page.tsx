@@ -1,403 +1,794 @@
-'use client'
-
-import { useState, useEffect, useRef } from 'react'
-import { createClient } from '@/lib/supabase/client'
-import { useNotification } from '@/components/providers/notification-provider'
-import { 
-  User, Camera, Bell, Save, Loader2, 
-  Volume2, VolumeX, Check, Briefcase, Mail, 
-  Sun, Moon // <-- NEW IMPORTS
-} from 'lucide-react'
-import { cn } from '@/lib/utils' 
-
-// Function to handle the dark mode class on the <html> tag
-const applyDarkModeClass = (isDark: boolean) => {
-    if (typeof window !== 'undefined') {
-        document.documentElement.classList.toggle('dark', isDark)
-    }
-}
-
-// Function to get initial dark mode state from local storage
-const getInitialDarkMode = (): boolean => {
-    if (typeof window === 'undefined') return false
-    
-    const savedMode = localStorage.getItem('staffsync_dark_mode')
-    if (savedMode !== null) {
-        return savedMode === 'true'
-    }
-    // Fallback: Check user's system preference
-    return window.matchMedia('(prefers-color-scheme: dark)').matches
-}
-
-
-export default function SettingsPage() {
-  const supabase = createClient()
-  const { soundEnabled, toggleSound } = useNotification()
-  
-  // NEW STATE: Dark Mode
-  const [darkMode, setDarkMode] = useState(getInitialDarkMode)
-  
-  const [loading, setLoading] = useState(true)
-  const [saving, setSaving] = useState(false)
-  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
-  
-  // Profile State
-  const [userId, setUserId] = useState<string | null>(null)
-  const [fullName, setFullName] = useState('')
-  const [role, setRole] = useState('')
-  const [email, setEmail] = useState('') 
-  const [avatarUrl, setAvatarUrl] = useState<string | null>(null)
-  const [uploading, setUploading] = useState(false)
-
-  const fileInputRef = useRef<HTMLInputElement>(null)
-
-  // 1. Initial Profile Fetch
-  useEffect(() => {
-    const getProfile = async () => {
-      try {
-        const { data: { user } } = await supabase.auth.getUser()
-        if (!user) return
-
-        setUserId(user.id)
-        setEmail(user.email || '')
-
-        const { data } = await supabase
-          .from('profiles')
-          .select('full_name, avatar_url, role')
-          .eq('id', user.id)
-          .single()
-        
-        if (data) {
-          setFullName(data.full_name || '')
-          setRole(data.role || '')
-          setAvatarUrl(data.avatar_url)
-        }
-      } catch (err) {
-        console.error('Error loading profile', err)
-      } finally {
-        setLoading(false)
-      }
-    }
-    getProfile()
-  }, [supabase])
-
-  // 2. Apply Dark Mode on Mount and State Change
-  useEffect(() => {
-    applyDarkModeClass(darkMode)
-  }, [darkMode])
-  
-  // 3. Toggle Dark Mode Function
-  const toggleDarkMode = () => {
-      const newMode = !darkMode
-      setDarkMode(newMode)
-      localStorage.setItem('staffsync_dark_mode', String(newMode))
-  }
-
-
-  // 4. Handle Image Upload
-  const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    try {
-      if (!event.target.files || event.target.files.length === 0) return
-      
-      setUploading(true)
-      const file = event.target.files[0]
-      const fileExt = file.name.split('.').pop()
-      const filePath = `${userId}-${Math.random()}.${fileExt}`
-
-      const { error: uploadError } = await supabase.storage
-        .from('avatars')
-        .upload(filePath, file)
-
-      if (uploadError) throw uploadError
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('avatars')
-        .getPublicUrl(filePath)
-
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ avatar_url: publicUrl })
-        .eq('id', userId)
-
-      if (updateError) throw updateError
-
-      setAvatarUrl(publicUrl)
-      setMessage({ type: 'success', text: 'Avatar updated successfully!' })
-      
-    } catch (error) {
-      console.error('Error uploading avatar:', error)
-      setMessage({ type: 'error', text: 'Error uploading avatar.' })
-    } finally {
-      setUploading(false)
-    }
-  }
-
-  // 5. Save Profile Info
-  const handleSaveProfile = async () => {
-    if (!userId) return
-    setSaving(true)
-    setMessage(null)
-
-    const { error } = await supabase
-      .from('profiles')
-      .update({ 
-          full_name: fullName,
-          role: role
-      })
-      .eq('id', userId)
-
-    if (error) {
-        setMessage({ type: 'error', text: 'Failed to update profile.' })
-    } else {
-        setMessage({ type: 'success', text: 'Profile updated successfully!' })
-        // Clear success message after 3 seconds
-        setTimeout(() => setMessage(null), 3000)
-    }
-    setSaving(false)
-  }
-
-  // --- SKELETON LOADER ---
-  if (loading) {
-    return (
-      <div className="p-6 max-w-4xl mx-auto space-y-6 animate-pulse">
-        <div className="h-8 w-48 bg-neutral-200 dark:bg-neutral-800 rounded mb-8" />
-        <div className="bg-white dark:bg-neutral-900 rounded-xl p-6 h-40 border border-neutral-200 dark:border-neutral-800" />
-        <div className="bg-white dark:bg-neutral-900 rounded-xl p-6 h-64 border border-neutral-200 dark:border-neutral-800" />
-      </div>
-    )
-  }
-
-  return (
-    <div className="p-6 md:p-10 max-w-4xl mx-auto w-full">
-      <div className="flex flex-col gap-1 mb-8">
-        <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
-          Account Settings
-        </h1>
-        <p className="text-neutral-500 dark:text-neutral-400">
-          Manage your profile information and system preferences.
-        </p>
-      </div>
-
-      {message && (
-        <div className={cn(
-          "mb-6 p-4 rounded-lg flex items-center gap-3 text-sm font-medium border animate-in fade-in slide-in-from-top-2",
-          message.type === 'error' 
-            ? "bg-red-50 text-red-900 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-900/50" 
-            : "bg-emerald-50 text-emerald-900 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-900/50"
-        )}>
-            {message.type === 'error' ? null : <Check className="w-4 h-4" />}
-            {message.text}
-        </div>
-      )}
-
-      <div className="space-y-6">
-        
-        {/* SECTION 1: Avatar */}
-        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
-            <div className="p-6">
-              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
-                  <Camera className="w-4 h-4 text-indigo-500" />
-                  Profile Picture
-              </h2>
-              <p className="text-sm text-neutral-500 mb-6">This will be displayed on your profile and in chat messages.</p>
-              
-              <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
-                  <div className="relative group shrink-0">
-                      <div className="h-24 w-24 rounded-full overflow-hidden bg-neutral-100 dark:bg-neutral-800 border-4 border-white dark:border-neutral-800 shadow-sm ring-1 ring-neutral-200 dark:ring-neutral-700">
-                          {avatarUrl ? (
-                              <img src={avatarUrl} alt="Avatar" className="h-full w-full object-cover" />
-                          ) : (
-                              <div className="h-full w-full flex items-center justify-center text-neutral-400">
-                                  <User className="w-10 h-10" />
-                              </div>
-                          )}
-                      </div>
-                      <button 
-                          onClick={() => fileInputRef.current?.click()}
-                          disabled={uploading}
-                          className="absolute inset-0 bg-neutral-900/60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-full cursor-pointer backdrop-blur-sm"
-                      >
-                          {uploading ? <Loader2 className="w-6 h-6 text-white animate-spin" /> : <Camera className="w-6 h-6 text-white" />}
-                      </button>
-                  </div>
-                  
-                  <div className="flex-1 text-center sm:text-left">
-                      <div className="flex flex-col gap-2">
-                        <button 
-                          onClick={() => fileInputRef.current?.click()}
-                          className="inline-flex items-center justify-center px-4 py-2 border border-neutral-300 dark:border-neutral-700 shadow-sm text-sm font-medium rounded-md text-neutral-700 dark:text-neutral-200 bg-white dark:bg-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                        >
-                          Change Image
-                        </button>
-                        <p className="text-xs text-neutral-500 dark:text-neutral-500">
-                            JPG, GIF or PNG. 2MB max.
-                        </p>
-                      </div>
-                      <input 
-                          type="file" 
-                          ref={fileInputRef} 
-                          onChange={handleAvatarUpload} 
-                          accept="image/*" 
-                          className="hidden" 
-                      />
-                  </div>
-              </div>
-            </div>
-        </section>
-
-        {/* SECTION 2: Personal Info */}
-        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
-            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
-              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
-                  <User className="w-4 h-4 text-indigo-500" />
-                  Personal Information
-              </h2>
-              <p className="text-sm text-neutral-500">Update your personal details here.</p>
-            </div>
-            
-            <div className="p-6 space-y-6">
-                <div className="grid gap-6 md:grid-cols-2">
-                  {/* Full Name */}
-                  <div className="space-y-2">
-                      <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 text-neutral-700 dark:text-neutral-300">
-                        Full Name
-                      </label>
-                      <input 
-                          type="text" 
-                          value={fullName}
-                          onChange={(e) => setFullName(e.target.value)}
-                          className="flex h-10 w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2 text-sm placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-neutral-900 disabled:cursor-not-allowed disabled:opacity-50 text-neutral-900 dark:text-neutral-100"
-                          placeholder="John Doe"
-                      />
-                  </div>
-
-                  {/* Role */}
-                  <div className="space-y-2">
-                      <label className="text-sm font-medium leading-none text-neutral-700 dark:text-neutral-300 flex items-center gap-2">
-                          Job Title
-                      </label>
-                      <div className="relative">
-                        <Briefcase className="absolute left-3 top-2.5 h-4 w-4 text-neutral-400" />
-                        <input 
-                            type="text" 
-                            value={role}
-                            onChange={(e) => setRole(e.target.value)}
-                            className="flex h-10 w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent pl-9 pr-3 py-2 text-sm placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-neutral-900 text-neutral-900 dark:text-neutral-100"
-                            placeholder="e.g. Senior Product Designer"
-                        />
-                      </div>
-                  </div>
-                </div>
-
-                {/* Email (Read Only) */}
-                <div className="space-y-2">
-                    <label className="text-sm font-medium leading-none text-neutral-700 dark:text-neutral-300">
-                        Email Address
-                    </label>
-                    <div className="relative opacity-60">
-                      <Mail className="absolute left-3 top-2.5 h-4 w-4 text-neutral-400" />
-                      <input 
-                          type="text" 
-                          value={email}
-                          disabled
-                          className="flex h-10 w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-neutral-100 dark:bg-neutral-800 pl-9 pr-3 py-2 text-sm cursor-not-allowed text-neutral-500 dark:text-neutral-400"
-                      />
-                    </div>
-                </div>
-
-                <div className="pt-4 flex justify-end">
-                  <button 
-                      onClick={handleSaveProfile}
-                      disabled={saving}
-                      className="inline-flex items-center justify-center rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-indigo-600 text-white hover:bg-indigo-700 h-10 px-4 py-2"
-                  >
-                      {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
-                      Save Changes
-                  </button>
-                </div>
-            </div>
-        </section>
-        
-        {/* SECTION 3: Display Preferences (NEW SECTION) */}
-        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
-            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
-              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
-                  <Sun className="w-4 h-4 text-indigo-500" />
-                  Display Preferences
-              </h2>
-              <p className="text-sm text-neutral-500">Change your app&apos;s theme.</p>
-            </div>
-
-            <div className="p-6">
-              <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                      <div className="font-medium text-neutral-900 dark:text-neutral-100 flex items-center gap-2">
-                          Dark Mode
-                          {darkMode ? <Moon className="w-4 h-4 text-indigo-400" /> : <Sun className="w-4 h-4 text-amber-500" />}
-                      </div>
-                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                          Switch to the dark theme for a better viewing experience at night.
-                      </p>
-                  </div>
-                  
-                  <button 
-                      onClick={toggleDarkMode}
-                      className={cn(
-                        "peer inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full border-2 border-transparent transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-600 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-neutral-950",
-                        darkMode ? "bg-indigo-600" : "bg-neutral-200 dark:bg-neutral-700"
-                      )}
-                  >
-                      <span className={cn(
-                        "pointer-events-none block h-5 w-5 rounded-full bg-white shadow-lg ring-0 transition-transform flex items-center justify-center",
-                        darkMode ? "translate-x-5" : "translate-x-0"
-                      )}>
-                        {darkMode ? <Moon className="w-3 h-3 text-neutral-800" /> : <Sun className="w-3 h-3 text-amber-500" />}
-                      </span>
-                  </button>
-              </div>
-            </div>
-        </section>
-
-
-        {/* SECTION 4: Notifications (Renumbered) */}
-        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
-            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
-              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
-                  <Bell className="w-4 h-4 text-indigo-500" />
-                  Notification Preferences
-              </h2>
-              <p className="text-sm text-neutral-500">Customize your notification experience.</p>
-            </div>
-
-            <div className="p-6">
-              <div className="flex items-center justify-between">
-                  <div className="space-y-0.5">
-                      <div className="font-medium text-neutral-900 dark:text-neutral-100 flex items-center gap-2">
-                          Notification Sound
-                          {soundEnabled ? <Volume2 className="w-4 h-4 text-emerald-500" /> : <VolumeX className="w-4 h-4 text-neutral-400" />}
-                      </div>
-                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                          Play a sound when you receive a new direct message or an incoming call.
-                      </p>
-                  </div>
-                  
-                  <button 
-                      onClick={toggleSound}
-                      className={cn(
-                        "peer inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full border-2 border-transparent transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-600 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-neutral-950",
-                        soundEnabled ? "bg-indigo-600" : "bg-neutral-200 dark:bg-neutral-700"
-                      )}
-                  >
-                      <span className={cn(
-                        "pointer-events-none block h-5 w-5 rounded-full bg-white shadow-lg ring-0 transition-transform",
-                        soundEnabled ? "translate-x-5" : "translate-x-0"
-                      )} />
-                  </button>
-              </div>
-            </div>
-        </section>
-
-      </div>
-    </div>
-  )
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useNotification } from '@/components/providers/notification-provider'
+import { useTimer } from '@/components/providers/timer-context'
+import { useActivity } from '@/components/providers/activity-provider'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { 
+  User, Camera, Bell, Save, Loader2, 
+  Volume2, VolumeX, Check, Briefcase, Mail, 
+  Sun, Moon, Clock, Globe, Activity, Paperclip // <-- NEW IMPORTS
+} from 'lucide-react'
+import { cn } from '@/lib/utils' 
+import { getBrowserTimeZone, listTimeZones } from '@/lib/time-zones'
+import { type AttachmentKind, ATTACHMENT_KINDS, toAttachmentLimits } from '@/lib/task-attachments'
+
+const TIME_ZONES = listTimeZones()
+
+// Function to handle the dark mode class on the <html> tag
+const applyDarkModeClass = (isDark: boolean) => {
+    if (typeof window !== 'undefined') {
+        document.documentElement.classList.toggle('dark', isDark)
+    }
+}
+
+// Function to get initial dark mode state from local storage
+const getInitialDarkMode = (): boolean => {
+    if (typeof window === 'undefined') return false
+    
+    const savedMode = localStorage.getItem('staffsync_dark_mode')
+    if (savedMode !== null) {
+        return savedMode === 'true'
+    }
+    // Fallback: Check user's system preference
+    return window.matchMedia('(prefers-color-scheme: dark)').matches
+}
+
+// On/off switch used by the toggle rows
+const Switch = ({ checked, onChange, disabled }: { checked: boolean, onChange: () => void, disabled?: boolean }) => (
+  <button
+      onClick={onChange}
+      disabled={disabled}
+      className={cn(
+        "peer inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full border-2 border-transparent transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-600 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-neutral-950 disabled:cursor-not-allowed disabled:opacity-50",
+        checked ? "bg-indigo-600" : "bg-neutral-200 dark:bg-neutral-700"
+      )}
+  >
+      <span className={cn(
+        "pointer-events-none block h-5 w-5 rounded-full bg-white shadow-lg ring-0 transition-transform",
+        checked ? "translate-x-5" : "translate-x-0"
+      )} />
+  </button>
+)
+
+
+export default function SettingsPage() {
+  const supabase = createClient()
+  const { soundEnabled, toggleSound } = useNotification()
+  const { idleTimeoutMinutes, setIdleTimeoutMinutes, askForNotes, setAskForNotes } = useTimer()
+  const { settings: activitySettings, consent, updateConsent } = useActivity()
+  const { workspaceId, can } = useWorkspace()
+  const canManageWorkspace = can('manage_billing')
+  
+  // NEW STATE: Dark Mode
+  const [darkMode, setDarkMode] = useState(getInitialDarkMode)
+  
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+  
+  // Profile State
+  const [userId, setUserId] = useState<string | null>(null)
+  const [fullName, setFullName] = useState('')
+  const [role, setRole] = useState('')
+  const [email, setEmail] = useState('') 
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null)
+  const [uploading, setUploading] = useState(false)
+
+  // Time Zone State ('' = follow the workspace)
+  const [timeZone, setTimeZone] = useState('')
+  const [ownedWorkspace, setOwnedWorkspace] = useState<{
+    id: string, time_zone: string, max_session_hours: number, activity_tracking: boolean, screenshot_tracking: boolean,
+    attachment_max_mb: number, attachment_types: AttachmentKind[]
+  } | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // 1. Initial Profile Fetch
+  useEffect(() => {
+    const getProfile = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) return
+
+        setUserId(user.id)
+        setEmail(user.email || '')
+
+        const [{ data }, { data: ws }] = await Promise.all([
+          supabase
+            .from('profiles')
+            .select('full_name, avatar_url, role, time_zone')
+            .eq('id', user.id)
+            .single(),
+          // Workspace settings are for owners and admins of the active workspace
+          canManageWorkspace && workspaceId
+            ? supabase
+                .from('workspaces')
+                .select('id, time_zone, max_session_hours, activity_tracking, screenshot_tracking, attachment_max_mb, attachment_types')
+                .eq('id', workspaceId)
+                .maybeSingle()
+            : Promise.resolve({ data: null })
+        ])
+        
+        if (data) {
+          setFullName(data.full_name || '')
+          setRole(data.role || '')
+          setAvatarUrl(data.avatar_url)
+          setTimeZone(data.time_zone || '')
+        }
+        setOwnedWorkspace(ws ? {
+          id: ws.id,
+          time_zone: ws.time_zone || 'UTC',
+          max_session_hours: ws.max_session_hours ?? 12,
+          activity_tracking: !!ws.activity_tracking,
+          screenshot_tracking: !!ws.screenshot_tracking,
+          ...toAttachmentLimits(ws)
+        } : null)
+      } catch (err) {
+        console.error('Error loading profile', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    getProfile()
+  }, [supabase, workspaceId, canManageWorkspace])
+
+  // 2. Apply Dark Mode on Mount and State Change
+  useEffect(() => {
+    applyDarkModeClass(darkMode)
+  }, [darkMode])
+  
+  // 3. Toggle Dark Mode Function
+  const toggleDarkMode = () => {
+      const newMode = !darkMode
+      setDarkMode(newMode)
+      localStorage.setItem('staffsync_dark_mode', String(newMode))
+  }
+
+
+  // 4. Handle Image Upload
+  const handleAvatarUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      if (!event.target.files || event.target.files.length === 0) return
+      
+      setUploading(true)
+      const file = event.target.files[0]
+      const fileExt = file.name.split('.').pop()
+      const filePath = `${userId}-${Math.random()}.${fileExt}`
+
+      const { error: uploadError } = await supabase.storage
+        .from('avatars')
+        .upload(filePath, file)
+
+      if (uploadError) throw uploadError
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('avatars')
+        .getPublicUrl(filePath)
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ avatar_url: publicUrl })
+        .eq('id', userId)
+
+      if (updateError) throw updateError
+
+      setAvatarUrl(publicUrl)
+      setMessage({ type: 'success', text: 'Avatar updated successfully!' })
+      
+    } catch (error) {
+      console.error('Error uploading avatar:', error)
+      setMessage({ type: 'error', text: 'Error uploading avatar.' })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  // 5. Save Profile Info
+  const handleSaveProfile = async () => {
+    if (!userId) return
+    setSaving(true)
+    setMessage(null)
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ 
+          full_name: fullName,
+          role: role
+      })
+      .eq('id', userId)
+
+    if (error) {
+        setMessage({ type: 'error', text: 'Failed to update profile.' })
+    } else {
+        setMessage({ type: 'success', text: 'Profile updated successfully!' })
+        // Clear success message after 3 seconds
+        setTimeout(() => setMessage(null), 3000)
+    }
+    setSaving(false)
+  }
+
+  // 6. Save Time Zones (personal and, for owners, workspace)
+  const handleTimeZoneChange = async (zone: string) => {
+    if (!userId) return
+    const previous = timeZone
+    setTimeZone(zone)
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ time_zone: zone || null })
+      .eq('id', userId)
+
+    if (error) {
+        setTimeZone(previous)
+        setMessage({ type: 'error', text: 'Failed to update time zone.' })
+    }
+  }
+
+  // 7. Save Workspace Settings (owners only)
+  const handleWorkspaceChange = async (changes: {
+    time_zone?: string, max_session_hours?: number, activity_tracking?: boolean, screenshot_tracking?: boolean,
+    attachment_max_mb?: number, attachment_types?: AttachmentKind[]
+  }) => {
+    if (!ownedWorkspace) return
+    const previous = ownedWorkspace
+    setOwnedWorkspace({ ...ownedWorkspace, ...changes })
+
+    const { error } = await supabase
+      .from('workspaces')
+      .update(changes)
+      .eq('id', ownedWorkspace.id)
+
+    if (error) {
+        setOwnedWorkspace(previous)
+        setMessage({ type: 'error', text: 'Failed to update workspace settings.' })
+    }
+  }
+
+  // 8. Save Activity Snapshot Consent
+  const handleConsentChange = async (changes: Partial<typeof consent>) => {
+    const saved = await updateConsent({ ...consent, ...changes })
+    if (!saved) setMessage({ type: 'error', text: 'Failed to update your consent.' })
+  }
+
+  // --- SKELETON LOADER ---
+  if (loading) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto space-y-6 animate-pulse">
+        <div className="h-8 w-48 bg-neutral-200 dark:bg-neutral-800 rounded mb-8" />
+        <div className="bg-white dark:bg-neutral-900 rounded-xl p-6 h-40 border border-neutral-200 dark:border-neutral-800" />
+        <div className="bg-white dark:bg-neutral-900 rounded-xl p-6 h-64 border border-neutral-200 dark:border-neutral-800" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 md:p-10 max-w-4xl mx-auto w-full">
+      <div className="flex flex-col gap-1 mb-8">
+        <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+          Account Settings
+        </h1>
+        <p className="text-neutral-500 dark:text-neutral-400">
+          Manage your profile information and system preferences.
+        </p>
+      </div>
+
+      {message && (
+        <div className={cn(
+          "mb-6 p-4 rounded-lg flex items-center gap-3 text-sm font-medium border animate-in fade-in slide-in-from-top-2",
+          message.type === 'error' 
+            ? "bg-red-50 text-red-900 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-900/50" 
+            : "bg-emerald-50 text-emerald-900 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-900/50"
+        )}>
+            {message.type === 'error' ? null : <Check className="w-4 h-4" />}
+            {message.text}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        
+        {/* SECTION 1: Avatar */}
+        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+            <div className="p-6">
+              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                  <Camera className="w-4 h-4 text-indigo-500" />
+                  Profile Picture
+              </h2>
+              <p className="text-sm text-neutral-500 mb-6">This will be displayed on your profile and in chat messages.</p>
+              
+              <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
+                  <div className="relative group shrink-0">
+                      <div className="h-24 w-24 rounded-full overflow-hidden bg-neutral-100 dark:bg-neutral-800 border-4 border-white dark:border-neutral-800 shadow-sm ring-1 ring-neutral-200 dark:ring-neutral-700">
+                          {avatarUrl ? (
+                              <img src={avatarUrl} alt="Avatar" className="h-full w-full object-cover" />
+                          ) : (
+                              <div className="h-full w-full flex items-center justify-center text-neutral-400">
+                                  <User className="w-10 h-10" />
+                              </div>
+                          )}
+                      </div>
+                      <button 
+                          onClick={() => fileInputRef.current?.click()}
+                          disabled={uploading}
+                          className="absolute inset-0 bg-neutral-900/60 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-full cursor-pointer backdrop-blur-sm"
+                      >
+                          {uploading ? <Loader2 className="w-6 h-6 text-white animate-spin" /> : <Camera className="w-6 h-6 text-white" />}
+                      </button>
+                  </div>
+                  
+                  <div className="flex-1 text-center sm:text-left">
+                      <div className="flex flex-col gap-2">
+                        <button 
+                          onClick={() => fileInputRef.current?.click()}
+                          className="inline-flex items-center justify-center px-4 py-2 border border-neutral-300 dark:border-neutral-700 shadow-sm text-sm font-medium rounded-md text-neutral-700 dark:text-neutral-200 bg-white dark:bg-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        >
+                          Change Image
+                        </button>
+                        <p className="text-xs text-neutral-500 dark:text-neutral-500">
+                            JPG, GIF or PNG. 2MB max.
+                        </p>
+                      </div>
+                      <input 
+                          type="file" 
+                          ref={fileInputRef} 
+                          onChange={handleAvatarUpload} 
+                          accept="image/*" 
+                          className="hidden" 
+                      />
+                  </div>
+              </div>
+            </div>
+        </section>
+
+        {/* SECTION 2: Personal Info */}
+        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
+              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                  <User className="w-4 h-4 text-indigo-500" />
+                  Personal Information
+              </h2>
+              <p className="text-sm text-neutral-500">Update your personal details here.</p>
+            </div>
+            
+            <div className="p-6 space-y-6">
+                <div className="grid gap-6 md:grid-cols-2">
+                  {/* Full Name */}
+                  <div className="space-y-2">
+                      <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 text-neutral-700 dark:text-neutral-300">
+                        Full Name
+                      </label>
+                      <input 
+                          type="text" 
+                          value={fullName}
+                          onChange={(e) => setFullName(e.target.value)}
+                          className="flex h-10 w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2 text-sm placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-neutral-900 disabled:cursor-not-allowed disabled:opacity-50 text-neutral-900 dark:text-neutral-100"
+                          placeholder="John Doe"
+                      />
+                  </div>
+
+                  {/* Role */}
+                  <div className="space-y-2">
+                      <label className="text-sm font-medium leading-none text-neutral-700 dark:text-neutral-300 flex items-center gap-2">
+                          Job Title
+                      </label>
+                      <div className="relative">
+                        <Briefcase className="absolute left-3 top-2.5 h-4 w-4 text-neutral-400" />
+                        <input 
+                            type="text" 
+                            value={role}
+                            onChange={(e) => setRole(e.target.value)}
+                            className="flex h-10 w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent pl-9 pr-3 py-2 text-sm placeholder:text-neutral-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 dark:focus:ring-offset-neutral-900 text-neutral-900 dark:text-neutral-100"
+                            placeholder="e.g. Senior Product Designer"
+                        />
+                      </div>
+                  </div>
+                </div>
+
+                {/* Email (Read Only) */}
+                <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none text-neutral-700 dark:text-neutral-300">
+                        Email Address
+                    </label>
+                    <div className="relative opacity-60">
+                      <Mail className="absolute left-3 top-2.5 h-4 w-4 text-neutral-400" />
+                      <input 
+                          type="text" 
+                          value={email}
+                          disabled
+                          className="flex h-10 w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-neutral-100 dark:bg-neutral-800 pl-9 pr-3 py-2 text-sm cursor-not-allowed text-neutral-500 dark:text-neutral-400"
+                      />
+                    </div>
+                </div>
+
+                <div className="pt-4 flex justify-end">
+                  <button 
+                      onClick={handleSaveProfile}
+                      disabled={saving}
+                      className="inline-flex items-center justify-center rounded-md text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-indigo-600 text-white hover:bg-indigo-700 h-10 px-4 py-2"
+                  >
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+                      Save Changes
+                  </button>
+                </div>
+            </div>
+        </section>
+        
+        {/* SECTION 3: Display Preferences (NEW SECTION) */}
+        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
+              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                  <Sun className="w-4 h-4 text-indigo-500" />
+                  Display Preferences
+              </h2>
+              <p className="text-sm text-neutral-500">Change your app&apos;s theme.</p>
+            </div>
+
+            <div className="p-6">
+              <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                      <div className="font-medium text-neutral-900 dark:text-neutral-100 flex items-center gap-2">
+                          Dark Mode
+                          {darkMode ? <Moon className="w-4 h-4 text-indigo-400" /> : <Sun className="w-4 h-4 text-amber-500" />}
+                      </div>
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                          Switch to the dark theme for a better viewing experience at night.
+                      </p>
+                  </div>
+                  
+                  <button 
+                      onClick={toggleDarkMode}
+                      className={cn(
+                        "peer inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full border-2 border-transparent transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-600 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-neutral-950",
+                        darkMode ? "bg-indigo-600" : "bg-neutral-200 dark:bg-neutral-700"
+                      )}
+                  >
+                      <span className={cn(
+                        "pointer-events-none block h-5 w-5 rounded-full bg-white shadow-lg ring-0 transition-transform flex items-center justify-center",
+                        darkMode ? "translate-x-5" : "translate-x-0"
+                      )}>
+                        {darkMode ? <Moon className="w-3 h-3 text-neutral-800" /> : <Sun className="w-3 h-3 text-amber-500" />}
+                      </span>
+                  </button>
+              </div>
+            </div>
+        </section>
+
+
+        {/* SECTION 4: Notifications (Renumbered) */}
+        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
+              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                  <Bell className="w-4 h-4 text-indigo-500" />
+                  Notification Preferences
+              </h2>
+              <p className="text-sm text-neutral-500">Customize your notification experience.</p>
+            </div>
+
+            <div className="p-6">
+              <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                      <div className="font-medium text-neutral-900 dark:text-neutral-100 flex items-center gap-2">
+                          Notification Sound
+                          {soundEnabled ? <Volume2 className="w-4 h-4 text-emerald-500" /> : <VolumeX className="w-4 h-4 text-neutral-400" />}
+                      </div>
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                          Play a sound when you receive a new direct message or an incoming call.
+                      </p>
+                  </div>
+                  
+                  <button 
+                      onClick={toggleSound}
+                      className={cn(
+                        "peer inline-flex h-6 w-11 shrink-0 cursor-pointer items-center rounded-full border-2 border-transparent transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-600 focus-visible:ring-offset-2 focus-visible:ring-offset-white dark:focus-visible:ring-offset-neutral-950",
+                        soundEnabled ? "bg-indigo-600" : "bg-neutral-200 dark:bg-neutral-700"
+                      )}
+                  >
+                      <span className={cn(
+                        "pointer-events-none block h-5 w-5 rounded-full bg-white shadow-lg ring-0 transition-transform",
+                        soundEnabled ? "translate-x-5" : "translate-x-0"
+                      )} />
+                  </button>
+              </div>
+            </div>
+        </section>
+
+        {/* SECTION 5: Time Tracking */}
+        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
+              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-indigo-500" />
+                  Time Tracking
+              </h2>
+              <p className="text-sm text-neutral-500">Control how the timer reacts when you step away.</p>
+            </div>
+
+            <div className="p-6">
+              <div className="flex items-center justify-between gap-6">
+                  <div className="space-y-0.5">
+                      <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                          Idle Detection
+                      </div>
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                          Mark yourself idle after this long without keyboard or mouse input while the timer runs. You can keep or discard the idle time when you return.
+                      </p>
+                  </div>
+
+                  <select
+                      value={idleTimeoutMinutes}
+                      onChange={(e) => setIdleTimeoutMinutes(parseInt(e.target.value, 10))}
+                      className="h-10 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-neutral-900 dark:text-neutral-100 dark:bg-neutral-900 cursor-pointer"
+                  >
+                      <option value={0}>Off</option>
+                      <option value={2}>2 minutes</option>
+                      <option value={5}>5 minutes</option>
+                      <option value={10}>10 minutes</option>
+                      <option value={15}>15 minutes</option>
+                      <option value={30}>30 minutes</option>
+                  </select>
+              </div>
+
+              <div className="flex items-center justify-between gap-6 mt-6">
+                  <div className="space-y-0.5">
+                      <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                          Session Notes
+                      </div>
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                          Ask what you worked on when you stop the timer. You can always add or change notes later in My Timesheets.
+                      </p>
+                  </div>
+                  <Switch checked={askForNotes} onChange={() => setAskForNotes(!askForNotes)} />
+              </div>
+
+              {ownedWorkspace && (
+                <div className="flex items-center justify-between gap-6 mt-6">
+                    <div className="space-y-0.5">
+                        <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                            Forgotten Timers
+                        </div>
+                        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                            Stop any team member&apos;s timer that runs longer than this. It ends at their last activity and is flagged for review.
+                        </p>
+                    </div>
+
+                    <select
+                        value={ownedWorkspace.max_session_hours}
+                        onChange={(e) => handleWorkspaceChange({ max_session_hours: parseFloat(e.target.value) })}
+                        className="h-10 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-neutral-900 dark:text-neutral-100 dark:bg-neutral-900 cursor-pointer"
+                    >
+                        {[4, 6, 8, 10, 12, 16, 24].map(h => (
+                          <option key={h} value={h}>{h} hours</option>
+                        ))}
+                    </select>
+                </div>
+              )}
+            </div>
+        </section>
+
+        {/* SECTION 6: Time Zone */}
+        <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+            <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
+              <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                  <Globe className="w-4 h-4 text-indigo-500" />
+                  Time Zone
+              </h2>
+              <p className="text-sm text-neutral-500">Decides which day and week your time is reported in.</p>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <div className="flex items-center justify-between gap-6">
+                  <div className="space-y-0.5">
+                      <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                          Your Time Zone
+                      </div>
+                      <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                          Used for your reports, timesheets and exports. Your browser is currently in {getBrowserTimeZone()}.
+                      </p>
+                  </div>
+
+                  <select
+                      value={timeZone}
+                      onChange={(e) => handleTimeZoneChange(e.target.value)}
+                      className="h-10 max-w-56 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-neutral-900 dark:text-neutral-100 dark:bg-neutral-900 cursor-pointer"
+                  >
+                      <option value="">Workspace default</option>
+                      {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                  </select>
+              </div>
+
+              {ownedWorkspace && (
+                <div className="flex items-center justify-between gap-6">
+                    <div className="space-y-0.5">
+                        <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                            Workspace Time Zone
+                        </div>
+                        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                            Default for team reports, invoices and members who haven&apos;t picked their own.
+                        </p>
+                    </div>
+
+                    <select
+                        value={ownedWorkspace.time_zone}
+                        onChange={(e) => handleWorkspaceChange({ time_zone: e.target.value })}
+                        className="h-10 max-w-56 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-neutral-900 dark:text-neutral-100 dark:bg-neutral-900 cursor-pointer"
+                    >
+                        {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                    </select>
+                </div>
+              )}
+            </div>
+        </section>
+
+        {/* SECTION 7: Activity Snapshots (owners choose, members consent) */}
+        {(ownedWorkspace || activitySettings?.activity_tracking) && (
+          <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+              <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
+                <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                    <Activity className="w-4 h-4 text-indigo-500" />
+                    Activity Snapshots
+                </h2>
+                <p className="text-sm text-neutral-500">
+                    Proof-of-work samples taken every 10 minutes while a timer runs. Nothing is recorded without each member&apos;s consent.
+                </p>
+              </div>
+
+              <div className="p-6 space-y-6">
+                {ownedWorkspace && (
+                  <>
+                    <div className="flex items-center justify-between gap-6">
+                        <div className="space-y-0.5">
+                            <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                                Ask for Activity Snapshots
+                            </div>
+                            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                                Record each member&apos;s share of active minutes and the page they had open. Shown per session in Team Reports.
+                            </p>
+                        </div>
+                        <Switch
+                            checked={ownedWorkspace.activity_tracking}
+                            onChange={() => handleWorkspaceChange(ownedWorkspace.activity_tracking
+                              ? { activity_tracking: false, screenshot_tracking: false }
+                              : { activity_tracking: true })}
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between gap-6">
+                        <div className="space-y-0.5">
+                            <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                                Ask for Screen Captures
+                            </div>
+                            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                                Members who agree can share their screen when they start a timer; a capture is saved with each snapshot.
+                            </p>
+                        </div>
+                        <Switch
+                            checked={ownedWorkspace.screenshot_tracking}
+                            disabled={!ownedWorkspace.activity_tracking}
+                            onChange={() => handleWorkspaceChange({ screenshot_tracking: !ownedWorkspace.screenshot_tracking })}
+                        />
+                    </div>
+                  </>
+                )}
+
+                {activitySettings?.activity_tracking && (
+                  <>
+                    <div className="flex items-center justify-between gap-6">
+                        <div className="space-y-0.5">
+                            <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                                Share My Activity
+                            </div>
+                            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                                Let your workspace owner see how active you were and which page you had open during tracked time. Input is counted, never recorded.
+                            </p>
+                        </div>
+                        <Switch
+                            checked={consent.activity_consent}
+                            onChange={() => handleConsentChange(consent.activity_consent
+                              ? { activity_consent: false, screenshot_consent: false }
+                              : { activity_consent: true })}
+                        />
+                    </div>
+
+                    {activitySettings.screenshot_tracking && (
+                      <div className="flex items-center justify-between gap-6">
+                          <div className="space-y-0.5">
+                              <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                                  Share Screen Captures
+                              </div>
+                              <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                                  Save a capture of the screen you share with each snapshot. You choose what to share, and can stop at any time.
+                              </p>
+                          </div>
+                          <Switch
+                              checked={consent.screenshot_consent}
+                              disabled={!consent.activity_consent}
+                              onChange={() => handleConsentChange({ screenshot_consent: !consent.screenshot_consent })}
+                          />
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+          </section>
+        )}
+
+        {/* SECTION 8: Task Attachments (workspace limits) */}
+        {ownedWorkspace && (
+          <section className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl overflow-hidden shadow-sm">
+              <div className="p-6 border-b border-neutral-200 dark:border-neutral-800">
+                <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 mb-1 flex items-center gap-2">
+                    <Paperclip className="w-4 h-4 text-indigo-500" />
+                    Task Attachments
+                </h2>
+                <p className="text-sm text-neutral-500">
+                    Files members can attach when they submit work.
+                </p>
+              </div>
+
+              <div className="p-6 space-y-6">
+                <div className="flex items-center justify-between gap-6">
+                    <div className="space-y-0.5">
+                        <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                            Maximum File Size
+                        </div>
+                        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                            Larger files are refused before they upload.
+                        </p>
+                    </div>
+
+                    <select
+                        value={ownedWorkspace.attachment_max_mb}
+                        onChange={(e) => handleWorkspaceChange({ attachment_max_mb: parseInt(e.target.value, 10) })}
+                        className="h-10 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 text-neutral-900 dark:text-neutral-100 dark:bg-neutral-900 cursor-pointer"
+                    >
+                        {[5, 10, 25, 50, 100].map(mb => (
+                          <option key={mb} value={mb}>{mb} MB</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="space-y-3">
+                    <div className="space-y-0.5">
+                        <div className="font-medium text-neutral-900 dark:text-neutral-100">
+                            Allowed File Types
+                        </div>
+                        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                            Images and PDFs can be previewed by reviewers; other files are downloaded.
+                        </p>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(ATTACHMENT_KINDS) as AttachmentKind[]).map(kind => {
+                          const enabled = ownedWorkspace.attachment_types.includes(kind)
+                          return (
+                            <button
+                                key={kind}
+                                onClick={() => handleWorkspaceChange({
+                                  attachment_types: enabled
+                                    ? ownedWorkspace.attachment_types.filter(k => k !== kind)
+                                    : [...ownedWorkspace.attachment_types, kind]
+                                })}
+                                title={ATTACHMENT_KINDS[kind].extensions.map(ext => `.${ext}`).join(' ')}
+                                className={cn(
+                                  "flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-sm font-medium transition-colors",
+                                  enabled
+                                    ? "bg-indigo-50 dark:bg-indigo-900/20 border-indigo-200 dark:border-indigo-800 text-indigo-700 dark:text-indigo-300"
+                                    : "border-neutral-200 dark:border-neutral-700 text-neutral-500 dark:text-neutral-400 hover:border-neutral-300"
+                                )}
+                            >
+                                {enabled && <Check className="w-3.5 h-3.5" />}
+                                {ATTACHMENT_KINDS[kind].label}
+                            </button>
+                          )
+                        })}
+                    </div>
+                </div>
+              </div>
+          </section>
+        )}
+
+      </div>
+    </div>
+  )
 }
\ No newline at end of file
@@ -1,357 +1,486 @@
-'use client'
-
-import { useState, useEffect, useMemo } from 'react'
-import { createClient } from '@/lib/supabase/client'
-import { 
-  Filter, User, Calendar, Download, Clock, 
-  BarChart3, RefreshCcw, Search, type LucideIcon 
-} from 'lucide-react'
-import { cn } from '@/lib/utils'
-
-// --- Interfaces ---
-
-interface Profile {
-  full_name: string
-  avatar_url: string | null
-}
-
-interface TimeLog {
-  id: string
-  start_time: string
-  end_time: string
-  duration_seconds: number
-  user_id: string
-  profiles: Profile | null
-}
-
-interface Member {
-  user_id: string
-  profiles: Profile | null
-}
-
-// --- Components ---
-
-const ReportsSkeleton = () => (
-  <div className="space-y-6 animate-pulse">
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-      {[1, 2, 3].map(i => (
-        <div key={i} className="h-28 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
-      ))}
-    </div>
-    <div className="h-96 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
-  </div>
-)
-
-// FIX 1: Use 'LucideIcon' type instead of 'any'
-const StatCard = ({ label, value, subtext, icon: Icon, color }: { label: string, value: string, subtext?: string, icon: LucideIcon, color: string }) => (
-  <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 p-6 rounded-xl shadow-sm flex items-start justify-between">
-    <div>
-      <p className="text-sm font-medium text-neutral-500 dark:text-neutral-400 mb-1">{label}</p>
-      <h3 className="text-2xl font-bold text-neutral-900 dark:text-neutral-50">{value}</h3>
-      {subtext && <p className="text-xs text-neutral-400 mt-1 truncate max-w-[150px]">{subtext}</p>}
-    </div>
-    <div className={cn("p-3 rounded-lg bg-opacity-10", color)}>
-      <Icon className={cn("w-5 h-5", color.replace('bg-', 'text-'))} />
-    </div>
-  </div>
-)
-
-// --- Helper: Format Duration ---
-const formatDuration = (seconds: number) => {
-    const h = Math.floor(seconds / 3600)
-    const m = Math.floor((seconds % 3600) / 60)
-    
-    if (h > 0) return `${h}h ${m}m`
-    return `${m}m`
-}
-
-// --- Main Page ---
-
-export default function TeamReportsPage() {
-  const [logs, setLogs] = useState<TimeLog[]>([])
-  const [members, setMembers] = useState<Member[]>([])
-  const [loading, setLoading] = useState(true)
-  
-  // Filters
-  const [dateFrom, setDateFrom] = useState('')
-  const [dateTo, setDateTo] = useState('')
-  const [selectedEmployee, setSelectedEmployee] = useState('all')
-
-  const supabase = createClient()
-
-  // 1. Fetch Context (Members)
-  useEffect(() => {
-    const fetchMembers = async () => {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) return
-
-      const { data: ws } = await supabase
-        .from('workspaces')
-        .select('id')
-        .eq('owner_id', user.id)
-        .maybeSingle()
-      
-      if (ws) {
-        const { data } = await supabase
-          .from('workspace_members')
-          .select('user_id, profiles(full_name, avatar_url)')
-          .eq('workspace_id', ws.id)
-        
-        if (data) setMembers(data as unknown as Member[])
-      }
-    }
-    fetchMembers()
-  }, [supabase])
-
-  // FIX 2: Move logic INSIDE useEffect to prevent "Cascading Render" error
-  useEffect(() => {
-    let isMounted = true
-
-    const loadData = async () => {
-        setLoading(true)
-        const { data: { user } } = await supabase.auth.getUser()
-        if (!user) return
-
-        const { data: ws } = await supabase.from('workspaces').select('id').eq('owner_id', user.id).maybeSingle()
-        
-        if (!ws) { 
-            if (isMounted) setLoading(false)
-            return 
-        }
-
-        let query = supabase
-        .from('time_logs')
-        .select(`*, profiles:user_id ( full_name, avatar_url )`)
-        .eq('workspace_id', ws.id)
-        .order('start_time', { ascending: false })
-
-        if (selectedEmployee !== 'all') {
-            query = query.eq('user_id', selectedEmployee)
-        }
-        if (dateFrom) {
-            query = query.gte('start_time', new Date(dateFrom).toISOString())
-        }
-        if (dateTo) {
-            const endDate = new Date(dateTo)
-            endDate.setDate(endDate.getDate() + 1)
-            query = query.lt('start_time', endDate.toISOString())
-        }
-
-        const { data, error } = await query
-        
-        if (isMounted) {
-            if (error) console.error(error)
-            if (data) setLogs(data as unknown as TimeLog[])
-            setLoading(false)
-        }
-    }
-
-    loadData()
-
-    return () => { isMounted = false }
-  }, [supabase, dateFrom, dateTo, selectedEmployee])
-
-  // 3. Computed Stats
-  const stats = useMemo(() => {
-    const totalSeconds = logs.reduce((acc, log) => acc + log.duration_seconds, 0)
-    const totalHours = (totalSeconds / 3600).toFixed(1)
-    
-    // Find top performer
-    const userDurations: Record<string, number> = {}
-    let topUser = { name: 'N/A', hours: 0 }
-    
-    logs.forEach(log => {
-        const name = log.profiles?.full_name || 'Unknown'
-        userDurations[name] = (userDurations[name] || 0) + log.duration_seconds
-    })
-
-    Object.entries(userDurations).forEach(([name, seconds]) => {
-        const hours = seconds / 3600
-        if (hours > topUser.hours) {
-            topUser = { name, hours }
-        }
-    })
-
-    return {
-        totalHours,
-        sessions: logs.length,
-        topPerformer: topUser.hours > 0 ? topUser.name : 'No Data',
-        topPerformerHours: topUser.hours > 0 ? `${topUser.hours.toFixed(1)} hrs` : ''
-    }
-  }, [logs])
-
-  // --- Render ---
-
-  if (loading && logs.length === 0) return <div className="p-8 max-w-7xl mx-auto"><ReportsSkeleton /></div>
-
-  return (
-    <div className="p-6 md:p-10 max-w-7xl mx-auto w-full space-y-8">
-      
-      {/* Page Header */}
-      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-        <div>
-          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">Team Reports</h1>
-          <p className="text-neutral-500 dark:text-neutral-400">Monitor employee hours and performance analytics.</p>
-        </div>
-        <button className="flex items-center gap-2 bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-700 text-neutral-700 dark:text-neutral-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm">
-           <Download className="w-4 h-4" /> Export CSV
-        </button>
-      </div>
-
-      {/* Summary Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <StatCard 
-            label="Total Hours" 
-            value={stats.totalHours} 
-            icon={Clock} 
-            color="bg-indigo-500/10 text-indigo-600 dark:text-indigo-400"
-            subtext="In selected period"
-        />
-        <StatCard 
-            label="Top Performer" 
-            value={stats.topPerformer} 
-            subtext={stats.topPerformerHours}
-            icon={BarChart3} 
-            color="bg-emerald-500/10 text-emerald-600 dark:text-emerald-400"
-        />
-        <StatCard 
-            label="Total Sessions" 
-            value={stats.sessions.toString()} 
-            icon={Calendar} 
-            color="bg-amber-500/10 text-amber-600 dark:text-amber-400"
-            subtext="Work blocks logged"
-        />
-      </div>
-
-      {/* Filters Toolbar */}
-      <div className="bg-white dark:bg-neutral-900 p-4 rounded-xl border border-neutral-200 dark:border-neutral-800 flex flex-col md:flex-row gap-4 items-end md:items-center">
-        
-        {/* Date Range */}
-        <div className="flex items-center gap-2 flex-1 w-full md:w-auto">
-            <div className="relative flex-1">
-                <span className="absolute left-3 top-2.5 text-neutral-400"><Calendar className="w-4 h-4" /></span>
-                <input 
-                    type="date" 
-                    className="w-full pl-9 pr-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
-                    value={dateFrom}
-                    onChange={(e) => setDateFrom(e.target.value)}
-                />
-            </div>
-            <span className="text-neutral-400">-</span>
-            <div className="relative flex-1">
-                <span className="absolute left-3 top-2.5 text-neutral-400"><Calendar className="w-4 h-4" /></span>
-                <input 
-                    type="date" 
-                    className="w-full pl-9 pr-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
-                    value={dateTo}
-                    onChange={(e) => setDateTo(e.target.value)}
-                />
-            </div>
-        </div>
-
-        {/* User Select */}
-        <div className="relative w-full md:w-64">
-           <User className="absolute left-3 top-2.5 text-neutral-400 w-4 h-4" />
-           <select 
-              className="w-full pl-9 pr-8 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 appearance-none text-neutral-900 dark:text-neutral-100 cursor-pointer"
-              value={selectedEmployee}
-              onChange={(e) => setSelectedEmployee(e.target.value)}
-           >
-              <option value="all">All Employees</option>
-              {members.map(m => (
-                <option key={m.user_id} value={m.user_id}>
-                  {m.profiles?.full_name || 'Unknown'}
-                </option>
-              ))}
-           </select>
-           <Search className="absolute right-3 top-2.5 text-neutral-400 w-4 h-4 pointer-events-none opacity-50" />
-        </div>
-
-        {/* Reset */}
-        <button 
-           onClick={() => { setDateFrom(''); setDateTo(''); setSelectedEmployee('all'); }}
-           className="p-2 text-neutral-500 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
-           title="Reset Filters"
-        >
-           <RefreshCcw className="w-4 h-4" />
-        </button>
-      </div>
-
-      {/* Data Table */}
-      <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm overflow-hidden min-h-[400px]">
-         {loading ? (
-             <div className="p-12 text-center text-neutral-500">Updating records...</div>
-         ) : logs.length === 0 ? (
-             <div className="flex flex-col items-center justify-center py-20 text-center">
-                <div className="w-16 h-16 bg-neutral-100 dark:bg-neutral-800 rounded-full flex items-center justify-center mb-4">
-                   <Filter className="w-8 h-8 text-neutral-400" />
-                </div>
-                <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">No logs found</h3>
-                <p className="text-neutral-500 max-w-sm mt-1">
-                   Try adjusting your date range or selecting a different employee to see more results.
-                </p>
-             </div>
-         ) : (
-            <div className="overflow-x-auto">
-               <table className="w-full text-left border-collapse">
-                  <thead>
-                     <tr className="bg-neutral-50/50 dark:bg-neutral-800/50 border-b border-neutral-200 dark:border-neutral-800">
-                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Employee</th>
-                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Date</th>
-                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Session</th>
-                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider text-right">Duration</th>
-                     </tr>
-                  </thead>
-                  <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
-                     {logs.map((log) => (
-                        <tr key={log.id} className="group hover:bg-neutral-50 dark:hover:bg-neutral-800/40 transition-colors">
-                           <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex items-center gap-3">
-                                 <div className="h-9 w-9 shrink-0">
-                                    {log.profiles?.avatar_url ? (
-                                       <img 
-                                          src={log.profiles.avatar_url} 
-                                          alt={log.profiles.full_name} 
-                                          className="h-full w-full rounded-full object-cover border border-neutral-200 dark:border-neutral-700"
-                                       />
-                                    ) : (
-                                       <div className="h-full w-full bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center text-indigo-600 dark:text-indigo-400 font-bold text-xs border border-indigo-200 dark:border-indigo-800/50">
-                                          {log.profiles?.full_name?.[0] || '?'}
-                                       </div>
-                                    )}
-                                 </div>
-                                 <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
-                                    {log.profiles?.full_name || 'Unknown User'}
-                                 </span>
-                              </div>
-                           </td>
-                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-600 dark:text-neutral-400">
-                              {new Date(log.start_time).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
-                           </td>
-                           <td className="px-6 py-4 whitespace-nowrap">
-                              <div className="flex items-center gap-2 text-sm text-neutral-500 font-mono bg-neutral-100 dark:bg-neutral-800 px-2 py-1 rounded w-fit">
-                                 {new Date(log.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                                 <span className="text-neutral-300">-</span>
-                                 {new Date(log.end_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                              </div>
-                           </td>
-                           <td className="px-6 py-4 whitespace-nowrap text-right">
-                              <span className={cn(
-                                 "inline-flex items-center px-2.5 py-1 rounded-full text-xs font-bold",
-                                 log.duration_seconds > 14400 ? "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400" : // >4h
-                                 log.duration_seconds > 7200 ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400" : // >2h
-                                 "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400"
-                              )}>
-                                 {formatDuration(log.duration_seconds)}
-                              </span>
-                           </td>
-                        </tr>
-                     ))}
-                  </tbody>
-               </table>
-            </div>
-         )}
-      </div>
-    </div>
-  )
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { 
+  Filter, User, Calendar, Clock, 
+  BarChart3, RefreshCcw, Search, Globe, Activity, type LucideIcon 
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import TimeRequestQueue from '@/components/timesheets/time-request-queue'
+import TimesheetReviewQueue from '@/components/timesheets/timesheet-review-queue'
+import ExportMenu from '@/components/timesheets/export-menu'
+import InvoicePanel from '@/components/invoices/invoice-panel'
+import DailyHoursChart from '@/components/reports/daily-hours-chart'
+import HoursHeatmap from '@/components/reports/hours-heatmap'
+import WeekComparison from '@/components/reports/week-comparison'
+import ActivitySnapshots from '@/components/reports/activity-snapshots'
+import { type TeamReportStats, EMPTY_STATS } from '@/lib/team-report-stats'
+import { addDaysToKey, fetchTimeZones, getBrowserTimeZone, zonedMidnight } from '@/lib/time-zones'
+
+// --- Interfaces ---
+
+interface Profile {
+  full_name: string
+  avatar_url: string | null
+}
+
+interface TimeLog {
+  id: string
+  start_time: string
+  end_time: string
+  duration_seconds: number
+  billable: boolean
+  auto_stopped: boolean
+  notes: string | null
+  user_id: string
+  workspace_id: string
+  profiles: Profile | null
+}
+
+interface Member {
+  user_id: string
+  profiles: Profile | null
+}
+
+// --- Components ---
+
+const ReportsSkeleton = () => (
+  <div className="space-y-6 animate-pulse">
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {[1, 2, 3].map(i => (
+        <div key={i} className="h-28 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
+      ))}
+    </div>
+    <div className="h-96 bg-white dark:bg-neutral-900 rounded-xl border border-neutral-200 dark:border-neutral-800" />
+  </div>
+)
+
+// FIX 1: Use 'LucideIcon' type instead of 'any'
+const StatCard = ({ label, value, subtext, icon: Icon, color }: { label: string, value: string, subtext?: string, icon: LucideIcon, color: string }) => (
+  <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 p-6 rounded-xl shadow-sm flex items-start justify-between">
+    <div>
+      <p className="text-sm font-medium text-neutral-500 dark:text-neutral-400 mb-1">{label}</p>
+      <h3 className="text-2xl font-bold text-neutral-900 dark:text-neutral-50">{value}</h3>
+      {subtext && <p className="text-xs text-neutral-400 mt-1 truncate max-w-[150px]">{subtext}</p>}
+    </div>
+    <div className={cn("p-3 rounded-lg bg-opacity-10", color)}>
+      <Icon className={cn("w-5 h-5", color.replace('bg-', 'text-'))} />
+    </div>
+  </div>
+)
+
+// --- Helper: Format Duration ---
+const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+    
+    if (h > 0) return `${h}h ${m}m`
+    return `${m}m`
+}
+
+const PAGE_SIZE = 50
+
+// --- Main Page ---
+
+export default function TeamReportsPage() {
+  const [logs, setLogs] = useState<TimeLog[]>([])
+  const [logCount, setLogCount] = useState(0)
+  const [page, setPage] = useState(1)
+  const [reportStats, setReportStats] = useState<TeamReportStats>(EMPTY_STATS)
+  const [members, setMembers] = useState<Member[]>([])
+  const [workspaceZone, setWorkspaceZone] = useState('UTC')
+  const [profileZone, setProfileZone] = useState<string | null>(null)
+  const [reportZone, setReportZone] = useState<string | null>(null)
+  const [activityTracking, setActivityTracking] = useState(false)
+  const [activityLog, setActivityLog] = useState<TimeLog | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+  
+  // Filters
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [selectedEmployee, setSelectedEmployee] = useState('all')
+
+  const { workspaceId: activeWorkspaceId, can, isLoading: workspaceLoading } = useWorkspace()
+  const workspaceId = can('view_team') ? activeWorkspaceId : null
+  const supabase = createClient()
+
+  // 1. Fetch Context (Members)
+  useEffect(() => {
+    if (!workspaceId) return
+
+    const fetchMembers = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const { data: ws } = await supabase
+        .from('workspaces')
+        .select('id, time_zone, activity_tracking')
+        .eq('id', workspaceId)
+        .maybeSingle()
+      
+      if (ws) {
+        setWorkspaceZone(ws.time_zone || 'UTC')
+        setActivityTracking(!!ws.activity_tracking)
+        const { profileZone: mine } = await fetchTimeZones(supabase, user.id, ws.id)
+        setProfileZone(mine)
+        const { data } = await supabase
+          .from('workspace_members')
+          .select('user_id, profiles(full_name, avatar_url)')
+          .eq('workspace_id', ws.id)
+        
+        if (data) setMembers(data as unknown as Member[])
+        setSelectedEmployee('all')
+        setPage(1)
+      }
+    }
+    fetchMembers()
+  }, [supabase, workspaceId])
+
+  // Reports default to the workspace zone; the owner can switch to their own or the browser's
+  const timeZone = reportZone || workspaceZone
+  const zoneOptions = useMemo(
+    () => [...new Set([workspaceZone, profileZone, getBrowserTimeZone()].filter((z): z is string => !!z))],
+    [workspaceZone, profileZone]
+  )
+
+  // Filter range as ISO bounds, midnight in the report zone (dateTo is inclusive)
+  const dateRange = useMemo(() => ({
+    from: dateFrom ? zonedMidnight(dateFrom, timeZone).toISOString() : undefined,
+    to: dateTo ? zonedMidnight(addDaysToKey(dateTo, 1), timeZone).toISOString() : undefined
+  }), [dateFrom, dateTo, timeZone])
+
+  // FIX 2: Move logic INSIDE useEffect to prevent "Cascading Render" error
+  useEffect(() => {
+    if (workspaceLoading) return
+    let isMounted = true
+
+    const loadData = async () => {
+        setLoading(true)
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) return
+
+        if (!workspaceId) { 
+            if (isMounted) setLoading(false)
+            return 
+        }
+
+        const from = dateRange.from
+        const to = dateRange.to
+
+        // Table: one page of raw logs at a time
+        let query = supabase
+        .from('time_logs')
+        .select(`*, profiles:user_id ( full_name, avatar_url )`, { count: 'exact' })
+        .eq('workspace_id', workspaceId)
+        .order('start_time', { ascending: false })
+        .range(0, page * PAGE_SIZE - 1)
+
+        if (selectedEmployee !== 'all') {
+            query = query.eq('user_id', selectedEmployee)
+        }
+        if (from) {
+            query = query.gte('start_time', from)
+        }
+        if (to) {
+            query = query.lt('start_time', to)
+        }
+
+        // Stats & charts: aggregated in the database
+        const [{ data, error, count }, { data: statsData, error: statsError }] = await Promise.all([
+            query,
+            supabase.rpc('team_report_stats', {
+                target_workspace: workspaceId,
+                period_from: from || null,
+                period_to: to || null,
+                member: selectedEmployee === 'all' ? null : selectedEmployee,
+                tz: timeZone
+            })
+        ])
+        
+        if (isMounted) {
+            if (error) console.error(error)
+            if (statsError) console.error('Error loading team stats:', statsError)
+            if (data) setLogs(data as unknown as TimeLog[])
+            setLogCount(count || 0)
+            setReportStats((statsData as TeamReportStats | null) || EMPTY_STATS)
+            setLoading(false)
+        }
+    }
+
+    loadData()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, workspaceLoading, dateRange, timeZone, selectedEmployee, page, refreshKey])
+
+  // 3. Computed Stats
+  const stats = useMemo(() => {
+    const top = reportStats.members[0]
+
+    return {
+        totalHours: (reportStats.total_seconds / 3600).toFixed(1),
+        sessions: reportStats.sessions,
+        topPerformer: top && top.seconds > 0 ? top.full_name : 'No Data',
+        topPerformerHours: top && top.seconds > 0 ? `${(top.seconds / 3600).toFixed(1)} hrs` : ''
+    }
+  }, [reportStats])
+
+  const resetPage = () => setPage(1)
+
+  // --- Render ---
+
+  if (loading && logs.length === 0) return <div className="p-8 max-w-7xl mx-auto"><ReportsSkeleton /></div>
+
+  return (
+    <div className="p-6 md:p-10 max-w-7xl mx-auto w-full space-y-8">
+      
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">Team Reports</h1>
+          <p className="text-neutral-500 dark:text-neutral-400">Monitor employee hours and performance analytics.</p>
+        </div>
+        {workspaceId && (
+          <ExportMenu workspaceId={workspaceId} scope="team" from={dateRange.from} to={dateRange.to} employee={selectedEmployee} timeZone={timeZone} />
+        )}
+      </div>
+
+      {/* Summary Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard 
+            label="Total Hours" 
+            value={stats.totalHours} 
+            icon={Clock} 
+            color="bg-indigo-500/10 text-indigo-600 dark:text-indigo-400"
+            subtext="In selected period"
+        />
+        <StatCard 
+            label="Top Performer" 
+            value={stats.topPerformer} 
+            subtext={stats.topPerformerHours}
+            icon={BarChart3} 
+            color="bg-emerald-500/10 text-emerald-600 dark:text-emerald-400"
+        />
+        <StatCard 
+            label="Total Sessions" 
+            value={stats.sessions.toString()} 
+            icon={Calendar} 
+            color="bg-amber-500/10 text-amber-600 dark:text-amber-400"
+            subtext="Work blocks logged"
+        />
+      </div>
+
+      {/* Timesheet & Time Request Approvals */}
+      {workspaceId && can('review_time') && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+          <TimesheetReviewQueue workspaceId={workspaceId} />
+          <TimeRequestQueue workspaceId={workspaceId} timeZone={timeZone} onReviewed={() => setRefreshKey(k => k + 1)} />
+        </div>
+      )}
+
+      {/* Billing */}
+      {workspaceId && can('manage_billing') && (
+        <InvoicePanel
+          workspaceId={workspaceId}
+          timeZone={workspaceZone}
+          members={members.map(m => ({ user_id: m.user_id, full_name: m.profiles?.full_name || 'Unknown User' }))}
+        />
+      )}
+
+      {/* Filters Toolbar */}
+      <div className="bg-white dark:bg-neutral-900 p-4 rounded-xl border border-neutral-200 dark:border-neutral-800 flex flex-col md:flex-row gap-4 items-end md:items-center">
+        
+        {/* Date Range */}
+        <div className="flex items-center gap-2 flex-1 w-full md:w-auto">
+            <div className="relative flex-1">
+                <span className="absolute left-3 top-2.5 text-neutral-400"><Calendar className="w-4 h-4" /></span>
+                <input 
+                    type="date" 
+                    className="w-full pl-9 pr-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
+                    value={dateFrom}
+                    onChange={(e) => { setDateFrom(e.target.value); resetPage() }}
+                />
+            </div>
+            <span className="text-neutral-400">-</span>
+            <div className="relative flex-1">
+                <span className="absolute left-3 top-2.5 text-neutral-400"><Calendar className="w-4 h-4" /></span>
+                <input 
+                    type="date" 
+                    className="w-full pl-9 pr-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
+                    value={dateTo}
+                    onChange={(e) => { setDateTo(e.target.value); resetPage() }}
+                />
+            </div>
+        </div>
+
+        {/* User Select */}
+        <div className="relative w-full md:w-64">
+           <User className="absolute left-3 top-2.5 text-neutral-400 w-4 h-4" />
+           <select 
+              className="w-full pl-9 pr-8 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 appearance-none text-neutral-900 dark:text-neutral-100 cursor-pointer"
+              value={selectedEmployee}
+              onChange={(e) => { setSelectedEmployee(e.target.value); resetPage() }}
+           >
+              <option value="all">All Employees</option>
+              {members.map(m => (
+                <option key={m.user_id} value={m.user_id}>
+                  {m.profiles?.full_name || 'Unknown'}
+                </option>
+              ))}
+           </select>
+           <Search className="absolute right-3 top-2.5 text-neutral-400 w-4 h-4 pointer-events-none opacity-50" />
+        </div>
+
+        {/* Time Zone Select */}
+        <div className="relative w-full md:w-56">
+           <Globe className="absolute left-3 top-2.5 text-neutral-400 w-4 h-4" />
+           <select 
+              className="w-full pl-9 pr-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 appearance-none text-neutral-900 dark:text-neutral-100 cursor-pointer"
+              value={timeZone}
+              onChange={(e) => { setReportZone(e.target.value); resetPage() }}
+              title="Time zone used for days, weeks and exports"
+           >
+              {zoneOptions.map(zone => (
+                <option key={zone} value={zone}>
+                  {zone}{zone === workspaceZone ? ' (workspace)' : zone === profileZone ? ' (mine)' : ''}
+                </option>
+              ))}
+           </select>
+        </div>
+
+        {/* Reset */}
+        <button 
+           onClick={() => { setDateFrom(''); setDateTo(''); setSelectedEmployee('all'); setReportZone(null); resetPage() }}
+           className="p-2 text-neutral-500 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
+           title="Reset Filters"
+        >
+           <RefreshCcw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <DailyHoursChart daily={reportStats.daily} members={reportStats.members} />
+        </div>
+        <WeekComparison weekly={reportStats.weekly} />
+      </div>
+      <HoursHeatmap heatmap={reportStats.heatmap} />
+
+      {/* Data Table */}
+      <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm overflow-hidden min-h-[400px]">
+         {loading && page === 1 ? (
+             <div className="p-12 text-center text-neutral-500">Updating records...</div>
+         ) : logs.length === 0 ? (
+             <div className="flex flex-col items-center justify-center py-20 text-center">
+                <div className="w-16 h-16 bg-neutral-100 dark:bg-neutral-800 rounded-full flex items-center justify-center mb-4">
+                   <Filter className="w-8 h-8 text-neutral-400" />
+                </div>
+                <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-100">No logs found</h3>
+                <p className="text-neutral-500 max-w-sm mt-1">
+                   Try adjusting your date range or selecting a different employee to see more results.
+                </p>
+             </div>
+         ) : (
+            <div className="overflow-x-auto">
+               <table className="w-full text-left border-collapse">
+                  <thead>
+                     <tr className="bg-neutral-50/50 dark:bg-neutral-800/50 border-b border-neutral-200 dark:border-neutral-800">
+                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Employee</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Date</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Session</th>
+                        <th className="px-6 py-4 text-xs font-semibold text-neutral-500 uppercase tracking-wider text-right">Duration</th>
+                     </tr>
+                  </thead>
+                  <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
+                     {logs.map((log) => (
+                        <tr key={log.id} className="group hover:bg-neutral-50 dark:hover:bg-neutral-800/40 transition-colors">
+                           <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="flex items-center gap-3">
+                                 <div className="h-9 w-9 shrink-0">
+                                    {log.profiles?.avatar_url ? (
+                                       <img 
+                                          src={log.profiles.avatar_url} 
+                                          alt={log.profiles.full_name} 
+                                          className="h-full w-full rounded-full object-cover border border-neutral-200 dark:border-neutral-700"
+                                       />
+                                    ) : (
+                                       <div className="h-full w-full bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center text-indigo-600 dark:text-indigo-400 font-bold text-xs border border-indigo-200 dark:border-indigo-800/50">
+                                          {log.profiles?.full_name?.[0] || '?'}
+                                       </div>
+                                    )}
+                                 </div>
+                                 <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+                                    {log.profiles?.full_name || 'Unknown User'}
+                                 </span>
+                              </div>
+                           </td>
+                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-600 dark:text-neutral-400">
+                              {new Date(log.start_time).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone })}
+                           </td>
+                           <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="flex items-center gap-2 text-sm text-neutral-500 font-mono bg-neutral-100 dark:bg-neutral-800 px-2 py-1 rounded w-fit">
+                                 {new Date(log.start_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}
+                                 <span className="text-neutral-300">-</span>
+                                 {new Date(log.end_time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}
+                                 {activityTracking && (
+                                    <button
+                                       onClick={() => setActivityLog(log)}
+                                       title="Activity snapshots"
+                                       className="ml-1 p-0.5 rounded text-neutral-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                                    >
+                                       <Activity className="w-3.5 h-3.5" />
+                                    </button>
+                                 )}
+                              </div>
+                              {log.notes && (
+                                 <p className="mt-1 text-xs text-neutral-500 dark:text-neutral-400 truncate max-w-72" title={log.notes}>{log.notes}</p>
+                              )}
+                           </td>
+                           <td className="px-6 py-4 whitespace-nowrap text-right">
+                              {log.auto_stopped && (
+                                 <span className="mr-2 text-[10px] uppercase font-semibold text-rose-500" title="Left running and stopped by the server at the last detected activity">Auto-stopped</span>
+                              )}
+                              {log.billable === false && (
+                                 <span className="mr-2 text-[10px] uppercase font-semibold text-neutral-400">Non-billable</span>
+                              )}
+                              <span className={cn(
+                                 "inline-flex items-center px-2.5 py-1 rounded-full text-xs font-bold",
+                                 log.duration_seconds > 14400 ? "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400" : // >4h
+                                 log.duration_seconds > 7200 ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400" : // >2h
+                                 "bg-neutral-100 text-neutral-600 dark:bg-neutral-800 dark:text-neutral-400"
+                              )}>
+                                 {formatDuration(log.duration_seconds)}
+                              </span>
+                           </td>
+                        </tr>
+                     ))}
+                  </tbody>
+               </table>
+               {logs.length < logCount && (
+                  <div className="p-4 border-t border-neutral-100 dark:border-neutral-800 text-center">
+                     <button
+                        onClick={() => setPage(p => p + 1)}
+                        disabled={loading}
+                        className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+                     >
+                        {loading ? 'Loading...' : `Load more (${logs.length} of ${logCount})`}
+                     </button>
+                  </div>
+               )}
+            </div>
+         )}
+      </div>
+
+      {activityLog && (
+        <ActivitySnapshots
+          log={{ ...activityLog, full_name: activityLog.profiles?.full_name || 'Unknown User' }}
+          timeZone={timeZone}
+          onClose={() => setActivityLog(null)}
+        />
+      )}
+    </div>
+  )
 }
\ No newline at end of file
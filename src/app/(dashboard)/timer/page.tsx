@@ -1,111 +1,331 @@
-'use client'
-
-import { useTimer } from '@/components/providers/timer-context'
-import { Play, Square, Briefcase, Coffee, History } from 'lucide-react'
-import { cn } from '@/lib/utils'
-
-export default function TimerPage() {
-  const { isWorking, time, toggleTimer, formatTime } = useTimer()
-
-  return (
-    <div className="flex flex-col h-full w-full bg-neutral-50 dark:bg-neutral-950 relative overflow-hidden">
-      
-      {/* Background Decor (Subtle Gradients) */}
-      <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[800px] h-[500px] bg-indigo-500/5 dark:bg-indigo-500/10 rounded-full blur-3xl pointer-events-none" />
-      
-      {/* Main Content */}
-      <div className="flex-1 flex flex-col items-center justify-center p-6 md:p-12 relative z-10">
-        
-        {/* Header */}
-        <div className="text-center space-y-2 mb-12">
-          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
-            Focus Timer
-          </h1>
-          <p className="text-neutral-500 dark:text-neutral-400 text-sm">
-            {isWorking ? "Stay focused. You're doing great." : "Ready to start your next session?"}
-          </p>
-        </div>
-
-        {/* The Clock Card */}
-        <div className={cn(
-          "relative mb-12 p-10 md:p-16 rounded-3xl transition-all duration-500",
-          isWorking 
-            ? "bg-white dark:bg-neutral-900 shadow-2xl shadow-indigo-500/20 border border-indigo-100 dark:border-indigo-500/30 scale-105" 
-            : "bg-white dark:bg-neutral-900 shadow-xl border border-neutral-200 dark:border-neutral-800"
-        )}>
-          {/* Pulse Ring (Active State) */}
-          {isWorking && (
-             <div className="absolute inset-0 rounded-3xl border-2 border-indigo-500/20 animate-pulse" />
-          )}
-
-          <div className={cn(
-            "text-7xl md:text-9xl font-mono font-bold tracking-tighter tabular-nums transition-colors duration-300 select-none",
-            isWorking ? "text-indigo-600 dark:text-indigo-400" : "text-neutral-300 dark:text-neutral-700"
-          )}>
-            {formatTime(time)}
-          </div>
-          
-          {/* Label under clock */}
-          <div className="absolute bottom-6 left-0 right-0 text-center">
-             <span className={cn(
-                "text-xs font-medium uppercase tracking-widest transition-colors duration-300",
-                isWorking ? "text-indigo-400/80" : "text-neutral-300 dark:text-neutral-700"
-             )}>
-                {isWorking ? 'Recording Time' : 'Paused'}
-             </span>
-          </div>
-        </div>
-
-        {/* Controls */}
-        <div className="flex flex-col items-center gap-8">
-          <button
-            onClick={toggleTimer}
-            className={cn(
-              "group relative flex items-center justify-center h-20 w-20 md:h-24 md:w-24 rounded-full shadow-xl transition-all duration-300 hover:scale-105 hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-offset-2 dark:focus:ring-offset-neutral-950",
-              isWorking 
-                ? "bg-white dark:bg-neutral-800 border-4 border-rose-100 dark:border-rose-900/30 focus:ring-rose-500/50" 
-                : "bg-indigo-600 hover:bg-indigo-500 border-4 border-indigo-200 dark:border-indigo-900/30 focus:ring-indigo-500/50"
-            )}
-          >
-            {isWorking ? (
-              <>
-                <span className="absolute inset-0 rounded-full bg-rose-50 dark:bg-rose-900/20 opacity-0 group-hover:opacity-100 transition-opacity" />
-                <Square className="w-8 h-8 text-rose-500 fill-current relative z-10" />
-              </>
-            ) : (
-              <Play className="w-10 h-10 text-white fill-current ml-1 relative z-10" />
-            )}
-          </button>
-
-          {/* Status Indicator */}
-          <div className={cn(
-            "flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-medium transition-all duration-500",
-            isWorking 
-              ? "bg-emerald-50 text-emerald-700 border border-emerald-100 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50" 
-              : "bg-neutral-100 text-neutral-500 border border-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:border-neutral-700"
-          )}>
-            {isWorking ? (
-               <>
-                 <span className="relative flex h-2.5 w-2.5 mr-1">
-                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
-                    <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-emerald-500"></span>
-                 </span>
-                 Currently Working
-               </>
-            ) : (
-               <>
-                 <Coffee className="w-4 h-4" />
-                 Ready to clock in
-               </>
-            )}
-          </div>
-        </div>
-      </div>
-
-      {/* Footer Info */}
-      <div className="p-6 text-center text-xs text-neutral-400 dark:text-neutral-600">
-         <p>Don&apos;t forget to submit your timesheet at the end of the week.</p>
-      </div>
-    </div>
-  )
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useTimer } from '@/components/providers/timer-context'
+import { useActivity } from '@/components/providers/activity-provider'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { Play, Square, Pause, Briefcase, Coffee, History, CloudOff, RefreshCw, Gauge, Activity, MonitorUp, MonitorOff } from 'lucide-react'
+import Link from 'next/link'
+import { cn } from '@/lib/utils'
+import type { LimitStatus } from '@/lib/hour-limits'
+
+interface OpenTask {
+  id: string
+  title: string
+}
+
+const formatHours = (seconds: number) => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
+}
+
+// --- Helper: Hour Limit Line ---
+const LimitNotice = ({ status, autoStop }: { status: LimitStatus, autoStop: boolean }) => {
+  const label = status.period === 'day' ? 'daily' : 'weekly'
+
+  return (
+    <div className={cn(
+      "flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs border",
+      status.level === 'reached'
+        ? "bg-rose-50 text-rose-700 border-rose-100 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-900/50"
+        : status.level === 'warning'
+        ? "bg-amber-50 text-amber-700 border-amber-100 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50"
+        : "bg-white text-neutral-500 border-neutral-200 dark:bg-neutral-900 dark:text-neutral-400 dark:border-neutral-800"
+    )}>
+      <Gauge className="w-3.5 h-3.5 shrink-0" />
+      {status.level === 'reached' ? (
+        <span>
+          You&apos;ve reached your {label} limit of {formatHours(status.limitSeconds)}.
+          {autoStop ? ' Tracking is paused until the next period.' : ' Your workspace owner has been notified.'}
+        </span>
+      ) : status.level === 'warning' ? (
+        <span>
+          {formatHours(status.remainingSeconds)} left of your {label} limit.
+          {autoStop && ' The timer will stop automatically at the limit.'}
+        </span>
+      ) : (
+        <span>
+          <span className="capitalize">{label}</span> limit: <span className="font-mono">{formatHours(status.usedSeconds)} / {formatHours(status.limitSeconds)}</span>
+        </span>
+      )}
+    </div>
+  )
+}
+
+export default function TimerPage() {
+  const {
+    isWorking, isPaused, isIdle, time, breakTime, pendingCount, activeTaskId,
+    hourLimits, autoStopAtLimit,
+    toggleTimer, trackTask, pauseTimer, resumeTimer, syncPendingLogs, formatTime
+  } = useTimer()
+  const {
+    settings: activitySettings, consent, isSampling, isCapturingScreen, lastActivityPercent,
+    startScreenCapture, stopScreenCapture
+  } = useActivity()
+  const { workspaceId } = useWorkspace()
+
+  const [tasks, setTasks] = useState<OpenTask[]>([])
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null)
+  const supabase = createClient()
+
+  // Tasks the user can track time against
+  useEffect(() => {
+    if (!workspaceId) return
+    let isMounted = true
+
+    const loadTasks = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const { data } = await supabase
+        .from('tasks')
+        .select('id, title')
+        .eq('workspace_id', workspaceId)
+        .eq('assigned_to', user.id)
+        .in('status', ['todo', 'in_progress', 'rejected'])
+        .order('created_at', { ascending: false })
+
+      if (isMounted && data) setTasks(data as OpenTask[])
+    }
+    loadTasks()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId])
+
+  // While running, the picker follows the session; otherwise it picks the task for the next start
+  const currentTaskId = isWorking ? activeTaskId : selectedTaskId
+
+  const handleTaskChange = (taskId: string | null) => {
+    if (isWorking) {
+      trackTask(taskId)
+    } else {
+      setSelectedTaskId(taskId)
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full bg-neutral-50 dark:bg-neutral-950 relative overflow-hidden">
+      
+      {/* Background Decor (Subtle Gradients) */}
+      <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[800px] h-[500px] bg-indigo-500/5 dark:bg-indigo-500/10 rounded-full blur-3xl pointer-events-none" />
+      
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col items-center justify-center p-6 md:p-12 relative z-10">
+        
+        {/* Header */}
+        <div className="text-center space-y-2 mb-12">
+          <h1 className="text-2xl font-bold tracking-tight text-neutral-900 dark:text-neutral-50">
+            Focus Timer
+          </h1>
+          <p className="text-neutral-500 dark:text-neutral-400 text-sm">
+            {isPaused
+              ? "Enjoy your break. The clock is on hold."
+              : isWorking ? "Stay focused. You're doing great." : "Ready to start your next session?"}
+          </p>
+        </div>
+
+        {/* Task Picker */}
+        {tasks.length > 0 && (
+          <div className="relative mb-8 w-full max-w-xs">
+            <Briefcase className="absolute left-3 top-2.5 text-neutral-400 w-4 h-4 pointer-events-none" />
+            <select
+              value={currentTaskId || ''}
+              onChange={(e) => handleTaskChange(e.target.value || null)}
+              className="w-full pl-9 pr-3 py-2 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100 cursor-pointer"
+            >
+              <option value="">No specific task</option>
+              {tasks.map(t => (
+                <option key={t.id} value={t.id}>{t.title}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* The Clock Card */}
+        <div className={cn(
+          "relative mb-12 p-10 md:p-16 rounded-3xl transition-all duration-500",
+          isWorking && !isPaused
+            ? "bg-white dark:bg-neutral-900 shadow-2xl shadow-indigo-500/20 border border-indigo-100 dark:border-indigo-500/30 scale-105" 
+            : isPaused
+            ? "bg-white dark:bg-neutral-900 shadow-xl border border-amber-200 dark:border-amber-500/30"
+            : "bg-white dark:bg-neutral-900 shadow-xl border border-neutral-200 dark:border-neutral-800"
+        )}>
+          {/* Pulse Ring (Active State) */}
+          {isWorking && !isPaused && (
+             <div className="absolute inset-0 rounded-3xl border-2 border-indigo-500/20 animate-pulse" />
+          )}
+
+          <div className={cn(
+            "text-7xl md:text-9xl font-mono font-bold tracking-tighter tabular-nums transition-colors duration-300 select-none",
+            isPaused ? "text-amber-500 dark:text-amber-400" :
+            isWorking ? "text-indigo-600 dark:text-indigo-400" : "text-neutral-300 dark:text-neutral-700"
+          )}>
+            {formatTime(time)}
+          </div>
+          
+          {/* Label under clock */}
+          <div className="absolute bottom-6 left-0 right-0 text-center">
+             <span className={cn(
+                "text-xs font-medium uppercase tracking-widest transition-colors duration-300",
+                isPaused ? "text-amber-500/80" :
+                isWorking ? "text-indigo-400/80" : "text-neutral-300 dark:text-neutral-700"
+             )}>
+                {isPaused ? 'On Break' : isWorking ? 'Recording Time' : 'Stopped'}
+             </span>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-col items-center gap-8">
+          <div className="flex items-center gap-6">
+          <button
+            onClick={isWorking ? toggleTimer : () => trackTask(selectedTaskId)}
+            className={cn(
+              "group relative flex items-center justify-center h-20 w-20 md:h-24 md:w-24 rounded-full shadow-xl transition-all duration-300 hover:scale-105 hover:shadow-2xl focus:outline-none focus:ring-4 focus:ring-offset-2 dark:focus:ring-offset-neutral-950",
+              isWorking 
+                ? "bg-white dark:bg-neutral-800 border-4 border-rose-100 dark:border-rose-900/30 focus:ring-rose-500/50" 
+                : "bg-indigo-600 hover:bg-indigo-500 border-4 border-indigo-200 dark:border-indigo-900/30 focus:ring-indigo-500/50"
+            )}
+          >
+            {isWorking ? (
+              <>
+                <span className="absolute inset-0 rounded-full bg-rose-50 dark:bg-rose-900/20 opacity-0 group-hover:opacity-100 transition-opacity" />
+                <Square className="w-8 h-8 text-rose-500 fill-current relative z-10" />
+              </>
+            ) : (
+              <Play className="w-10 h-10 text-white fill-current ml-1 relative z-10" />
+            )}
+          </button>
+
+          {/* Break Toggle (Only while a session is running) */}
+          {isWorking && (
+            <button
+              onClick={isPaused ? resumeTimer : pauseTimer}
+              title={isPaused ? 'Resume Work' : 'Take a Break'}
+              className={cn(
+                "flex items-center justify-center h-14 w-14 md:h-16 md:w-16 rounded-full shadow-lg transition-all duration-300 hover:scale-105 focus:outline-none focus:ring-4 focus:ring-offset-2 dark:focus:ring-offset-neutral-950",
+                isPaused
+                  ? "bg-indigo-600 hover:bg-indigo-500 border-4 border-indigo-200 dark:border-indigo-900/30 focus:ring-indigo-500/50"
+                  : "bg-white dark:bg-neutral-800 border-4 border-amber-100 dark:border-amber-900/30 focus:ring-amber-500/50"
+              )}
+            >
+              {isPaused ? (
+                <Play className="w-6 h-6 text-white fill-current ml-0.5" />
+              ) : (
+                <Pause className="w-6 h-6 text-amber-500 fill-current" />
+              )}
+            </button>
+          )}
+          </div>
+
+          {/* Status Indicator */}
+          <div className={cn(
+            "flex items-center gap-2 px-5 py-2.5 rounded-full text-sm font-medium transition-all duration-500",
+            isPaused || isIdle
+              ? "bg-amber-50 text-amber-700 border border-amber-100 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50"
+              : isWorking 
+              ? "bg-emerald-50 text-emerald-700 border border-emerald-100 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50" 
+              : "bg-neutral-100 text-neutral-500 border border-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:border-neutral-700"
+          )}>
+            {isPaused ? (
+               <>
+                 <Coffee className="w-4 h-4" />
+                 On Break
+               </>
+            ) : isIdle ? (
+               <>
+                 <Coffee className="w-4 h-4" />
+                 Idle &ndash; move your mouse to continue
+               </>
+            ) : isWorking ? (
+               <>
+                 <span className="relative flex h-2.5 w-2.5 mr-1">
+                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-400 opacity-75"></span>
+                    <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-emerald-500"></span>
+                 </span>
+                 Currently Working
+               </>
+            ) : (
+               <>
+                 <Coffee className="w-4 h-4" />
+                 Ready to clock in
+               </>
+            )}
+          </div>
+
+          {/* Break Summary */}
+          {isWorking && breakTime > 0 && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              Break time this session: <span className="font-mono font-medium">{formatTime(breakTime)}</span>
+            </p>
+          )}
+
+          {/* Hour Limits (set by the workspace owner) */}
+          {hourLimits.length > 0 && (
+            <div className="flex flex-col items-center gap-2">
+              {hourLimits.map(status => (
+                <LimitNotice key={status.period} status={status} autoStop={autoStopAtLimit} />
+              ))}
+            </div>
+          )}
+
+          {/* Activity Snapshots (workspace setting + the user's consent) */}
+          {activitySettings?.activity_tracking && (
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs border bg-white text-neutral-500 border-neutral-200 dark:bg-neutral-900 dark:text-neutral-400 dark:border-neutral-800">
+              <Activity className={cn("w-3.5 h-3.5 shrink-0", isSampling && "text-emerald-500")} />
+              {!consent.activity_consent ? (
+                <span>
+                  Your workspace asks for activity snapshots.{' '}
+                  <Link href="/settings" className="text-indigo-600 dark:text-indigo-400 hover:underline">Review in Settings</Link>
+                </span>
+              ) : (
+                <span>
+                  {isSampling ? 'Activity snapshots on' : 'Activity snapshots run while the timer does'}
+                  {lastActivityPercent !== null && <> &middot; last <span className="font-mono">{lastActivityPercent}%</span></>}
+                </span>
+              )}
+
+              {isWorking && activitySettings.screenshot_tracking && consent.screenshot_consent && (
+                <button
+                  onClick={isCapturingScreen ? stopScreenCapture : startScreenCapture}
+                  className="flex items-center gap-1 ml-1 px-2 py-0.5 rounded-md font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors"
+                >
+                  {isCapturingScreen
+                    ? <><MonitorOff className="w-3.5 h-3.5" /> Stop screen captures</>
+                    : <><MonitorUp className="w-3.5 h-3.5" /> Share screen</>}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer Info */}
+      <div className="p-6 text-center text-xs text-neutral-400 dark:text-neutral-600 space-y-3">
+         {/* Unsynced Sessions (Offline Queue) */}
+         {pendingCount > 0 && (
+            <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-50 text-amber-700 border border-amber-100 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50">
+               <CloudOff className="w-3.5 h-3.5" />
+               <span>
+                  {pendingCount} {pendingCount === 1 ? 'session' : 'sessions'} waiting to sync
+               </span>
+               <button
+                  onClick={syncPendingLogs}
+                  title="Retry Sync"
+                  className="p-0.5 rounded hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+               >
+                  <RefreshCw className="w-3.5 h-3.5" />
+               </button>
+            </div>
+         )}
+         <p>
+            Don&apos;t forget to{' '}
+            <Link href="/reports" className="text-indigo-600 dark:text-indigo-400 hover:underline">submit your timesheet</Link>
+            {' '}at the end of the week.
+         </p>
+      </div>
+    </div>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { type ExportFormat, type ExportLog, EXPORT_FORMATS, buildReport } from '@/lib/export/report'
+import { toCsv } from '@/lib/export/csv'
+import { toXlsx } from '@/lib/export/xlsx'
+import { toPdf } from '@/lib/export/pdf'
+import { resolveTimeZone } from '@/lib/time-zones'
+import { hasWorkspacePermission } from '@/lib/permissions'
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+}
+
+interface LogRow {
+  start_time: string
+  end_time: string
+  duration_seconds: number
+  break_seconds: number | null
+  notes: string | null
+  profiles: { full_name: string } | null
+}
+
+// GET: /api/export?workspace=uuid&format=csv|xlsx|pdf&scope=me|team&from=ISO&to=ISO&employee=uuid&tz=Area/City
+// `from` is inclusive and `to` exclusive, matching the report page filters.
+// The caller must be a member of `workspace`, and may export its team with view_team.
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // 1. Check Auth
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // 2. Parse & Validate Query
+    const params = new URL(request.url).searchParams
+    const format = (params.get('format') || 'csv') as ExportFormat
+    const scope = params.get('scope') === 'team' ? 'team' : 'me'
+    const from = params.get('from')
+    const to = params.get('to')
+    const employee = params.get('employee')
+    const workspaceId = params.get('workspace')
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 })
+    }
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const timeZone = resolveTimeZone(params.get('tz'), 'UTC')
+
+    // 3. Build the query for the requested scope
+    let query = supabase
+      .from('time_logs')
+      .select('start_time, end_time, duration_seconds, break_seconds, notes, profiles:user_id ( full_name )')
+      .order('start_time', { ascending: true })
+
+    // Both scopes cover the requested workspace only
+    const { data: membership } = workspaceId
+      ? await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+      : { data: null }
+    if (!workspaceId || !membership) {
+      return NextResponse.json({ error: 'Join a workspace to export time reports.' }, { status: 403 })
+    }
+    query = query.eq('workspace_id', workspaceId)
+
+    if (scope === 'team') {
+      if (!(await hasWorkspacePermission(supabase, workspaceId, 'view_team'))) {
+        return NextResponse.json({ error: 'You are not allowed to export team reports.' }, { status: 403 })
+      }
+
+      if (employee && employee !== 'all') query = query.eq('user_id', employee)
+    } else {
+      query = query.eq('user_id', user.id)
+    }
+
+    if (from) query = query.gte('start_time', new Date(from).toISOString())
+    if (to) query = query.lt('start_time', new Date(to).toISOString())
+
+    const { data, error } = await query
+    if (error) throw error
+
+    // 4. Build Report
+    const logs: ExportLog[] = (data as unknown as LogRow[]).map(log => ({
+      start_time: log.start_time,
+      end_time: log.end_time,
+      duration_seconds: log.duration_seconds,
+      break_seconds: log.break_seconds,
+      employee: log.profiles?.full_name || 'Unknown User',
+      notes: log.notes
+    }))
+
+    const dateFmt = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    const lastDay = to ? new Date(new Date(to).getTime() - 1) : null
+    const period = from || to
+      ? `${from ? dateFmt.format(new Date(from)) : 'Start'} to ${lastDay ? dateFmt.format(lastDay) : 'Today'}`
+      : 'All time'
+
+    const report = buildReport(logs, {
+      title: scope === 'team' ? 'Team Timesheet' : 'My Timesheet',
+      period,
+      timeZone
+    })
+
+    // 5. Serialize
+    const body = format === 'csv' ? toCsv(report) : format === 'xlsx' ? toXlsx(report) : toPdf(report)
+    const filename = `timesheet-${scope}-${dateFmt.format(new Date())}.${format}`
+
+    return new NextResponse(typeof body === 'string' ? body : new Uint8Array(body), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Report Export Error:', error)
+    return NextResponse.json({ error: 'Failed to export report' }, { status: 500 })
+  }
+}
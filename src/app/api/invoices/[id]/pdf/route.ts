@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { type Invoice, formatInvoiceNumber } from '@/lib/invoices'
+import { invoiceToPdf } from '@/lib/export/invoice-pdf'
+import { resolveTimeZone } from '@/lib/time-zones'
+
+// GET: Printable PDF for one of the caller's workspace invoices
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = await createClient()
+
+    // 1. Check Auth
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // 2. Load Invoice (RLS limits this to members who manage billing)
+    const { id } = await params
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*, workspaces ( name, time_zone )')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const { workspaces, ...invoice } = data as Invoice & { workspaces: { name: string, time_zone: string | null } | null }
+
+    // 3. Render
+    const pdf = invoiceToPdf(invoice, workspaces?.name || 'Workspace', resolveTimeZone(workspaces?.time_zone, 'UTC'))
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${formatInvoiceNumber(invoice.number)}.pdf"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Invoice PDF Error:', error)
+    return NextResponse.json({ error: 'Failed to generate invoice' }, { status: 500 })
+  }
+}
@@ -0,0 +1,277 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { type ActiveSession, type TimerRequestBody, TIMER_ACTIONS } from '@/lib/timer-session'
+import { hasWorkspacePermission } from '@/lib/permissions'
+
+const SESSION_COLUMNS =
+  'user_id, workspace_id, client_session_id, task_id, segments, started_at, breaks, idle_periods, last_activity_at, updated_at'
+
+// Refusals the database raises on purpose (raise exception, permission
+// denied) carry a message meant for the caller
+const REFUSAL_STATUS: Record<string, number> = {
+  P0001: 400,
+  '42501': 403
+}
+
+// GET: The caller's running session (or null)
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('active_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return NextResponse.json({ session: data as ActiveSession | null })
+  } catch (error) {
+    console.error('Timer Session Fetch Error:', error)
+    return NextResponse.json({ error: 'Failed to load timer session' }, { status: 500 })
+  }
+}
+
+// POST: Start, pause, resume or stop the caller's session. Writes go through
+// the database's timer functions, which take every time from its own clock.
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // 1. Check Auth
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // 2. Parse & Validate Request Body
+    let body: TimerRequestBody
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+    }
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+    }
+    const { action, sessionId, taskId, idlePeriod, activityAt, endedAt, notes } = body
+
+    if (!TIMER_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Unknown timer action' }, { status: 400 })
+    }
+
+    // 3. Load the current session (at most one per user)
+    const { data: currentData, error: fetchError } = await supabase
+      .from('active_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError) throw fetchError
+    const current = currentData as ActiveSession | null
+
+    // New sessions go to the workspace the caller names; a running one keeps its own
+    let workspaceId = current?.workspace_id ?? null
+    if (action === 'start') {
+      workspaceId = body.workspaceId ?? null
+      if (!workspaceId) {
+        return NextResponse.json({ error: 'Choose a workspace before starting the timer.' }, { status: 400 })
+      }
+
+      if (!(await hasWorkspacePermission(supabase, workspaceId, 'track_time'))) {
+        return NextResponse.json({ error: 'Your role in this workspace does not track time.' }, { status: 403 })
+      }
+    }
+
+    // Only the assignee may track time against a task, and only in the session's workspace
+    if ((action === 'start' || action === 'switch') && taskId) {
+      const { data: task } = await supabase
+        .from('tasks')
+        .select('id')
+        .eq('id', taskId)
+        .eq('assigned_to', user.id)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle()
+
+      if (!task) {
+        return NextResponse.json({ error: 'Task not found or not assigned to you.' }, { status: 404 })
+      }
+    }
+
+    // 4. START
+    if (action === 'start') {
+      if (!sessionId) {
+        return NextResponse.json({ error: 'Missing session id' }, { status: 400 })
+      }
+      if (current) {
+        return NextResponse.json(
+          { error: 'A timer session is already running.', session: current },
+          { status: 409 }
+        )
+      }
+
+      const { data, error } = await supabase.rpc('start_timer_session', {
+        target_workspace: workspaceId,
+        session_id: sessionId,
+        task: taskId || null
+      })
+
+      // Unique violation: another device started a session in the meantime
+      if (error?.code === '23505') {
+        const { data: existing } = await supabase
+          .from('active_sessions')
+          .select(SESSION_COLUMNS)
+          .eq('user_id', user.id)
+          .maybeSingle()
+
+        return NextResponse.json(
+          { error: 'A timer session is already running.', session: existing },
+          { status: 409 }
+        )
+      }
+      if (error) throw error
+
+      await supabase.from('profiles').update({ current_status: 'working' }).eq('id', user.id)
+
+      return NextResponse.json({ session: data as ActiveSession })
+    }
+
+    // Every other action needs the session the client thinks is running
+    if (!current || (sessionId && current.client_session_id !== sessionId)) {
+      return NextResponse.json(
+        { error: 'No running timer session found.', session: current },
+        { status: 404 }
+      )
+    }
+
+    const hasOpenBreak = current.breaks.some(b => b.end_time === null)
+
+    // 5. PAUSE / RESUME
+    if (action === 'pause' || action === 'resume') {
+      if (action === 'pause' && hasOpenBreak) {
+        return NextResponse.json({ error: 'You are already on a break.', session: current }, { status: 409 })
+      }
+      if (action === 'resume' && !hasOpenBreak) {
+        return NextResponse.json({ error: 'You are not on a break.', session: current }, { status: 409 })
+      }
+
+      const { data, error } = await supabase.rpc('set_timer_break', {
+        session_id: current.client_session_id,
+        on_break: action === 'pause'
+      })
+
+      if (error) throw error
+
+      await supabase
+        .from('profiles')
+        .update({ current_status: action === 'pause' ? 'online' : 'working' })
+        .eq('id', user.id)
+
+      return NextResponse.json({ session: data as ActiveSession })
+    }
+
+    // 6. IDLE / RETURN
+    if (action === 'idle') {
+      await supabase.from('profiles').update({ current_status: 'idle' }).eq('id', user.id)
+      return NextResponse.json({ session: current })
+    }
+
+    if (action === 'return') {
+      if (idlePeriod) {
+        const from = Date.parse(idlePeriod.start_time)
+        const to = Date.parse(idlePeriod.end_time)
+
+        // The discarded stretch must sit inside the session and not in the future
+        if (isNaN(from) || isNaN(to) || from >= to || from < Date.parse(current.started_at) || to > Date.now()) {
+          return NextResponse.json({ error: 'Invalid idle period' }, { status: 400 })
+        }
+      }
+
+      // Coming back counts as activity
+      const { data, error } = await supabase.rpc('return_from_idle', {
+        session_id: current.client_session_id,
+        idle_from: idlePeriod?.start_time ?? null,
+        idle_to: idlePeriod?.end_time ?? null
+      })
+
+      if (error) throw error
+      const session = data as ActiveSession
+
+      await supabase
+        .from('profiles')
+        .update({ current_status: hasOpenBreak ? 'online' : 'working' })
+        .eq('id', user.id)
+
+      return NextResponse.json({ session })
+    }
+
+    // 7. SWITCH TASK (Closes the current segment and opens a new one)
+    if (action === 'switch') {
+      const nextTaskId = taskId || null
+      if (current.task_id === nextTaskId) {
+        return NextResponse.json({ session: current })
+      }
+
+      const { data, error } = await supabase.rpc('switch_timer_task', {
+        session_id: current.client_session_id,
+        task: nextTaskId
+      })
+
+      if (error) throw error
+
+      return NextResponse.json({ session: data as ActiveSession })
+    }
+
+    // 8. HEARTBEAT (Latest input, so a forgotten session ends where the user left)
+    if (action === 'heartbeat') {
+      const at = activityAt ? Date.parse(activityAt) : Date.now()
+      if (isNaN(at)) {
+        return NextResponse.json({ error: 'Invalid activity time' }, { status: 400 })
+      }
+
+      // Clamped by the database: never in the future, never earlier than what is recorded
+      const { data, error } = await supabase.rpc('record_timer_activity', {
+        session_id: current.client_session_id,
+        activity_at: new Date(at).toISOString()
+      })
+
+      if (error) throw error
+
+      return NextResponse.json({ session: data as ActiveSession })
+    }
+
+    // 9. STOP (The database logs the session; `endedAt` replays a stop made offline)
+    if (endedAt && isNaN(Date.parse(endedAt))) {
+      return NextResponse.json({ error: 'Invalid end time' }, { status: 400 })
+    }
+
+    const { data: stopped, error: stopError } = await supabase.rpc('stop_timer_session', {
+      session_id: current.client_session_id,
+      stop_at: endedAt ?? null,
+      note: notes ?? null
+    })
+
+    if (stopError) throw stopError
+    const { ended_at, log_ids } = stopped as { ended_at: string, log_ids: string[] }
+
+    await supabase.from('profiles').update({ current_status: 'online' }).eq('id', user.id)
+
+    return NextResponse.json({ session: current, ended_at, log_ids })
+
+  } catch (error) {
+    const { code, message } = (error ?? {}) as { code?: string, message?: string }
+    const status = code ? REFUSAL_STATUS[code] : undefined
+    if (status && message) {
+      return NextResponse.json({ error: message }, { status })
+    }
+
+    console.error('Timer Session Error:', error)
+    return NextResponse.json({ error: 'Failed to update timer session' }, { status: 500 })
+  }
+}
@@ -1,9 +1,11 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
+import { WorkspaceProvider } from '@/components/providers/workspace-provider'
 import { TimerProvider } from '@/components/providers/timer-context'
 import { NotificationProvider } from '@/components/providers/notification-provider' // <--- IMPORT
 import { CallProvider } from '@/components/providers/call-provider'
+import { ActivityProvider } from '@/components/providers/activity-provider'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -20,7 +22,9 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
+        <WorkspaceProvider>
         <TimerProvider>
+          <ActivityProvider>
           {/* NEST NOTIFICATION PROVIDER HERE */}
           <CallProvider>
           <NotificationProvider>
@@ -29,7 +33,9 @@ export default function RootLayout({
             
           </NotificationProvider>
           </CallProvider>
+          </ActivityProvider>
         </TimerProvider>
+        </WorkspaceProvider>
       </body>
     </html>
   )
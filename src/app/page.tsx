@@ -1,9 +1,8 @@
 import { redirect } from 'next/navigation'
 
 export default function Home() {
-  // For MVP speed, we just force redirect to login.
-  // The middleware (which we can add later) usually handles protection.
-  // Once logged in, the login page redirects back here, so we redirect to dashboard.
+  // The middleware sends signed-in users to their role's home page first;
+  // this only runs if it is bypassed.
   
   redirect('/team-overview')
 }
\ No newline at end of file
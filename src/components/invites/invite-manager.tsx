@@ -0,0 +1,256 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { X, Loader2, Plus, Copy, Check, Mail, RefreshCw, Ban, Link2 } from 'lucide-react'
+import { ASSIGNABLE_ROLES, ROLE_LABELS } from '@/lib/permissions'
+import {
+  type WorkspaceInvite, INVITE_EXPIRY_OPTIONS, INVITE_USE_OPTIONS,
+  isInvitePending, inviteMailto, inviteUrl
+} from '@/lib/invites'
+
+// --- Types ---
+
+interface InviteManagerProps {
+  workspaceId: string
+  workspaceName: string
+  userId: string
+  canInviteAdmins: boolean // handing out admin is the owner's call
+  onClose: () => void
+}
+
+const selectClass = "px-2 py-1.5 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+// --- Component ---
+
+export default function InviteManager({ workspaceId, workspaceName, userId, canInviteAdmins, onClose }: InviteManagerProps) {
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const [role, setRole] = useState<WorkspaceInvite['role']>('member')
+  const [email, setEmail] = useState('')
+  const [expiryDays, setExpiryDays] = useState<number | null>(7)
+  const [maxUses, setMaxUses] = useState<number | null>(1)
+  const [creating, setCreating] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+  const roles = ASSIGNABLE_ROLES.filter(r => r !== 'admin' || canInviteAdmins)
+
+  // 1. Pending invitations
+  useEffect(() => {
+    let isMounted = true
+
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('workspace_invites')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false })
+
+      if (error) console.error('Error fetching invites:', error)
+      if (isMounted) {
+        setInvites(((data || []) as WorkspaceInvite[]).filter(i => isInvitePending(i)))
+        setLoading(false)
+      }
+    }
+    load()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, refreshKey])
+
+  // 2. Actions
+  const handleCreate = async () => {
+    setError(null)
+    const address = email.trim().toLowerCase()
+    if (address && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+      setError('Enter a valid email address, or leave it blank for a shareable code.')
+      return
+    }
+
+    setCreating(true)
+    const { error: insertError } = await supabase.from('workspace_invites').insert({
+      workspace_id: workspaceId,
+      role,
+      email: address || null,
+      max_uses: address ? 1 : maxUses, // an addressed invite is for one person
+      expires_at: expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString() : null,
+      created_by: userId
+    })
+    setCreating(false)
+
+    if (insertError) {
+      console.error('Error creating invite:', insertError)
+      setError('Failed to create the invite. Please try again.')
+      return
+    }
+    setEmail('')
+    setRefreshKey(k => k + 1)
+  }
+
+  const handleRegenerate = async (invite: WorkspaceInvite) => {
+    if (!confirm(`Replace code ${invite.code}? Links already shared will stop working.`)) return
+
+    setBusyId(invite.id)
+    const { error } = await supabase.rpc('regenerate_workspace_invite', { invite_id: invite.id })
+    setBusyId(null)
+
+    if (error) {
+      console.error('Error regenerating invite:', error)
+      alert('Failed to regenerate the code.')
+      return
+    }
+    setRefreshKey(k => k + 1)
+  }
+
+  const handleRevoke = async (invite: WorkspaceInvite) => {
+    if (!confirm(`Revoke code ${invite.code}? Nobody will be able to join with it.`)) return
+
+    setBusyId(invite.id)
+    const { error } = await supabase.rpc('revoke_workspace_invite', { invite_id: invite.id })
+    setBusyId(null)
+
+    if (error) {
+      console.error('Error revoking invite:', error)
+      alert('Failed to revoke the invite.')
+      return
+    }
+    setInvites(current => current.filter(i => i.id !== invite.id))
+  }
+
+  const copyLink = (invite: WorkspaceInvite) => {
+    navigator.clipboard.writeText(inviteUrl(invite.code, window.location.origin))
+    setCopiedId(invite.id)
+    setTimeout(() => setCopiedId(null), 2000)
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-xl max-h-[85vh] flex flex-col bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div>
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">Invite Staff</h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+              Share a join link or code. Invitees join {workspaceName} with the role you pick.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* New Invite */}
+        <div className="p-6 space-y-4 border-b border-neutral-100 dark:border-neutral-800">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="space-y-1 text-xs font-medium text-neutral-500 dark:text-neutral-400">
+              <span>Role</span>
+              <select className={`${selectClass} w-full`} value={role} onChange={(e) => setRole(e.target.value as WorkspaceInvite['role'])}>
+                {roles.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-medium text-neutral-500 dark:text-neutral-400">
+              <span>Expires</span>
+              <select className={`${selectClass} w-full`} value={expiryDays ?? ''} onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}>
+                {INVITE_EXPIRY_OPTIONS.map(o => <option key={o.label} value={o.days ?? ''}>{o.label}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-medium text-neutral-500 dark:text-neutral-400">
+              <span>Uses</span>
+              <select
+                className={`${selectClass} w-full`}
+                value={email.trim() ? 1 : maxUses ?? ''}
+                disabled={!!email.trim()}
+                onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+              >
+                {INVITE_USE_OPTIONS.map(o => <option key={o.label} value={o.uses ?? ''}>{o.label}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email (optional, only this person can join)"
+              className={`${selectClass} flex-1`}
+            />
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+            >
+              {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Create Invite
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+          )}
+        </div>
+
+        {/* Pending Invitations */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-neutral-400 mb-3">Pending Invitations</h3>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-neutral-400" />
+            </div>
+          ) : invites.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 py-4 text-center">No pending invitations.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+              {invites.map(invite => (
+                <li key={invite.id} className="py-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <code className="font-mono font-bold tracking-widest text-neutral-900 dark:text-neutral-100">{invite.code}</code>
+                      <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-neutral-100 dark:bg-neutral-800 text-neutral-500 dark:text-neutral-400">
+                        {ROLE_LABELS[invite.role]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate mt-0.5">
+                      {invite.email || 'Anyone with the code'}
+                      {' · '}
+                      {invite.max_uses === null ? `${invite.use_count} joined` : `${invite.use_count}/${invite.max_uses} used`}
+                      {' · '}
+                      {invite.expires_at ? `expires ${formatDate(invite.expires_at)}` : 'no expiry'}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => copyLink(invite)} className="p-1.5 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded text-neutral-500 transition-colors" title="Copy join link">
+                      {copiedId === invite.id ? <Check className="w-4 h-4 text-emerald-600" /> : <Link2 className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => navigator.clipboard.writeText(invite.code)} className="p-1.5 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded text-neutral-500 transition-colors" title="Copy code">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <a href={inviteMailto(invite, workspaceName, window.location.origin)} className="p-1.5 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded text-neutral-500 transition-colors" title="Send by email">
+                      <Mail className="w-4 h-4" />
+                    </a>
+                    <button onClick={() => handleRegenerate(invite)} disabled={busyId === invite.id} className="p-1.5 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded text-neutral-500 transition-colors disabled:opacity-50" title="Regenerate code">
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleRevoke(invite)} disabled={busyId === invite.id} className="p-1.5 hover:bg-red-50 dark:hover:bg-red-900/20 rounded text-neutral-400 hover:text-red-500 transition-colors disabled:opacity-50" title="Revoke">
+                      <Ban className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Receipt, Plus, X, Loader2, Download, CheckCircle2, Ban, Calendar, User } from 'lucide-react'
+import { cn, downloadFile } from '@/lib/utils'
+import { type Invoice, CURRENCIES, formatInvoiceNumber, formatMoney } from '@/lib/invoices'
+import { toWeekKey, formatDayKey } from '@/lib/timesheets'
+import { addDaysToKey, dayKey, zonedMidnight } from '@/lib/time-zones'
+
+// --- Types ---
+
+interface MemberOption {
+  user_id: string
+  full_name: string
+}
+
+interface InvoicePanelProps {
+  workspaceId: string
+  members: MemberOption[]
+  timeZone: string // workspace zone; invoice periods are whole days in it
+}
+
+const inputClass = "w-full pl-9 pr-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
+
+// --- Component ---
+
+export default function InvoicePanel({ workspaceId, members, timeZone }: InvoicePanelProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [currency, setCurrency] = useState('USD')
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [showForm, setShowForm] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  // Form defaults to last week
+  const [periodFrom, setPeriodFrom] = useState(() => addDaysToKey(toWeekKey(new Date(), timeZone), -7))
+  const [periodTo, setPeriodTo] = useState(() => addDaysToKey(toWeekKey(new Date(), timeZone), -1))
+  const [memberId, setMemberId] = useState('all')
+  const [billTo, setBillTo] = useState('')
+  const [notes, setNotes] = useState('')
+
+  const supabase = createClient()
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadInvoices = async () => {
+      const { data: ws } = await supabase.from('workspaces').select('currency').eq('id', workspaceId).maybeSingle()
+      if (isMounted && ws?.currency) setCurrency(ws.currency)
+
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('number', { ascending: false })
+
+      if (error) console.error('Error loading invoices:', error)
+      if (isMounted && data) setInvoices(data as Invoice[])
+    }
+    loadInvoices()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, refreshKey])
+
+  const handleCurrency = async (value: string) => {
+    setCurrency(value)
+    const { error } = await supabase.from('workspaces').update({ currency: value }).eq('id', workspaceId)
+    if (error) {
+      console.error('Error updating currency:', error)
+      alert("Failed to update currency.")
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!periodFrom || !periodTo) {
+      alert("Please choose a valid period.")
+      return
+    }
+
+    const from = zonedMidnight(periodFrom, timeZone)
+    const to = zonedMidnight(addDaysToKey(periodTo, 1), timeZone) // inclusive end date
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      alert("Please choose a valid period.")
+      return
+    }
+
+    setCreating(true)
+    const { error } = await supabase.rpc('create_invoice', {
+      target_workspace: workspaceId,
+      period_from: from.toISOString(),
+      period_to: to.toISOString(),
+      member: memberId === 'all' ? null : memberId,
+      bill_to: billTo.trim() || null,
+      notes: notes.trim() || null
+    })
+    setCreating(false)
+
+    if (error) {
+      console.error('Error creating invoice:', error)
+      alert("Could not create invoice: " + error.message)
+      return
+    }
+
+    setShowForm(false)
+    setNotes('')
+    setRefreshKey(k => k + 1)
+  }
+
+  const handleStatus = async (invoice: Invoice, status: 'paid' | 'void') => {
+    if (status === 'void' && !confirm(`Void ${formatInvoiceNumber(invoice.number)}? Its time can be invoiced again.`)) return
+
+    const { error } = await supabase.rpc('set_invoice_status', { target_invoice: invoice.id, new_status: status })
+    if (error) {
+      console.error('Error updating invoice:', error)
+      alert("Failed to update invoice.")
+      return
+    }
+    setRefreshKey(k => k + 1)
+  }
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await downloadFile(`/api/invoices/${invoice.id}/pdf`, `${formatInvoiceNumber(invoice.number)}.pdf`)
+    } catch (err) {
+      console.error('Invoice download error:', err)
+      alert(err instanceof Error ? err.message : 'Download failed')
+    }
+  }
+
+  const memberName = (id: string | null) =>
+    id ? members.find(m => m.user_id === id)?.full_name || 'Unknown User' : 'All members'
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm">
+
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-neutral-100 dark:border-neutral-800 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Receipt className="w-4 h-4 text-indigo-500" />
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Invoices</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={currency}
+            onChange={(e) => handleCurrency(e.target.value)}
+            title="Workspace currency"
+            className="h-8 rounded-md border border-neutral-200 dark:border-neutral-700 bg-transparent px-2 text-xs text-neutral-700 dark:text-neutral-300 dark:bg-neutral-900 cursor-pointer"
+          >
+            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-medium transition-colors shadow-sm"
+          >
+            {showForm ? <X className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+            {showForm ? 'Cancel' : 'New Invoice'}
+          </button>
+        </div>
+      </div>
+
+      {/* Generator */}
+      {showForm && (
+        <div className="p-6 border-b border-neutral-100 dark:border-neutral-800 bg-neutral-50/50 dark:bg-neutral-800/20 space-y-3">
+          <p className="text-xs text-neutral-500">
+            Only billable time from approved timesheets that hasn&apos;t been invoiced yet is included.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="relative">
+              <Calendar className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+              <input type="date" className={inputClass} value={periodFrom} onChange={(e) => setPeriodFrom(e.target.value)} />
+            </div>
+            <div className="relative">
+              <Calendar className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+              <input type="date" className={inputClass} value={periodTo} onChange={(e) => setPeriodTo(e.target.value)} />
+            </div>
+            <div className="relative">
+              <User className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+              <select className={inputClass} value={memberId} onChange={(e) => setMemberId(e.target.value)}>
+                <option value="all">All members</option>
+                {members.map(m => <option key={m.user_id} value={m.user_id}>{m.full_name}</option>)}
+              </select>
+            </div>
+            <input
+              type="text"
+              placeholder="Bill to (client name)"
+              className="w-full px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
+              value={billTo}
+              onChange={(e) => setBillTo(e.target.value)}
+            />
+          </div>
+          <textarea
+            rows={2}
+            placeholder="Notes (payment terms, references...)"
+            className="w-full px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100 resize-none"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+            >
+              {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Receipt className="w-4 h-4" />}
+              Generate Invoice
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* List */}
+      {invoices.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-center text-neutral-500">No invoices yet.</p>
+      ) : (
+        <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          {invoices.map(inv => (
+            <li key={inv.id} className={cn("px-6 py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3", inv.status === 'void' && "opacity-50")}>
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold font-mono text-neutral-900 dark:text-neutral-100">{formatInvoiceNumber(inv.number)}</span>
+                  <span className={cn(
+                    "text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border",
+                    inv.status === 'paid' ? "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50" :
+                    inv.status === 'void' ? "bg-neutral-100 text-neutral-500 border-neutral-200 dark:bg-neutral-800 dark:text-neutral-400 dark:border-neutral-700" :
+                    "bg-indigo-100 text-indigo-700 border-indigo-200 dark:bg-indigo-900/20 dark:text-indigo-400 dark:border-indigo-900/50"
+                  )}>
+                    {inv.status}
+                  </span>
+                </div>
+                <p className="text-xs text-neutral-500 mt-0.5">
+                  {formatDayKey(dayKey(new Date(inv.period_start), timeZone))} - {formatDayKey(dayKey(new Date(new Date(inv.period_end).getTime() - 1), timeZone))}
+                  {' '}&middot; {memberName(inv.member_id)}
+                  {inv.bill_to && <> &middot; {inv.bill_to}</>}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="text-sm font-bold text-neutral-900 dark:text-neutral-100">{formatMoney(inv.total_amount, inv.currency)}</span>
+                <button onClick={() => handleDownload(inv)} title="Download PDF" className="p-1.5 rounded-md text-neutral-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20">
+                  <Download className="w-4 h-4" />
+                </button>
+                {inv.status === 'issued' && (
+                  <>
+                    <button onClick={() => handleStatus(inv, 'paid')} title="Mark Paid" className="p-1.5 rounded-md text-neutral-400 hover:text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20">
+                      <CheckCircle2 className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleStatus(inv, 'void')} title="Void" className="p-1.5 rounded-md text-neutral-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/20">
+                      <Ban className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
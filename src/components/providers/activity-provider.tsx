@@ -0,0 +1,237 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useTimer } from './timer-context'
+import { useWorkspace } from './workspace-provider'
+import {
+  type ActivityConsent, type ActivitySettings,
+  SAMPLE_INTERVAL_MS, SCREENSHOT_BUCKET, SCREENSHOT_MAX_WIDTH, activityPercent
+} from '@/lib/activity'
+
+// --- Types ---
+interface ActivityContextType {
+  settings: ActivitySettings | null // the workspace's sampling settings (null outside a workspace)
+  consent: ActivityConsent
+  isSampling: boolean
+  isCapturingScreen: boolean
+  lastActivityPercent: number | null
+  updateConsent: (consent: ActivityConsent) => Promise<boolean>
+  startScreenCapture: () => Promise<void>
+  stopScreenCapture: () => void
+}
+
+interface MembershipRow extends ActivityConsent {
+  workspaces: ActivitySettings | null
+}
+
+const ActivityContext = createContext<ActivityContextType | undefined>(undefined)
+
+// --- Constants ---
+const MOUSE_EVENTS = ['mousemove', 'mousedown', 'wheel', 'touchstart'] as const
+const MOUSE_THROTTLE_MS = 1000 // mousemove fires constantly; count at most once a second
+const NO_CONSENT: ActivityConsent = { activity_consent: false, screenshot_consent: false }
+
+// --- Helpers ---
+const captureFrame = (video: HTMLVideoElement) =>
+  new Promise<Blob | null>((resolve) => {
+    if (!video.videoWidth) return resolve(null)
+
+    const scale = Math.min(1, SCREENSHOT_MAX_WIDTH / video.videoWidth)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(video.videoWidth * scale)
+    canvas.height = Math.round(video.videoHeight * scale)
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+    canvas.toBlob(resolve, 'image/jpeg', 0.6)
+  })
+
+export function ActivityProvider({ children }: { children: React.ReactNode }) {
+  const { isWorking, isPaused, sessionId } = useTimer()
+  const { userId, workspaceId } = useWorkspace()
+
+  const [settings, setSettings] = useState<ActivitySettings | null>(null)
+  const [consent, setConsent] = useState<ActivityConsent>(NO_CONSENT)
+  const [isCapturingScreen, setIsCapturingScreen] = useState(false)
+  const [lastActivityPercent, setLastActivityPercent] = useState<number | null>(null)
+
+  const streamRef = useRef<MediaStream | null>(null)
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const supabase = createClient()
+
+  const isSampling = isWorking && !isPaused && !!settings?.activity_tracking && consent.activity_consent
+  const captureScreens = !!settings?.screenshot_tracking && consent.screenshot_consent
+
+  // 1. Load the active workspace's settings and the user's consent
+  useEffect(() => {
+    if (!userId || !workspaceId) return
+    let isMounted = true
+
+    const load = async () => {
+      const { data } = await supabase
+        .from('workspace_members')
+        .select('activity_consent, screenshot_consent, workspaces ( activity_tracking, screenshot_tracking )')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      const membership = data as unknown as MembershipRow | null
+      if (!isMounted) return
+
+      setSettings(membership?.workspaces ?? null)
+      setConsent(membership
+        ? { activity_consent: membership.activity_consent, screenshot_consent: membership.screenshot_consent }
+        : NO_CONSENT)
+    }
+    load()
+
+    return () => { isMounted = false }
+  }, [supabase, userId, workspaceId])
+
+  const updateConsent = async (next: ActivityConsent) => {
+    if (!workspaceId) return false
+
+    const { error } = await supabase.rpc('set_activity_consent', {
+      target_workspace: workspaceId,
+      activity: next.activity_consent,
+      screenshots: next.screenshot_consent
+    })
+
+    if (error) {
+      console.error('Error saving activity consent:', error)
+      return false
+    }
+    setConsent({ activity_consent: next.activity_consent, screenshot_consent: next.activity_consent && next.screenshot_consent })
+    return true
+  }
+
+  // 2. Screen capture (needs a click, so the Timer page offers a button)
+  const stopScreenCapture = useCallback(() => {
+    streamRef.current?.getTracks().forEach(t => t.stop())
+    streamRef.current = null
+    videoRef.current = null
+    setIsCapturingScreen(false)
+  }, [])
+
+  const startScreenCapture = async () => {
+    if (!captureScreens || streamRef.current) return
+
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })
+      const video = document.createElement('video')
+      video.muted = true
+      video.srcObject = stream
+      await video.play()
+
+      // The browser's own "Stop sharing" button ends the track
+      stream.getVideoTracks()[0]?.addEventListener('ended', stopScreenCapture)
+
+      streamRef.current = stream
+      videoRef.current = video
+      setIsCapturingScreen(true)
+    } catch (err) {
+      console.warn('Screen capture not started:', err)
+    }
+  }
+
+  // Sharing ends with the session
+  useEffect(() => {
+    if (!isWorking || !captureScreens) stopScreenCapture()
+  }, [isWorking, captureScreens, stopScreenCapture])
+
+  // 3. Sampling (one snapshot per interval while working)
+  useEffect(() => {
+    if (!isSampling || !sessionId || !workspaceId || !userId) return
+
+    let periodStart = Date.now()
+    let keyboardEvents = 0
+    let mouseEvents = 0
+    let lastMouse = 0
+    const activeMinutes = new Set<number>()
+
+    const onKey = () => {
+      keyboardEvents++
+      activeMinutes.add(Math.floor(Date.now() / 60000))
+    }
+    const onMouse = () => {
+      const now = Date.now()
+      if (now - lastMouse < MOUSE_THROTTLE_MS) return
+      lastMouse = now
+      mouseEvents++
+      activeMinutes.add(Math.floor(now / 60000))
+    }
+
+    window.addEventListener('keydown', onKey, { passive: true })
+    MOUSE_EVENTS.forEach(e => window.addEventListener(e, onMouse, { passive: true }))
+
+    const interval = setInterval(async () => {
+      const now = Date.now()
+      const snapshot = {
+        workspace_id: workspaceId,
+        user_id: userId,
+        session_id: sessionId,
+        period_start: new Date(periodStart).toISOString(),
+        captured_at: new Date(now).toISOString(),
+        activity_percent: activityPercent(activeMinutes, periodStart, now),
+        keyboard_events: keyboardEvents,
+        mouse_events: mouseEvents,
+        window_title: document.title,
+        page_path: window.location.pathname,
+        focused: document.hasFocus()
+      }
+
+      // Start the next period before any awaits
+      periodStart = now
+      keyboardEvents = 0
+      mouseEvents = 0
+      activeMinutes.clear()
+
+      try {
+        let screenshotPath: string | null = null
+        if (videoRef.current) {
+          const frame = await captureFrame(videoRef.current)
+          if (frame) {
+            const path = `${workspaceId}/${userId}/${sessionId}/${now}.jpg`
+            const { error: uploadError } = await supabase.storage
+              .from(SCREENSHOT_BUCKET)
+              .upload(path, frame, { contentType: 'image/jpeg' })
+
+            if (uploadError) console.error('Error uploading screen capture:', uploadError)
+            else screenshotPath = path
+          }
+        }
+
+        const { error } = await supabase
+          .from('activity_snapshots')
+          .insert({ ...snapshot, screenshot_path: screenshotPath })
+
+        if (error) throw error
+        setLastActivityPercent(snapshot.activity_percent)
+      } catch (err) {
+        console.error('Error recording activity snapshot:', err)
+      }
+    }, SAMPLE_INTERVAL_MS)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('keydown', onKey)
+      MOUSE_EVENTS.forEach(e => window.removeEventListener(e, onMouse))
+    }
+  }, [isSampling, sessionId, workspaceId, userId, supabase])
+
+  return (
+    <ActivityContext.Provider value={{
+      settings, consent, isSampling, isCapturingScreen, lastActivityPercent,
+      updateConsent, startScreenCapture, stopScreenCapture
+    }}>
+      {children}
+    </ActivityContext.Provider>
+  )
+}
+
+export function useActivity() {
+  const context = useContext(ActivityContext)
+  if (context === undefined) {
+    throw new Error('useActivity must be used within an ActivityProvider')
+  }
+  return context
+}
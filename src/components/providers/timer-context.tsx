@@ -1,172 +1,809 @@
-'use client'
-
-import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useCallback } from 'react'
-import { createClient } from '@/lib/supabase/client'
-
-// --- Types ---
-interface TimerContextType {
-  isWorking: boolean
-  time: number
-  toggleTimer: () => Promise<void>
-  formatTime: (seconds: number) => string
-}
-
-const TimerContext = createContext<TimerContextType | undefined>(undefined)
-
-// --- Constants ---
-const STORAGE_KEY_START = 'staffsync_timer_start'
-const STORAGE_KEY_IS_WORKING = 'staffsync_is_working'
-
-export function TimerProvider({ children }: { children: ReactNode }) {
-  const [isWorking, setIsWorking] = useState(false)
-  const [time, setTime] = useState(0)
-  const [startTime, setStartTime] = useState<number | null>(null)
-  
-  const supabase = createClient()
-  const audioRef = useRef<HTMLAudioElement | null>(null)
-
-  // 1. REHYDRATE TIMER (Handle Page Refresh)
-  useEffect(() => {
-    const savedIsWorking = localStorage.getItem(STORAGE_KEY_IS_WORKING) === 'true'
-    const savedStartTime = localStorage.getItem(STORAGE_KEY_START)
-
-    if (savedIsWorking && savedStartTime) {
-      const start = parseInt(savedStartTime, 10)
-      const now = Date.now()
-      const elapsed = Math.floor((now - start) / 1000)
-
-      setStartTime(start)
-      setTime(elapsed > 0 ? elapsed : 0)
-      setIsWorking(true)
-    }
-  }, [])
-
-  // 2. THE TICKER (Drift-Free)
-  useEffect(() => {
-    let interval: NodeJS.Timeout
-    
-    // Helper to update document title
-    const updateTitle = (seconds: number) => {
-        const formatted = formatTime(seconds)
-        document.title = isWorking ? `(${formatted}) StaffSync` : 'StaffSync'
-    }
-
-    if (isWorking && startTime) {
-      interval = setInterval(() => {
-        const now = Date.now()
-        const seconds = Math.floor((now - startTime) / 1000)
-        setTime(seconds)
-        updateTitle(seconds)
-      }, 1000)
-    } else {
-      document.title = 'StaffSync'
-    }
-
-    return () => {
-      clearInterval(interval)
-      document.title = 'StaffSync' // Cleanup
-    }
-  }, [isWorking, startTime])
-
-  // 3. ACTIONS
-  const toggleTimer = async () => {
-    // Play Click Sound
-    if (audioRef.current) {
-        audioRef.current.currentTime = 0
-        audioRef.current.play().catch(() => {})
-    }
-
-    if (!isWorking) {
-      // --- START ---
-      const now = Date.now()
-      setStartTime(now)
-      setIsWorking(true)
-      
-      // Persistence
-      localStorage.setItem(STORAGE_KEY_START, now.toString())
-      localStorage.setItem(STORAGE_KEY_IS_WORKING, 'true')
-
-      // DB Status Update (Optimistic)
-      const { data: { user } } = await supabase.auth.getUser()
-      if (user) {
-        await supabase.from('profiles').update({ current_status: 'working' }).eq('id', user.id)
-      }
-
-    } else {
-      // --- STOP ---
-      if (!startTime) return
-
-      const endTimeIso = new Date().toISOString()
-      const startTimeIso = new Date(startTime).toISOString()
-      const finalDuration = time
-
-      // Reset State Immediately (Optimistic UI)
-      setIsWorking(false)
-      setTime(0)
-      setStartTime(null)
-      
-      // Clear Persistence
-      localStorage.removeItem(STORAGE_KEY_START)
-      localStorage.removeItem(STORAGE_KEY_IS_WORKING)
-
-      // Async DB Operations
-      try {
-        const { data: { user } } = await supabase.auth.getUser()
-        
-        if (user) {
-            // A. Update Status
-            await supabase.from('profiles').update({ current_status: 'online' }).eq('id', user.id)
-
-            // B. Find Workspace
-            const { data: memberData } = await supabase
-                .from('workspace_members')
-                .select('workspace_id')
-                .eq('user_id', user.id)
-                .maybeSingle()
-            
-            if (memberData) {
-                // C. Log Time
-                const { error } = await supabase.from('time_logs').insert({
-                    user_id: user.id,
-                    workspace_id: memberData.workspace_id,
-                    start_time: startTimeIso,
-                    end_time: endTimeIso,
-                    duration_seconds: finalDuration
-                })
-                if (error) throw error
-            } else {
-                console.warn("User has no workspace, time log saved locally but not synced.")
-                // Optional: You could save to a 'pending_logs' local storage here
-            }
-        }
-      } catch (err) {
-        console.error('Error saving time log:', err)
-        alert('Failed to save time log. Please check your connection.')
-      }
-    }
-  }
-
-  // Helper
-  const formatTime = useCallback((seconds: number) => {
-    const hrs = Math.floor(seconds / 3600)
-    const mins = Math.floor((seconds % 3600) / 60)
-    const secs = seconds % 60
-    return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
-  }, [])
-
-  return (
-    <TimerContext.Provider value={{ isWorking, time, toggleTimer, formatTime }}>
-      {/* Optional: Simple beep sound for feedback */}
-      <audio ref={audioRef} src="/sounds/click.mp3" preload="auto" />
-      {children}
-    </TimerContext.Provider>
-  )
-}
-
-export function useTimer() {
-  const context = useContext(TimerContext)
-  if (context === undefined) {
-    throw new Error('useTimer must be used within a TimerProvider')
-  }
-  return context
-}
\ No newline at end of file
+'use client'
+
+import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useCallback, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useWorkspace } from './workspace-provider'
+import {
+  type PendingLog, loadPendingLogs, enqueuePendingLog, removePendingLog, addNotesToPendingLogs, generateSessionId
+} from '@/lib/pending-logs'
+import type {
+  ActiveSession, ActiveSessionBreak, IdlePeriod, TaskSegment, TimerAction, TimerRequestBody
+} from '@/lib/timer-session'
+import { type HourLimits, type LimitStatus, getLimitStatus } from '@/lib/hour-limits'
+import { addDaysToKey, dayKey, fetchTimeZones, resolveTimeZone, splitByDay, weekStartKey, zonedMidnight } from '@/lib/time-zones'
+import { Clock } from 'lucide-react'
+import SessionNotesForm from '@/components/timesheets/session-notes-form'
+
+// --- Types ---
+export interface BreakSegment {
+  start: number // epoch ms
+  end: number | null // null while the break is still running
+}
+
+interface TimerContextType {
+  isWorking: boolean
+  isPaused: boolean
+  time: number // worked seconds (breaks excluded)
+  breakTime: number // total break seconds in the current session
+  pendingCount: number // logs of sessions stopped offline, not yet in time_logs
+  activeTaskId: string | null
+  sessionId: string | null // client_session_id of the running session
+  hourLimits: LimitStatus[] // today's and this week's limits, if set
+  autoStopAtLimit: boolean
+  isIdle: boolean
+  idleTimeoutMinutes: number // 0 disables idle detection
+  setIdleTimeoutMinutes: (minutes: number) => void
+  askForNotes: boolean // "what did you work on" prompt when the timer stops
+  setAskForNotes: (ask: boolean) => void
+  toggleTimer: () => Promise<void>
+  trackTask: (taskId: string | null) => Promise<void> // starts the timer, or switches task mid-session
+  pauseTimer: () => Promise<void>
+  resumeTimer: () => Promise<void>
+  syncPendingLogs: () => Promise<void>
+  formatTime: (seconds: number) => string
+}
+
+// Time tracked before the running session, per day and week
+interface LimitBaseline {
+  day: string
+  week: string
+  daySeconds: number
+  weekSeconds: number
+}
+
+interface TimerResponse {
+  ok: boolean
+  status: number
+  session: ActiveSession | null
+  ended_at?: string
+  log_ids?: string[] // 'stop': the logs the server wrote
+  error?: string
+}
+
+const TimerContext = createContext<TimerContextType | undefined>(undefined)
+
+// --- Constants ---
+// Local copy of the server session, only used to paint the clock before the server answers
+const STORAGE_KEY_SESSION = 'staffsync_active_session'
+const STORAGE_KEY_IDLE_MINUTES = 'staffsync_idle_minutes'
+const STORAGE_KEY_ASK_NOTES = 'staffsync_ask_session_notes'
+const DEFAULT_IDLE_MINUTES = 5
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const
+const LIMIT_CHECK_INTERVAL_MS = 60 * 1000
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000
+
+// --- Helpers ---
+const getBreakSeconds = (breaks: BreakSegment[], now: number) =>
+  Math.floor(breaks.reduce((acc, b) => acc + ((b.end ?? now) - b.start), 0) / 1000)
+
+const toSegments = (breaks: (ActiveSessionBreak | IdlePeriod)[]): BreakSegment[] =>
+  breaks.map(b => ({
+    start: Date.parse(b.start_time),
+    end: b.end_time ? Date.parse(b.end_time) : null
+  }))
+
+const clipSegments = (segments: BreakSegment[], from: number, to: number): BreakSegment[] =>
+  segments
+    .map(s => ({ start: Math.max(s.start, from), end: Math.min(s.end ?? to, to) }))
+    .filter(s => s.end > s.start)
+
+// Breaks and idle stretches inside [start, now], overlapping ones merged so they count once
+const getPausedSeconds = (pauses: BreakSegment[], start: number, now: number) => {
+  const merged: { start: number, end: number }[] = []
+  clipSegments(pauses, start, now)
+    .sort((a, b) => a.start - b.start)
+    .forEach(p => {
+      const last = merged[merged.length - 1]
+      const end = p.end ?? now
+      if (last && p.start <= last.end) last.end = Math.max(last.end, end)
+      else merged.push({ start: p.start, end })
+    })
+  return getBreakSeconds(merged, now)
+}
+
+const getWorkedSeconds = (start: number, pauses: BreakSegment[], now: number) => {
+  const elapsed = Math.floor((now - start) / 1000) - getPausedSeconds(pauses, start, now)
+  return elapsed > 0 ? elapsed : 0
+}
+
+const toIsoRange = (segments: BreakSegment[], fallbackEnd: number) =>
+  segments.map(s => ({
+    start_time: new Date(s.start).toISOString(),
+    end_time: new Date(s.end ?? fallbackEnd).toISOString()
+  }))
+
+// One pending log per task segment, with breaks and discarded idle time clipped to each segment
+const toPendingLogs = (
+  sessionId: string,
+  userId: string | null,
+  segments: TaskSegment[],
+  breaks: BreakSegment[],
+  idle: BreakSegment[],
+  end: number,
+  workspaceId: string | null
+): PendingLog[] =>
+  segments
+    .map((seg, i) => ({
+      seg,
+      from: Date.parse(seg.start_time),
+      to: i < segments.length - 1 ? Date.parse(segments[i + 1].start_time) : end
+    }))
+    .filter(({ from, to }) => to > from)
+    .map(({ seg, from, to }) => {
+      const segBreaks = clipSegments(breaks, from, to)
+      const segIdle = clipSegments(idle, from, to)
+      const breakSeconds = getPausedSeconds(segBreaks, from, to)
+      return {
+        client_session_id: seg.id,
+        user_id: userId ?? undefined,
+        session_id: sessionId,
+        workspace_id: workspaceId,
+        task_id: seg.task_id,
+        start_time: new Date(from).toISOString(),
+        end_time: new Date(to).toISOString(),
+        duration_seconds: getWorkedSeconds(from, [...segBreaks, ...segIdle], to),
+        break_seconds: breakSeconds,
+        breaks: toIsoRange(segBreaks, to),
+        idle_seconds: getPausedSeconds([...segBreaks, ...segIdle], from, to) - breakSeconds, // idle during a break is break time
+        idle_periods: toIsoRange(segIdle, to)
+      }
+    })
+
+const loadCachedSession = (): ActiveSession | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_SESSION)
+    return saved ? (JSON.parse(saved) as ActiveSession) : null
+  } catch {
+    return null
+  }
+}
+
+// Talks to /api/timer. Network failures come back as { ok: false, status: 0 }.
+const requestTimer = async (
+  action?: TimerAction,
+  params: Omit<TimerRequestBody, 'action'> = {}
+): Promise<TimerResponse> => {
+  let res: Response
+  try {
+    res = await fetch('/api/timer', action ? {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, ...params })
+    } : undefined)
+  } catch {
+    return { ok: false, status: 0, session: null, error: 'You appear to be offline.' }
+  }
+
+  // The server answered, even if not with JSON
+  const body = await res.json().catch(() => ({}))
+  return {
+    ok: res.ok, status: res.status, session: body.session ?? null,
+    ended_at: body.ended_at, log_ids: body.log_ids, error: body.error
+  }
+}
+
+export function TimerProvider({ children }: { children: ReactNode }) {
+  const [isWorking, setIsWorking] = useState(false)
+  const [time, setTime] = useState(0)
+  const [breakTime, setBreakTime] = useState(0)
+  const [startTime, setStartTime] = useState<number | null>(null)
+  const [breaks, setBreaks] = useState<BreakSegment[]>([])
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null)
+  const [taskSegments, setTaskSegments] = useState<TaskSegment[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [userId, setUserId] = useState<string | null>(null)
+  const [sessionWorkspaceId, setSessionWorkspaceId] = useState<string | null>(null)
+  const { workspaceId } = useWorkspace()
+
+  // Idle detection
+  const [idleSegments, setIdleSegments] = useState<BreakSegment[]>([]) // discarded idle stretches
+  const [idleSince, setIdleSince] = useState<number | null>(null)
+  const [idleReturnAt, setIdleReturnAt] = useState<number | null>(null)
+  const [idleTimeoutMinutes, setIdleTimeoutState] = useState(DEFAULT_IDLE_MINUTES)
+
+  // Session notes (the logs of a just-stopped session, held back until the prompt closes)
+  const [askForNotes, setAskForNotesState] = useState(true)
+  const [notesFor, setNotesFor] = useState<{ ids: string[], queued: boolean } | null>(null)
+
+  // Hour limits
+  const [limits, setLimits] = useState<HourLimits | null>(null)
+  const [limitZone, setLimitZone] = useState('UTC')
+  const [limitBaseline, setLimitBaseline] = useState<LimitBaseline | null>(null)
+  const reportedLimitsRef = useRef(new Set<string>())
+  const isAutoStoppingRef = useRef(false)
+
+  const supabase = createClient()
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const isSyncingRef = useRef(false)
+  const lastActivityRef = useRef(0)
+  const lastHeartbeatRef = useRef(0)
+
+  const isPaused = breaks.some(b => b.end === null)
+
+  // Helper
+  const formatTime = useCallback((seconds: number) => {
+    const hrs = Math.floor(seconds / 3600)
+    const mins = Math.floor((seconds % 3600) / 60)
+    const secs = seconds % 60
+    return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+  }, [])
+
+  // Mirror a server session (or its absence) into local state
+  const applySession = useCallback((session: ActiveSession | null) => {
+    if (session) {
+      const start = Date.parse(session.started_at)
+      const segments = toSegments(session.breaks)
+      const now = Date.now()
+
+      setStartTime(start)
+      setSessionId(session.client_session_id)
+      setSessionWorkspaceId(session.workspace_id)
+      setActiveTaskId(session.task_id ?? null)
+      setTaskSegments(
+        session.segments?.length
+          ? session.segments
+          : [{ id: session.client_session_id, task_id: session.task_id ?? null, start_time: session.started_at }]
+      )
+      setBreaks(segments)
+      setIdleSegments(toSegments(session.idle_periods ?? []))
+      setTime(getWorkedSeconds(start, [...segments, ...toSegments(session.idle_periods ?? [])], now))
+      setBreakTime(getBreakSeconds(segments, now))
+      setIsWorking(true)
+      localStorage.setItem(STORAGE_KEY_SESSION, JSON.stringify(session))
+    } else {
+      setIsWorking(false)
+      setTime(0)
+      setBreakTime(0)
+      setStartTime(null)
+      setSessionId(null)
+      setSessionWorkspaceId(null)
+      setActiveTaskId(null)
+      setTaskSegments([])
+      setBreaks([])
+      setIdleSegments([])
+      setIdleSince(null)
+      setIdleReturnAt(null)
+      localStorage.removeItem(STORAGE_KEY_SESSION)
+    }
+  }, [])
+
+  // Saved preferences, read after mount so the first render matches the server's
+  useEffect(() => {
+    const savedMinutes = localStorage.getItem(STORAGE_KEY_IDLE_MINUTES)
+    if (savedMinutes !== null) setIdleTimeoutState(parseInt(savedMinutes, 10) || 0)
+    if (localStorage.getItem(STORAGE_KEY_ASK_NOTES) === 'false') setAskForNotesState(false)
+  }, [])
+
+  // 1. REHYDRATE TIMER (Server is the source of truth)
+  useEffect(() => {
+    const cached = loadCachedSession()
+    if (cached) applySession(cached)
+
+    const rehydrate = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+      setUserId(user.id)
+
+      const result = await requestTimer()
+      if (!result.ok) return // Offline: keep the cached session until we can reach the server
+
+      // Stopped while offline: the queued stop is replayed by the sync below
+      const session = result.session
+      const stoppedOffline = !!session && loadPendingLogs(user.id).some(l => l.session_id === session.client_session_id)
+
+      applySession(stoppedOffline ? null : session)
+    }
+
+    rehydrate()
+  }, [supabase, applySession])
+
+  // 2. CROSS-DEVICE SYNC (Realtime changes to this user's session)
+  useEffect(() => {
+    if (!userId) return
+
+    const onChange = (payload: { new: ActiveSession }) => applySession(payload.new)
+
+    const channel = supabase
+      .channel(`active-session-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'active_sessions', filter: `user_id=eq.${userId}` },
+        onChange
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'active_sessions', filter: `user_id=eq.${userId}` },
+        onChange
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered server-side; the old row only carries the key (user_id)
+        { event: 'DELETE', schema: 'public', table: 'active_sessions' },
+        (payload) => {
+          if ((payload.old as Partial<ActiveSession>).user_id === userId) applySession(null)
+        }
+      )
+      .subscribe()
+
+    return () => { supabase.removeChannel(channel) }
+  }, [userId, supabase, applySession])
+
+  // Notes for logs the server already has
+  const saveLoggedNotes = useCallback(async (clientSessionIds: string[], notes: string) => {
+    if (clientSessionIds.length === 0) return true
+
+    const { data } = await supabase.from('time_logs').select('id').in('client_session_id', clientSessionIds)
+    const results = await Promise.all(
+      (data || []).map(log => supabase.rpc('set_time_log_notes', { log_id: log.id, note: notes }))
+    )
+    const failed = results.find(r => r.error)
+    if (failed) {
+      console.error('Error saving session notes:', failed.error)
+      return false
+    }
+    return true
+  }, [supabase])
+
+  // 3. OFFLINE STOPS (Replayed on load and whenever the browser reconnects)
+  const syncPendingLogs = useCallback(async () => {
+    if (isSyncingRef.current || !userId) return
+
+    // Only this user's stops: their session is the only one the server will stop
+    const queue = loadPendingLogs(userId)
+    setPendingCount(queue.length)
+    if (queue.length === 0) return
+
+    isSyncingRef.current = true
+    try {
+      // One stop per session, at the time it was stopped offline
+      const sessions = new Map<string, PendingLog[]>()
+      queue.forEach(entry => {
+        const id = entry.session_id || entry.client_session_id
+        sessions.set(id, [...(sessions.get(id) || []), entry])
+      })
+
+      for (const [id, entries] of sessions) {
+        const endedAt = entries.reduce((latest, l) => (l.end_time > latest ? l.end_time : latest), entries[0].end_time)
+        const notes = entries.find(l => l.notes)?.notes ?? null
+
+        const result = await requestTimer('stop', { sessionId: id, endedAt, notes })
+        if (result.status === 0) break // Still offline
+
+        // 404: already stopped and logged elsewhere (another device, or the stale session sweeper)
+        if (result.ok || result.status === 404) {
+          // Notes saved from the prompt while the stop was on its way
+          const ids = entries.map(l => l.client_session_id)
+          const lateNotes = loadPendingLogs(userId).find(l => ids.includes(l.client_session_id) && l.notes && l.notes !== notes)?.notes
+
+          ids.forEach(removePendingLog)
+          if (result.ok && lateNotes) await saveLoggedNotes(ids, lateNotes)
+        } else if (result.status === 400 || result.status === 403) {
+          // Refused for good: replaying it again won't change the answer
+          console.error('Error replaying timer stop:', result.error)
+          entries.forEach(l => removePendingLog(l.client_session_id))
+          alert('A timer stop made offline could not be saved: ' + result.error)
+        } else {
+          console.error('Error replaying timer stop:', result.error)
+        }
+      }
+    } finally {
+      isSyncingRef.current = false
+      setPendingCount(loadPendingLogs(userId).length)
+    }
+  }, [userId, saveLoggedNotes])
+
+  useEffect(() => {
+    syncPendingLogs()
+
+    window.addEventListener('online', syncPendingLogs)
+    return () => window.removeEventListener('online', syncPendingLogs)
+  }, [syncPendingLogs])
+
+  // 4. IDLE DETECTION (No input for the configured period while working)
+  useEffect(() => {
+    if (!isWorking) return
+    lastActivityRef.current = Date.now()
+
+    const onActivity = () => {
+      const now = Date.now()
+      lastActivityRef.current = now
+      // First input after going idle: ask whether to keep the idle stretch
+      if (idleSince !== null) setIdleReturnAt(prev => prev ?? now)
+    }
+
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }))
+    return () => ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity))
+  }, [isWorking, idleSince])
+
+  useEffect(() => {
+    if (!isWorking || isPaused || idleSince !== null || idleTimeoutMinutes <= 0) return
+
+    const interval = setInterval(() => {
+      const lastActivity = lastActivityRef.current
+      if (Date.now() - lastActivity >= idleTimeoutMinutes * 60 * 1000) {
+        setIdleSince(lastActivity)
+        requestTimer('idle', { sessionId })
+      }
+    }, IDLE_CHECK_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [isWorking, isPaused, idleSince, idleTimeoutMinutes, sessionId])
+
+  // Report the latest input, so a forgotten session is closed where the user left off
+  useEffect(() => {
+    if (!isWorking || !sessionId) return
+
+    const interval = setInterval(() => {
+      const lastActivity = lastActivityRef.current
+      if (lastActivity > lastHeartbeatRef.current) {
+        lastHeartbeatRef.current = lastActivity
+        requestTimer('heartbeat', { sessionId, activityAt: new Date(lastActivity).toISOString() })
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [isWorking, sessionId])
+
+  const setIdleTimeoutMinutes = (minutes: number) => {
+    setIdleTimeoutState(minutes)
+    localStorage.setItem(STORAGE_KEY_IDLE_MINUTES, String(minutes))
+  }
+
+  const setAskForNotes = (ask: boolean) => {
+    setAskForNotesState(ask)
+    localStorage.setItem(STORAGE_KEY_ASK_NOTES, String(ask))
+  }
+
+  const resolveIdle = async (discard: boolean) => {
+    if (idleSince === null) return
+
+    const returnedAt = idleReturnAt ?? Date.now()
+    const idlePeriod = discard
+      ? { start_time: new Date(idleSince).toISOString(), end_time: new Date(returnedAt).toISOString() }
+      : undefined
+
+    setIdleSince(null)
+    setIdleReturnAt(null)
+    lastActivityRef.current = Date.now()
+
+    const result = await requestTimer('return', { sessionId, idlePeriod })
+    if (result.ok) {
+      applySession(result.session)
+    } else if (discard) {
+      // Offline: keep the discarded stretch locally so the clock still reflects it
+      setIdleSegments(prev => [...prev, { start: idleSince, end: returnedAt }])
+    }
+  }
+
+  // 5. HOUR LIMITS (Tracked time today and this week, excluding the running session)
+  const loadLimitBaseline = useCallback(async () => {
+    if (!userId || !workspaceId) return
+
+    const [{ data: memberData }, zones] = await Promise.all([
+      supabase
+        .from('workspace_members')
+        .select('daily_hour_limit, weekly_hour_limit, auto_stop_at_limit')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+        .maybeSingle(),
+      fetchTimeZones(supabase, userId, workspaceId)
+    ])
+
+    const memberLimits = memberData as HourLimits | null
+    setLimits(memberLimits)
+    if (!memberLimits?.daily_hour_limit && !memberLimits?.weekly_hour_limit) return
+
+    const zone = resolveTimeZone(zones.profileZone, zones.workspaceZone)
+    const day = dayKey(new Date(), zone)
+    const week = weekStartKey(new Date(), zone)
+
+    // Logs that started the day before the week can still run into it
+    const { data: logData } = await supabase
+      .from('time_logs')
+      .select('client_session_id, start_time, end_time, duration_seconds')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .gte('start_time', zonedMidnight(addDaysToKey(week, -1), zone).toISOString())
+
+    const synced = (logData || []) as { client_session_id: string | null, start_time: string, end_time: string, duration_seconds: number }[]
+    const syncedIds = new Set(synced.map(l => l.client_session_id))
+    const logs = [
+      ...synced,
+      ...loadPendingLogs(userId).filter(l => !syncedIds.has(l.client_session_id) && (l.workspace_id || workspaceId) === workspaceId)
+    ]
+
+    let daySeconds = 0
+    let weekSeconds = 0
+    logs.forEach(log => {
+      splitByDay(log.start_time, log.end_time, log.duration_seconds, zone).forEach(part => {
+        if (part.day === day) daySeconds += part.seconds
+        if (part.day >= week && part.day < addDaysToKey(week, 7)) weekSeconds += part.seconds
+      })
+    })
+
+    setLimitZone(zone)
+    setLimitBaseline({ day, week, daySeconds, weekSeconds })
+  }, [userId, workspaceId, supabase])
+
+  // Reload when a session starts or stops, a log syncs, and when the day rolls over
+  useEffect(() => {
+    loadLimitBaseline()
+  }, [loadLimitBaseline, isWorking, pendingCount])
+
+  useEffect(() => {
+    if (!limitBaseline) return
+
+    const interval = setInterval(() => {
+      if (dayKey(new Date(), limitZone) !== limitBaseline.day) loadLimitBaseline()
+    }, LIMIT_CHECK_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [limitBaseline, limitZone, loadLimitBaseline])
+
+  const hourLimits = useMemo(() => {
+    if (!limits || !limitBaseline) return []
+    return [
+      getLimitStatus('day', limitBaseline.day, limits.daily_hour_limit, limitBaseline.daySeconds + time),
+      getLimitStatus('week', limitBaseline.week, limits.weekly_hour_limit, limitBaseline.weekSeconds + time)
+    ].filter((s): s is LimitStatus => s !== null)
+  }, [limits, limitBaseline, time])
+
+  const limitReached = hourLimits.find(s => s.level === 'reached') || null
+
+  // Tell the workspace owner, once per day or week
+  useEffect(() => {
+    if (!limitReached || !workspaceId) return
+
+    const key = `${workspaceId}:${limitReached.period}:${limitReached.periodStart}`
+    if (reportedLimitsRef.current.has(key)) return
+    reportedLimitsRef.current.add(key)
+
+    supabase
+      .rpc('report_hour_limit_exceeded', { target_workspace: workspaceId, period: limitReached.period })
+      .then(({ error }) => {
+        if (error) console.error('Error reporting hour limit:', error)
+      })
+  }, [limitReached, workspaceId, supabase])
+
+  // 6. THE TICKER (Drift-Free)
+  useEffect(() => {
+    let interval: NodeJS.Timeout
+
+    // Helper to update document title
+    const updateTitle = (seconds: number) => {
+        const formatted = formatTime(seconds)
+        document.title = isPaused ? `(On Break) StaffSync` : `(${formatted}) StaffSync`
+    }
+
+    if (isWorking && startTime) {
+      interval = setInterval(() => {
+        const now = Date.now()
+        const seconds = getWorkedSeconds(startTime, [...breaks, ...idleSegments], now)
+        setTime(seconds)
+        setBreakTime(getBreakSeconds(breaks, now))
+        updateTitle(seconds)
+      }, 1000)
+    } else {
+      document.title = 'StaffSync'
+    }
+
+    return () => {
+      clearInterval(interval)
+      document.title = 'StaffSync' // Cleanup
+    }
+  }, [isWorking, isPaused, startTime, breaks, idleSegments, formatTime])
+
+  // 7. ACTIONS
+  const playClick = () => {
+    if (audioRef.current) {
+        audioRef.current.currentTime = 0
+        audioRef.current.play().catch(() => {})
+    }
+  }
+
+  const pauseTimer = async () => {
+    if (!isWorking || isPaused) return
+    playClick()
+
+    const result = await requestTimer('pause', { sessionId })
+    if (!result.ok && result.status !== 409) {
+      alert(result.error || 'Failed to start your break.')
+      return
+    }
+    applySession(result.session)
+  }
+
+  const resumeTimer = async () => {
+    if (!isWorking || !isPaused) return
+    playClick()
+
+    const result = await requestTimer('resume', { sessionId })
+    if (!result.ok && result.status !== 409) {
+      alert(result.error || 'Failed to resume work.')
+      return
+    }
+    applySession(result.session)
+  }
+
+  const startTimer = async (taskId: string | null) => {
+    if (limits?.auto_stop_at_limit && limitReached) {
+      alert(`You have reached your ${limitReached.period === 'day' ? 'daily' : 'weekly'} hour limit.`)
+      return
+    }
+
+    const result = await requestTimer('start', { sessionId: generateSessionId(), workspaceId, taskId })
+
+    // 409: already running on another device or tab, so adopt that session
+    if (!result.ok && !(result.status === 409 && result.session)) {
+      alert(result.error || 'Failed to start the timer.')
+      return
+    }
+    applySession(result.session)
+  }
+
+  // The server logs the session. When it can't be reached, the logs are
+  // queued locally and the stop is replayed later. Returns the logs'
+  // client session ids and whether they are still queued, or null when the
+  // server refused the stop and the session keeps running.
+  const stopTimer = useCallback(async () => {
+    if (!startTime || !sessionId) return { ids: [] as string[], queued: false }
+
+    const result = await requestTimer('stop', { sessionId })
+
+    // 404: already stopped elsewhere, and that device logged the session
+    if (result.ok || result.status === 404) {
+      applySession(null)
+      return { ids: result.log_ids ?? [], queued: false }
+    }
+
+    // Only an unreachable server is worth replaying
+    if (result.status !== 0) {
+      console.error('Error stopping timer:', result.error)
+      alert(result.error || 'Failed to stop the timer.')
+      return null
+    }
+
+    // Queue first so the session survives a closed tab
+    const now = Date.now()
+    const closedBreaks = breaks.map(b => b.end === null ? { ...b, end: now } : b)
+    const logs = toPendingLogs(sessionId, userId, taskSegments, closedBreaks, idleSegments, now, sessionWorkspaceId ?? workspaceId)
+    logs.forEach(log => enqueuePendingLog(log))
+    setPendingCount(loadPendingLogs(userId).length)
+
+    // Reset State Immediately (Optimistic UI)
+    applySession(null)
+    return { ids: logs.map(log => log.client_session_id), queued: true }
+  }, [startTime, sessionId, userId, breaks, idleSegments, taskSegments, sessionWorkspaceId, workspaceId, applySession])
+
+  // Auto-stop at the limit, when the owner turned it on
+  useEffect(() => {
+    if (!limits?.auto_stop_at_limit || !limitReached || !isWorking || isAutoStoppingRef.current) return
+
+    isAutoStoppingRef.current = true
+    stopTimer().then(logged => {
+      // Refused: leave it to the server's own auto-stop rather than retry every tick
+      if (!logged) return
+
+      isAutoStoppingRef.current = false
+      alert(`Your timer was stopped: you reached your ${limitReached.period === 'day' ? 'daily' : 'weekly'} hour limit.`)
+    })
+  }, [limits, limitReached, isWorking, stopTimer])
+
+  // A new session may auto-stop again
+  useEffect(() => {
+    if (sessionId) isAutoStoppingRef.current = false
+  }, [sessionId])
+
+  const toggleTimer = async () => {
+    playClick()
+
+    if (!isWorking) {
+      await startTimer(null)
+      return
+    }
+
+    const logged = await stopTimer()
+    if (askForNotes && logged && logged.ids.length > 0) setNotesFor(logged)
+  }
+
+  const closeNotesPrompt = () => setNotesFor(null)
+
+  // Queued logs carry the notes to the server; logged ones are updated in
+  // place, including queued ones whose stop was replayed while the prompt was open
+  const saveSessionNotes = async (notes: string) => {
+    if (!notesFor || !notes) return true
+
+    if (notesFor.queued) {
+      const stillQueued = addNotesToPendingLogs(notesFor.ids, notes)
+      return saveLoggedNotes(notesFor.ids.filter(id => !stillQueued.includes(id)), notes)
+    }
+
+    return saveLoggedNotes(notesFor.ids, notes)
+  }
+
+  const trackTask = async (taskId: string | null) => {
+    playClick()
+
+    if (!isWorking) {
+      await startTimer(taskId)
+      return
+    }
+
+    const result = await requestTimer('switch', { sessionId, taskId })
+    if (!result.ok) {
+      alert(result.error || 'Failed to switch task.')
+      return
+    }
+    applySession(result.session)
+  }
+
+  return (
+    <TimerContext.Provider value={{
+      isWorking, isPaused, time, breakTime, pendingCount, activeTaskId, sessionId,
+      hourLimits, autoStopAtLimit: !!limits?.auto_stop_at_limit,
+      isIdle: idleSince !== null, idleTimeoutMinutes, setIdleTimeoutMinutes, askForNotes, setAskForNotes,
+      toggleTimer, trackTask, pauseTimer, resumeTimer, syncPendingLogs, formatTime
+    }}>
+      {/* Optional: Simple beep sound for feedback */}
+      <audio ref={audioRef} src="/sounds/click.mp3" preload="auto" />
+
+      {/* Idle Return Prompt */}
+      {idleSince !== null && idleReturnAt !== null && (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+          <div className="w-full max-w-sm bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl p-6 space-y-5">
+            <div className="flex items-start gap-3">
+              <div className="bg-amber-100 dark:bg-amber-900/30 p-2 rounded-full text-amber-600 dark:text-amber-400">
+                <Clock className="w-5 h-5" />
+              </div>
+              <div>
+                <h4 className="text-base font-bold text-neutral-900 dark:text-neutral-100">Welcome back</h4>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+                  You were idle for {Math.max(1, Math.round((idleReturnAt - idleSince) / 60000))} min since{' '}
+                  {new Date(idleSince).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                  Should this time count as work?
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => resolveIdle(true)}
+                className="flex-1 bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400 border border-rose-200 dark:border-rose-800 text-sm font-medium py-2 rounded-lg hover:bg-rose-100 dark:hover:bg-rose-900/40 transition-colors"
+              >
+                Discard Idle Time
+              </button>
+              <button
+                onClick={() => resolveIdle(false)}
+                className="flex-1 bg-indigo-600 text-white text-sm font-medium py-2 rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                Keep Time
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Session Notes Prompt */}
+      {notesFor && (
+        <SessionNotesForm
+          title="What did you work on?"
+          subtitle="Optional. Saved with this session and visible in your timesheet and to your workspace owner."
+          cancelLabel="Skip"
+          onSave={saveSessionNotes}
+          onClose={closeNotesPrompt}
+        />
+      )}
+
+      {children}
+    </TimerContext.Provider>
+  )
+}
+
+export function useTimer() {
+  const context = useContext(TimerContext)
+  if (context === undefined) {
+    throw new Error('useTimer must be used within a TimerProvider')
+  }
+  return context
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { type Workspace, fetchWorkspaces } from '@/lib/workspaces'
+import { type Permission, type WorkspaceRole, can as roleCan } from '@/lib/permissions'
+
+// --- Types ---
+interface WorkspaceContextType {
+  userId: string | null
+  workspaces: Workspace[] // every workspace the user is a member of
+  workspace: Workspace | null // the active one
+  workspaceId: string | null
+  role: WorkspaceRole | null // role in the active workspace
+  isOwner: boolean
+  can: (permission: Permission) => boolean
+  isLoading: boolean
+  switchWorkspace: (workspaceId: string) => Promise<boolean>
+  refreshWorkspaces: () => Promise<Workspace[]>
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined)
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+  const [workspace, setWorkspace] = useState<Workspace | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const supabase = createClient()
+
+  // 1. Load memberships and the stored choice
+  const refreshWorkspaces = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    setUserId(user?.id ?? null)
+
+    if (!user) {
+      setWorkspaces([])
+      setWorkspace(null)
+      setIsLoading(false)
+      return []
+    }
+
+    const { workspaces: list, active } = await fetchWorkspaces(supabase, user.id)
+    setWorkspaces(list)
+    setWorkspace(active)
+    setIsLoading(false)
+    return list
+  }, [supabase])
+
+  // Reload on sign in / sign out (the provider outlives the login page)
+  useEffect(() => {
+    const load = async () => { await refreshWorkspaces() }
+    load()
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') refreshWorkspaces()
+    })
+    return () => subscription.unsubscribe()
+  }, [supabase, refreshWorkspaces])
+
+  // 2. Switch (stored on the profile so other devices and the API follow)
+  const switchWorkspace = async (workspaceId: string) => {
+    const { error } = await supabase.rpc('set_active_workspace', { ws: workspaceId })
+    if (error) {
+      console.error('Error switching workspace:', error)
+      return false
+    }
+
+    // A workspace joined since the last load isn't in the list yet
+    const next = workspaces.find(w => w.id === workspaceId)
+    if (next) setWorkspace(next)
+    else await refreshWorkspaces()
+    return true
+  }
+
+  return (
+    <WorkspaceContext.Provider value={{
+      userId, workspaces, workspace,
+      workspaceId: workspace?.id ?? null,
+      role: workspace?.role ?? null,
+      isOwner: workspace?.role === 'owner',
+      can: (permission) => roleCan(workspace?.role, permission),
+      isLoading, switchWorkspace, refreshWorkspaces
+    }}>
+      {children}
+    </WorkspaceContext.Provider>
+  )
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider')
+  }
+  return context
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { X, Loader2, Activity, EyeOff, ImageOff } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type ActivitySnapshot, SCREENSHOT_BUCKET, activityColor } from '@/lib/activity'
+
+// --- Types ---
+
+interface ActivitySnapshotsProps {
+  log: { user_id: string, workspace_id: string, start_time: string, end_time: string, full_name: string }
+  timeZone: string
+  onClose: () => void
+}
+
+const SIGNED_URL_SECONDS = 60 * 60
+
+// --- Component ---
+
+export default function ActivitySnapshots({ log, timeZone, onClose }: ActivitySnapshotsProps) {
+  const [snapshots, setSnapshots] = useState<ActivitySnapshot[]>([])
+  const [screenshotUrls, setScreenshotUrls] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+
+  const supabase = createClient()
+
+  useEffect(() => {
+    let isMounted = true
+
+    const load = async () => {
+      // 1. Snapshots taken during the logged session
+      const { data, error } = await supabase
+        .from('activity_snapshots')
+        .select('*')
+        .eq('workspace_id', log.workspace_id)
+        .eq('user_id', log.user_id)
+        .gt('captured_at', log.start_time)
+        .lte('captured_at', log.end_time)
+        .order('captured_at', { ascending: true })
+
+      if (error) console.error('Error fetching activity snapshots:', error)
+      const rows = (data || []) as ActivitySnapshot[]
+
+      // 2. Short-lived links to the private screen captures
+      const paths = rows.map(s => s.screenshot_path).filter((p): p is string => !!p)
+      let urls: Record<string, string> = {}
+      if (paths.length > 0) {
+        const { data: signed } = await supabase.storage
+          .from(SCREENSHOT_BUCKET)
+          .createSignedUrls(paths, SIGNED_URL_SECONDS)
+
+        urls = Object.fromEntries((signed || []).filter(s => s.signedUrl).map(s => [s.path, s.signedUrl]))
+      }
+
+      if (isMounted) {
+        setSnapshots(rows)
+        setScreenshotUrls(urls)
+        setLoading(false)
+      }
+    }
+    load()
+
+    return () => { isMounted = false }
+  }, [supabase, log.user_id, log.workspace_id, log.start_time, log.end_time])
+
+  const average = snapshots.length > 0
+    ? Math.round(snapshots.reduce((sum, s) => sum + s.activity_percent, 0) / snapshots.length)
+    : null
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div>
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">
+              Activity &middot; {log.full_name}
+            </h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+              {formatTime(log.start_time)} - {formatTime(log.end_time)}
+              {average !== null && <> &middot; average activity <span className="font-mono">{average}%</span></>}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Snapshots */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="w-5 h-5 animate-spin text-neutral-400" />
+            </div>
+          ) : snapshots.length === 0 ? (
+            <div className="flex flex-col items-center py-10 text-center">
+              <Activity className="w-8 h-8 text-neutral-300 dark:text-neutral-600 mb-3" />
+              <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                No snapshots for this session. The member may not have consented, or the session was shorter than one sample.
+              </p>
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {snapshots.map(s => (
+                <li key={s.id} className="flex gap-4">
+                  <div className="w-40 aspect-video shrink-0 rounded-lg overflow-hidden bg-neutral-100 dark:bg-neutral-800 flex items-center justify-center">
+                    {s.screenshot_path && screenshotUrls[s.screenshot_path] ? (
+                      <a href={screenshotUrls[s.screenshot_path]} target="_blank" rel="noopener noreferrer">
+                        <img src={screenshotUrls[s.screenshot_path]} alt={`Screen at ${formatTime(s.captured_at)}`} className="w-full h-full object-cover" />
+                      </a>
+                    ) : (
+                      <ImageOff className="w-5 h-5 text-neutral-300 dark:text-neutral-600" />
+                    )}
+                  </div>
+
+                  <div className="flex-1 min-w-0 space-y-1.5">
+                    <div className="flex items-center justify-between text-xs text-neutral-500 dark:text-neutral-400">
+                      <span className="font-mono">{formatTime(s.period_start)} - {formatTime(s.captured_at)}</span>
+                      <span className="font-mono font-semibold text-neutral-900 dark:text-neutral-100">{s.activity_percent}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-neutral-100 dark:bg-neutral-800 overflow-hidden">
+                      <div className={cn("h-full rounded-full", activityColor(s.activity_percent))} style={{ width: `${s.activity_percent}%` }} />
+                    </div>
+                    <p className="text-sm text-neutral-900 dark:text-neutral-100 truncate" title={s.window_title || undefined}>
+                      {s.window_title || 'Untitled window'}
+                    </p>
+                    <p className="flex items-center gap-2 text-xs text-neutral-400">
+                      <span className="font-mono truncate">{s.page_path}</span>
+                      <span>{s.keyboard_events} keys &middot; {s.mouse_events} mouse</span>
+                      {!s.focused && (
+                        <span className="flex items-center gap-1 text-amber-500" title="The app wasn't the focused window when the sample was taken">
+                          <EyeOff className="w-3 h-3" /> In background
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
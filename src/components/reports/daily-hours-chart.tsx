@@ -0,0 +1,79 @@
+'use client'
+
+import { useMemo } from 'react'
+import { BarChart3 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type DailyStat, type MemberStat, MEMBER_COLORS } from '@/lib/team-report-stats'
+
+const MAX_DAYS = 31
+
+const formatHours = (seconds: number) => `${(seconds / 3600).toFixed(1)}h`
+
+// Stacked bar per day, one segment per member
+export default function DailyHoursChart({ daily, members }: { daily: DailyStat[], members: MemberStat[] }) {
+  const colorOf = useMemo(() => {
+    const map: Record<string, string> = {}
+    members.forEach((m, i) => { map[m.user_id] = MEMBER_COLORS[i % MEMBER_COLORS.length] })
+    return map
+  }, [members])
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, DailyStat[]>()
+    daily.forEach(d => byDay.set(d.day, [...(byDay.get(d.day) || []), d]))
+    return [...byDay.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .slice(-MAX_DAYS)
+      .map(([day, entries]) => ({ day, entries, total: entries.reduce((acc, e) => acc + e.seconds, 0) }))
+  }, [daily])
+
+  const max = Math.max(...days.map(d => d.total), 1)
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <BarChart3 className="w-4 h-4 text-indigo-500" />
+        <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Daily Hours</h2>
+        {days.length === MAX_DAYS && <span className="text-xs text-neutral-400">(last {MAX_DAYS} active days)</span>}
+      </div>
+
+      {days.length === 0 ? (
+        <p className="h-48 flex items-center justify-center text-sm text-neutral-500">No hours in this period.</p>
+      ) : (
+        <>
+          <div className="h-48 flex items-end gap-1">
+            {days.map(({ day, entries, total }) => (
+              <div
+                key={day}
+                className="flex-1 min-w-0 flex flex-col-reverse rounded-t overflow-hidden"
+                style={{ height: `${(total / max) * 100}%` }}
+                title={`${day}: ${formatHours(total)}`}
+              >
+                {entries.map(e => (
+                  <div
+                    key={e.user_id}
+                    className={cn(colorOf[e.user_id] || 'bg-neutral-400')}
+                    style={{ height: `${(e.seconds / total) * 100}%` }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-2 text-[10px] text-neutral-400 font-mono">
+            <span>{days[0].day}</span>
+            <span>{days[days.length - 1].day}</span>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4">
+            {members.map(m => (
+              <span key={m.user_id} className="flex items-center gap-1.5 text-xs text-neutral-600 dark:text-neutral-400">
+                <span className={cn("w-2.5 h-2.5 rounded-sm", colorOf[m.user_id])} />
+                {m.full_name}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
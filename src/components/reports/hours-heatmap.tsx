@@ -0,0 +1,58 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Grid3x3 } from 'lucide-react'
+import type { HeatmapStat } from '@/lib/team-report-stats'
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+const HOURS = Array.from({ length: 24 }, (_, h) => h)
+
+// Weekday x hour-of-day grid, shaded by worked time
+export default function HoursHeatmap({ heatmap }: { heatmap: HeatmapStat[] }) {
+  const { grid, max } = useMemo(() => {
+    const cells: number[][] = WEEKDAYS.map(() => Array(24).fill(0))
+    heatmap.forEach(h => { cells[h.dow - 1][h.hour] = h.seconds })
+    return { grid: cells, max: Math.max(...heatmap.map(h => h.seconds), 1) }
+  }, [heatmap])
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Grid3x3 className="w-4 h-4 text-indigo-500" />
+        <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Working Hours Heatmap</h2>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[480px] space-y-1">
+          {grid.map((row, d) => (
+            <div key={d} className="flex items-center gap-1">
+              <span className="w-8 shrink-0 text-[10px] text-neutral-400">{WEEKDAYS[d]}</span>
+              {row.map((seconds, h) => (
+                <div
+                  key={h}
+                  className="flex-1 aspect-square rounded-sm bg-neutral-100 dark:bg-neutral-800"
+                  title={`${WEEKDAYS[d]} ${h.toString().padStart(2, '0')}:00 - ${(seconds / 3600).toFixed(1)}h`}
+                >
+                  {seconds > 0 && (
+                    <div
+                      className="w-full h-full rounded-sm bg-indigo-500"
+                      style={{ opacity: 0.15 + 0.85 * (seconds / max) }}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+          <div className="flex items-center gap-1">
+            <span className="w-8 shrink-0" />
+            {HOURS.map(h => (
+              <span key={h} className="flex-1 text-center text-[9px] text-neutral-400">
+                {h % 3 === 0 ? h : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
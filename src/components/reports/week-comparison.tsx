@@ -0,0 +1,64 @@
+'use client'
+
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { WeeklyStat } from '@/lib/team-report-stats'
+
+const MAX_WEEKS = 8
+
+const formatHours = (seconds: number) => `${(seconds / 3600).toFixed(1)}h`
+
+// Latest week against the one before it, plus the recent weekly trend
+export default function WeekComparison({ weekly }: { weekly: WeeklyStat[] }) {
+  const weeks = weekly.slice(-MAX_WEEKS)
+  const current = weeks[weeks.length - 1]
+  const previous = weeks[weeks.length - 2]
+  const max = Math.max(...weeks.map(w => w.seconds), 1)
+
+  const change = current && previous && previous.seconds > 0
+    ? ((current.seconds - previous.seconds) / previous.seconds) * 100
+    : null
+
+  const TrendIcon = change === null || Math.abs(change) < 1 ? Minus : change > 0 ? TrendingUp : TrendingDown
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm p-6 flex flex-col">
+      <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Week over Week</h2>
+
+      {!current ? (
+        <p className="flex-1 flex items-center justify-center text-sm text-neutral-500 py-12">No weekly data yet.</p>
+      ) : (
+        <>
+          <div className="mt-4 flex items-end gap-3">
+            <span className="text-3xl font-bold text-neutral-900 dark:text-neutral-50">{formatHours(current.seconds)}</span>
+            {change !== null && (
+              <span className={cn(
+                "flex items-center gap-1 text-sm font-semibold mb-1",
+                change > 0 ? "text-emerald-600" : change < 0 ? "text-rose-600" : "text-neutral-500"
+              )}>
+                <TrendIcon className="w-4 h-4" />
+                {change > 0 ? '+' : ''}{change.toFixed(0)}%
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-neutral-500 mt-1">
+            Week of {current.week_start}
+            {previous && <> vs {formatHours(previous.seconds)} the week of {previous.week_start}</>}
+          </p>
+
+          <div className="h-28 mt-6 flex items-end gap-2">
+            {weeks.map((w, i) => (
+              <div key={w.week_start} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                <div
+                  className={cn("w-full rounded-t", i === weeks.length - 1 ? "bg-indigo-500" : "bg-indigo-200 dark:bg-indigo-900/50")}
+                  style={{ height: `${(w.seconds / max) * 100}%` }}
+                  title={`Week of ${w.week_start}: ${formatHours(w.seconds)}`}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
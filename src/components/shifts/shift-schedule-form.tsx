@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { X, Loader2, Save, Moon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type Shift, WEEKDAY_LABELS, formatShiftTime } from '@/lib/shifts'
+
+// --- Types ---
+
+interface DayRow {
+  enabled: boolean
+  start: string
+  end: string
+}
+
+interface ShiftScheduleFormProps {
+  workspaceId: string
+  member: { user_id: string, full_name: string }
+  shifts: Shift[] // the member's current schedule
+  timeZone: string // the member's zone; shift times are entered in it
+  onClose: () => void
+  onSaved: () => void
+}
+
+const timeInputClass = "px-2 py-1.5 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100 disabled:opacity-40"
+
+// --- Component ---
+
+export default function ShiftScheduleForm({ workspaceId, member, shifts, timeZone, onClose, onSaved }: ShiftScheduleFormProps) {
+  const [days, setDays] = useState<DayRow[]>(() =>
+    WEEKDAY_LABELS.map((_, i) => {
+      const shift = shifts.find(s => s.weekday === i + 1)
+      return shift
+        ? { enabled: true, start: formatShiftTime(shift.start_time), end: formatShiftTime(shift.end_time) }
+        : { enabled: false, start: '09:00', end: '17:00' }
+    })
+  )
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const updateDay = (index: number, patch: Partial<DayRow>) =>
+    setDays(current => current.map((d, i) => i === index ? { ...d, ...patch } : d))
+
+  // Weekdays only, 09:00 - 17:00
+  const applyOfficeHours = () =>
+    setDays(WEEKDAY_LABELS.map((_, i) => ({ enabled: i < 5, start: '09:00', end: '17:00' })))
+
+  const handleSave = async () => {
+    setError(null)
+
+    if (days.some(d => d.enabled && (!d.start || !d.end || d.start === d.end))) {
+      setError('Each scheduled day needs a start and an end time.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const enabled = days
+        .map((d, i) => ({ ...d, weekday: i + 1 }))
+        .filter(d => d.enabled)
+
+      // The whole week is replaced at once
+      const { error: saveError } = await supabase.rpc('set_member_shifts', {
+        target_workspace: workspaceId,
+        target_user: member.user_id,
+        schedule: enabled.map(d => ({ weekday: d.weekday, start_time: d.start, end_time: d.end }))
+      })
+
+      if (saveError) throw saveError
+
+      onSaved()
+      onClose()
+    } catch (err) {
+      console.error('Error saving shifts:', err)
+      setError('Failed to save the schedule. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div>
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">
+              Shift Schedule &middot; {member.full_name}
+            </h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+              When {member.full_name} is expected to work each week. Times are in {timeZone}.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Days */}
+        <div className="p-6 space-y-2">
+          {days.map((day, i) => (
+            <div key={WEEKDAY_LABELS[i]} className="flex items-center gap-3">
+              <label className="flex items-center gap-2 w-20 text-sm font-medium text-neutral-700 dark:text-neutral-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="accent-indigo-600"
+                  checked={day.enabled}
+                  onChange={(e) => updateDay(i, { enabled: e.target.checked })}
+                />
+                {WEEKDAY_LABELS[i]}
+              </label>
+              <input type="time" className={timeInputClass} value={day.start} disabled={!day.enabled} onChange={(e) => updateDay(i, { start: e.target.value })} />
+              <span className="text-neutral-400">-</span>
+              <input type="time" className={timeInputClass} value={day.end} disabled={!day.enabled} onChange={(e) => updateDay(i, { end: e.target.value })} />
+              <Moon
+                className={cn("w-3.5 h-3.5 text-indigo-400", !(day.enabled && day.end < day.start) && "invisible")}
+                aria-label="Ends the next day"
+              />
+            </div>
+          ))}
+
+          <button
+            onClick={applyOfficeHours}
+            className="text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline pt-2"
+          >
+            Use Mon - Fri, 09:00 - 17:00
+          </button>
+
+          {error && (
+            <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-neutral-100 dark:border-neutral-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Schedule
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { X, FileText, FileArchive, File as FileIcon, Download, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  type TaskAttachment, ATTACHMENT_BUCKET, ATTACHMENT_SIGNED_URL_SECONDS, attachmentKind, formatBytes
+} from '@/lib/task-attachments'
+
+// --- Types ---
+
+interface TaskAttachmentsProps {
+  attachments: TaskAttachment[]
+  onRemove?: (attachment: TaskAttachment) => void // pending files only
+  compact?: boolean
+}
+
+// Inline previews only for images stored as what their name says.
+// Everything else, PDFs included, opens in the browser's own tab
+const isPreviewable = (attachment: TaskAttachment) =>
+  attachmentKind(attachment.file_name) === 'image' && !!attachment.content_type?.startsWith('image/')
+
+// --- Component ---
+
+export default function TaskAttachments({ attachments, onRemove, compact = false }: TaskAttachmentsProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+  const [previewing, setPreviewing] = useState<TaskAttachment | null>(null)
+
+  const supabase = createClient()
+  const pathKey = attachments.map(a => a.path).join('|')
+
+  // Short-lived links to the private files
+  useEffect(() => {
+    let isMounted = true
+
+    const sign = async () => {
+      const paths = pathKey ? pathKey.split('|') : []
+      if (paths.length === 0) return
+
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrls(paths, ATTACHMENT_SIGNED_URL_SECONDS)
+
+      if (error) console.error('Error signing attachment links:', error)
+      if (isMounted) {
+        setUrls(Object.fromEntries((data || []).filter(s => s.signedUrl).map(s => [s.path, s.signedUrl])))
+      }
+    }
+    sign()
+
+    return () => { isMounted = false }
+  }, [supabase, pathKey])
+
+  if (attachments.length === 0) return null
+
+  const previewUrl = previewing ? urls[previewing.path] : null
+
+  return (
+    <>
+      <div className={cn("flex flex-wrap gap-2", compact && "gap-1.5")}>
+        {attachments.map(attachment => {
+          const kind = attachmentKind(attachment.file_name)
+          const url = urls[attachment.path]
+          const previewable = isPreviewable(attachment)
+          const Icon = kind === 'pdf' ? FileText : kind === 'archive' ? FileArchive : FileIcon
+
+          return (
+            <div key={attachment.id} className="group relative">
+              <button
+                onClick={() => {
+                  if (!url) return
+                  if (previewable) setPreviewing(attachment)
+                  else window.open(url, '_blank', 'noopener,noreferrer')
+                }}
+                title={`${attachment.file_name} (${formatBytes(attachment.size_bytes)})`}
+                className={cn(
+                  "flex items-center gap-2 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 hover:border-indigo-300 dark:hover:border-indigo-700 transition-colors text-left overflow-hidden",
+                  compact ? "max-w-[160px] pr-2" : "max-w-[220px] pr-3"
+                )}
+              >
+                {previewable && url ? (
+                  <img src={url} alt={attachment.file_name} className={cn("object-cover shrink-0", compact ? "w-8 h-8" : "w-10 h-10")} />
+                ) : (
+                  <span className={cn("flex items-center justify-center shrink-0 bg-neutral-100 dark:bg-neutral-700 text-neutral-500 dark:text-neutral-300", compact ? "w-8 h-8" : "w-10 h-10")}>
+                    <Icon className="w-4 h-4" />
+                  </span>
+                )}
+                <span className="min-w-0">
+                  <span className="block text-xs font-medium text-neutral-700 dark:text-neutral-200 truncate">{attachment.file_name}</span>
+                  {!compact && <span className="block text-[10px] text-neutral-400">{formatBytes(attachment.size_bytes)}</span>}
+                </span>
+              </button>
+
+              {onRemove && !attachment.submission_event_id && (
+                <button
+                  onClick={() => onRemove(attachment)}
+                  className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-700 text-neutral-400 hover:text-rose-500 shadow-sm"
+                  title="Remove file"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Preview Modal */}
+      {previewing && previewUrl && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-neutral-900/70 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={() => setPreviewing(null)}>
+          <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-neutral-100 dark:border-neutral-800">
+              <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">{previewing.file_name}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <a href={previewUrl} target="_blank" rel="noopener noreferrer" className="p-1.5 rounded text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800" title="Open in new tab">
+                  <Download className="w-4 h-4" />
+                </a>
+                <button onClick={() => setPreviewing(null)} className="p-1.5 rounded text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 min-h-0 bg-neutral-50 dark:bg-neutral-950 flex items-center justify-center">
+              <img src={previewUrl} alt={previewing.file_name} className="max-w-full max-h-[80vh] object-contain" />
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState } from 'react'
+import { GripVertical, ExternalLink, MessageSquare } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  type TaskActor, type TaskPriority, type TaskStatus,
+  TASK_STATUSES, TASK_STATUS_LABELS, findTransition
+} from '@/lib/tasks'
+
+// --- Types ---
+
+export interface BoardTask {
+  id: string
+  title: string
+  status: TaskStatus
+  priority: TaskPriority
+  assigned_to: string | null
+  assignee_name?: string // shown on the workspace board
+  proof_link?: string | null
+  unread?: number // comments the viewer hasn't read
+}
+
+interface TaskBoardProps {
+  tasks: BoardTask[]
+  actorsFor: (task: BoardTask) => TaskActor[]
+  onMove: (task: BoardTask, to: TaskStatus) => void
+}
+
+const COLUMN_ACCENTS: Record<TaskStatus, string> = {
+  todo: 'bg-neutral-400',
+  in_progress: 'bg-indigo-500',
+  submitted: 'bg-amber-500',
+  approved: 'bg-emerald-500',
+  rejected: 'bg-rose-500'
+}
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  high: 'text-rose-700 bg-rose-50 border-rose-200 dark:bg-rose-900/20 dark:text-rose-300 dark:border-rose-900/50',
+  medium: 'text-amber-700 bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-900/50',
+  low: 'text-emerald-700 bg-emerald-50 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-300 dark:border-emerald-900/50'
+}
+
+// --- Component ---
+
+export default function TaskBoard({ tasks, actorsFor, onMove }: TaskBoardProps) {
+  const [dragging, setDragging] = useState<BoardTask | null>(null)
+  const [overColumn, setOverColumn] = useState<TaskStatus | null>(null)
+
+  // Only columns the dragged card may move to accept the drop
+  const accepts = (status: TaskStatus) =>
+    !!dragging && !!findTransition(dragging.status, status, actorsFor(dragging))
+
+  const endDrag = () => {
+    setDragging(null)
+    setOverColumn(null)
+  }
+
+  const handleDrop = (status: TaskStatus) => {
+    const task = dragging
+    endDrag()
+    if (task && accepts(status)) onMove(task, status)
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4 items-start">
+      {TASK_STATUSES.map(status => {
+        const column = tasks.filter(t => t.status === status)
+        const canDrop = accepts(status)
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              if (!canDrop) return
+              e.preventDefault()
+              setOverColumn(status)
+            }}
+            onDragLeave={() => setOverColumn(current => current === status ? null : current)}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop(status)
+            }}
+            className={cn(
+              "rounded-xl border bg-neutral-50/60 dark:bg-neutral-900/60 flex flex-col min-h-[240px] transition-colors",
+              overColumn === status
+                ? "border-indigo-400 bg-indigo-50/60 dark:border-indigo-600 dark:bg-indigo-900/20"
+                : "border-neutral-200 dark:border-neutral-800",
+              dragging && !canDrop && dragging.status !== status && "opacity-50"
+            )}
+          >
+            {/* Column Header */}
+            <div className="flex items-center gap-2 px-3 py-2.5 border-b border-neutral-200 dark:border-neutral-800">
+              <span className={cn("w-2 h-2 rounded-full", COLUMN_ACCENTS[status])} />
+              <span className="text-xs font-bold uppercase tracking-wider text-neutral-600 dark:text-neutral-300">
+                {TASK_STATUS_LABELS[status]}
+              </span>
+              <span className="ml-auto text-xs font-mono text-neutral-400">{column.length}</span>
+            </div>
+
+            {/* Cards */}
+            <div className="p-2 space-y-2 flex-1">
+              {column.map(task => {
+                const movable = TASK_STATUSES.some(to => findTransition(task.status, to, actorsFor(task)))
+
+                return (
+                  <div
+                    key={task.id}
+                    draggable={movable}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move'
+                      e.dataTransfer.setData('text/plain', task.id)
+                      setDragging(task)
+                    }}
+                    onDragEnd={endDrag}
+                    className={cn(
+                      "group bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg p-3 shadow-sm transition-all",
+                      movable ? "cursor-grab active:cursor-grabbing hover:border-neutral-300 dark:hover:border-neutral-600" : "cursor-default",
+                      dragging?.id === task.id && "opacity-40"
+                    )}
+                  >
+                    <div className="flex items-start gap-2">
+                      {movable && <GripVertical className="w-3.5 h-3.5 mt-0.5 text-neutral-300 dark:text-neutral-600 shrink-0" />}
+                      <p className="flex-1 text-sm font-medium text-neutral-800 dark:text-neutral-200 leading-snug line-clamp-3">
+                        {task.title}
+                      </p>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 mt-2">
+                      <span className={cn("text-[10px] uppercase font-bold px-1.5 py-0.5 rounded border", PRIORITY_STYLES[task.priority])}>
+                        {task.priority}
+                      </span>
+                      {task.assignee_name && (
+                        <span className="text-[11px] text-neutral-500 dark:text-neutral-400 truncate">{task.assignee_name}</span>
+                      )}
+                      {!!task.unread && (
+                        <span className="flex items-center gap-0.5 text-[10px] font-bold text-indigo-600 dark:text-indigo-400 shrink-0" title="Unread comments">
+                          <MessageSquare className="w-3 h-3" />
+                          {task.unread}
+                        </span>
+                      )}
+                      {task.proof_link && (
+                        <a href={task.proof_link} target="_blank" rel="noopener noreferrer" title="View submitted work" className="text-indigo-500 hover:text-indigo-600 shrink-0">
+                          <ExternalLink className="w-3.5 h-3.5" />
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
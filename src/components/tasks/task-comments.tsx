@@ -0,0 +1,298 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { X, Loader2, Send, Trash2, MessageSquare } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { can, isWorkspaceRole } from '@/lib/permissions'
+import {
+  type MentionCandidate, type TaskComment, COMMENT_MAX_LENGTH, extractMentions, splitMentions
+} from '@/lib/task-comments'
+
+// --- Types ---
+
+interface TaskCommentsProps {
+  taskId: string
+  taskTitle: string
+  workspaceId: string
+  assignedTo: string | null
+  userId: string
+  onClose: () => void
+}
+
+interface MemberRow {
+  user_id: string
+  role: string | null
+  profiles: { full_name: string | null } | null
+}
+
+interface NameRow {
+  id: string
+  full_name: string | null
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+// "@que" right before the caret, if the user is typing a mention
+const mentionQueryAt = (text: string, caret: number) => {
+  const match = /(?:^|\s)@([^@\n]{0,30})$/.exec(text.slice(0, caret))
+  return match ? match[1] : null
+}
+
+// --- Component ---
+
+export default function TaskComments({ taskId, taskTitle, workspaceId, assignedTo, userId, onClose }: TaskCommentsProps) {
+  const [comments, setComments] = useState<TaskComment[]>([])
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [participants, setParticipants] = useState<MentionCandidate[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [draft, setDraft] = useState('')
+  const [picked, setPicked] = useState<MentionCandidate[]>([])
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null)
+  const [sending, setSending] = useState(false)
+
+  const inputRef = useRef<HTMLTextAreaElement | null>(null)
+  const bottomRef = useRef<HTMLDivElement | null>(null)
+  const supabase = createClient()
+
+  // 1. Thread, people who can take part, and the read marker
+  useEffect(() => {
+    let isMounted = true
+
+    const load = async () => {
+      const [{ data: commentData, error }, { data: memberData }] = await Promise.all([
+        supabase.from('task_comments').select('*').eq('task_id', taskId).order('created_at', { ascending: true }),
+        supabase.from('workspace_members').select('user_id, role, profiles:user_id ( full_name )').eq('workspace_id', workspaceId)
+      ])
+
+      if (error) console.error('Error fetching comments:', error)
+      const rows = (commentData || []) as TaskComment[]
+      const members = (memberData || []) as unknown as MemberRow[]
+
+      // The assignee and whoever manages tasks
+      const people = members
+        .filter(m => m.user_id === assignedTo || (isWorkspaceRole(m.role) && can(m.role, 'manage_tasks')))
+        .map(m => ({ id: m.user_id, full_name: m.profiles?.full_name || 'Unknown' }))
+
+      const lookup: Record<string, string> = {}
+      members.forEach(m => { lookup[m.user_id] = m.profiles?.full_name || 'Unknown' })
+
+      // Authors who have since left the workspace
+      const missing = Array.from(new Set(rows.map(c => c.author_id))).filter(id => !lookup[id])
+      if (missing.length > 0) {
+        const { data: profiles } = await supabase.from('profiles').select('id, full_name').in('id', missing)
+        const former = (profiles || []) as NameRow[]
+        former.forEach(p => { lookup[p.id] = p.full_name || 'Unknown' })
+      }
+
+      await supabase.rpc('mark_task_comments_read', { target_task: taskId })
+
+      if (isMounted) {
+        setComments(rows)
+        setNames(lookup)
+        setParticipants(people.filter(p => p.id !== userId))
+        setLoading(false)
+      }
+    }
+    load()
+
+    return () => { isMounted = false }
+  }, [supabase, taskId, workspaceId, assignedTo, userId])
+
+  // 2. Realtime: new comments land while the thread is open
+  useEffect(() => {
+    const channel = supabase
+      .channel(`task-comments-${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'task_comments', filter: `task_id=eq.${taskId}` },
+        (payload) => {
+          const comment = payload.new as TaskComment
+          setComments(prev => prev.some(c => c.id === comment.id) ? prev : [...prev, comment])
+          supabase.rpc('mark_task_comments_read', { target_task: taskId }).then()
+        }
+      )
+      .subscribe()
+
+    return () => { supabase.removeChannel(channel) }
+  }, [supabase, taskId])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' })
+  }, [comments.length])
+
+  // 3. Composer
+  const suggestions = mentionQuery === null
+    ? []
+    : participants.filter(p => p.full_name.toLowerCase().startsWith(mentionQuery.toLowerCase())).slice(0, 5)
+
+  const handleDraftChange = (value: string, caret: number) => {
+    setDraft(value)
+    setMentionQuery(mentionQueryAt(value, caret))
+  }
+
+  const insertMention = (person: MentionCandidate) => {
+    const input = inputRef.current
+    const caret = input ? input.selectionStart : draft.length
+    const before = draft.slice(0, caret).replace(/@([^@\n]{0,30})$/, `@${person.full_name} `)
+    const next = before + draft.slice(caret)
+
+    setDraft(next)
+    setPicked(prev => prev.some(p => p.id === person.id) ? prev : [...prev, person])
+    setMentionQuery(null)
+    requestAnimationFrame(() => {
+      input?.focus()
+      input?.setSelectionRange(before.length, before.length)
+    })
+  }
+
+  const handleSend = async () => {
+    const body = draft.trim()
+    if (!body || sending) return
+
+    setSending(true)
+    const { data, error } = await supabase
+      .from('task_comments')
+      .insert({ task_id: taskId, workspace_id: workspaceId, author_id: userId, body, mentions: extractMentions(body, picked) })
+      .select()
+      .maybeSingle()
+    setSending(false)
+
+    if (error) {
+      console.error('Error posting comment:', error)
+      alert('Failed to post the comment.')
+      return
+    }
+    if (data) {
+      const comment = data as TaskComment
+      setComments(prev => prev.some(c => c.id === comment.id) ? prev : [...prev, comment])
+    }
+    setDraft('')
+    setPicked([])
+    setMentionQuery(null)
+  }
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!confirm('Delete this comment?')) return
+
+    const { error } = await supabase.from('task_comments').delete().eq('id', comment.id)
+    if (error) {
+      console.error('Error deleting comment:', error)
+      alert('Failed to delete the comment.')
+      return
+    }
+    setComments(prev => prev.filter(c => c.id !== comment.id))
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-lg h-[80vh] flex flex-col bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div className="min-w-0">
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">Discussion</h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1 truncate">{taskTitle}</p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Thread */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-neutral-400" />
+            </div>
+          ) : comments.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-neutral-400 space-y-2">
+              <MessageSquare className="w-8 h-8 stroke-1" />
+              <span className="text-sm">No comments yet. Start the conversation.</span>
+            </div>
+          ) : (
+            comments.map(comment => {
+              const mine = comment.author_id === userId
+              const mentioned = comment.mentions.map(id => names[id]).filter(Boolean)
+
+              return (
+                <div key={comment.id} className={cn("group flex flex-col", mine ? "items-end" : "items-start")}>
+                  <div className="flex items-center gap-2 text-xs text-neutral-400 mb-1">
+                    <span className="font-medium text-neutral-600 dark:text-neutral-300">{mine ? 'You' : names[comment.author_id] || 'Unknown'}</span>
+                    <span>{formatWhen(comment.created_at)}</span>
+                    {mine && (
+                      <button onClick={() => handleDelete(comment)} className="opacity-0 group-hover:opacity-100 hover:text-rose-500 transition-opacity" title="Delete comment">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  <p className={cn(
+                    "max-w-[85%] px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words",
+                    mine
+                      ? "bg-indigo-600 text-white rounded-br-sm"
+                      : "bg-neutral-100 dark:bg-neutral-800 text-neutral-800 dark:text-neutral-200 rounded-bl-sm"
+                  )}>
+                    {splitMentions(comment.body, mentioned).map((part, i) => (
+                      <span key={i} className={cn(part.mention && (mine ? "font-semibold underline underline-offset-2" : "font-semibold text-indigo-600 dark:text-indigo-400"))}>
+                        {part.text}
+                      </span>
+                    ))}
+                  </p>
+                </div>
+              )
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {/* Composer */}
+        <div className="relative p-4 border-t border-neutral-100 dark:border-neutral-800">
+          {suggestions.length > 0 && (
+            <ul className="absolute bottom-full left-4 mb-1 w-64 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg shadow-lg py-1 z-10">
+              {suggestions.map(person => (
+                <li key={person.id}>
+                  <button
+                    onMouseDown={(e) => { e.preventDefault(); insertMention(person) }}
+                    className="w-full text-left px-3 py-1.5 text-sm text-neutral-700 dark:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                  >
+                    @{person.full_name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2 items-end">
+            <textarea
+              ref={inputRef}
+              rows={2}
+              value={draft}
+              maxLength={COMMENT_MAX_LENGTH}
+              onChange={(e) => handleDraftChange(e.target.value, e.target.selectionStart)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  if (suggestions.length > 0) insertMention(suggestions[0])
+                  else handleSend()
+                }
+                if (e.key === 'Escape') setMentionQuery(null)
+              }}
+              placeholder="Write a comment... Use @ to mention someone"
+              className="flex-1 resize-none px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100 placeholder:text-neutral-400"
+            />
+            <button
+              onClick={handleSend}
+              disabled={sending || !draft.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white p-2.5 rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Send"
+            >
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
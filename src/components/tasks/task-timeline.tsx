@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  X, Loader2, Plus, Play, Send, RefreshCw, Check, XCircle, UserRoundCog, Flag, ExternalLink
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type TaskEvent, type TaskStatus, TASK_STATUS_LABELS } from '@/lib/tasks'
+import type { TaskAttachment } from '@/lib/task-attachments'
+import TaskAttachments from '@/components/tasks/task-attachments'
+
+// --- Types ---
+
+interface TaskTimelineProps {
+  taskId: string
+  taskTitle: string
+  onClose: () => void
+}
+
+interface NameRow {
+  id: string
+  full_name: string | null
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+// Icon, colour and wording for one event
+function describe(event: TaskEvent, nameOf: (id: string | null) => string) {
+  switch (event.kind) {
+    case 'created':
+      return { Icon: Plus, accent: 'bg-neutral-400', text: `Created and assigned to ${nameOf(event.to_value)}` }
+    case 'reassigned':
+      return { Icon: UserRoundCog, accent: 'bg-sky-500', text: `Reassigned from ${nameOf(event.from_value)} to ${nameOf(event.to_value)}` }
+    case 'priority':
+      return { Icon: Flag, accent: 'bg-amber-500', text: `Priority changed from ${event.from_value} to ${event.to_value}` }
+  }
+
+  switch (event.to_value as TaskStatus) {
+    case 'in_progress':
+      return { Icon: Play, accent: 'bg-indigo-500', text: 'Started' }
+    case 'submitted':
+      return event.from_value === 'rejected'
+        ? { Icon: RefreshCw, accent: 'bg-amber-500', text: 'Resubmitted' }
+        : { Icon: Send, accent: 'bg-amber-500', text: 'Submitted' }
+    case 'approved':
+      return { Icon: Check, accent: 'bg-emerald-500', text: 'Approved' }
+    case 'rejected':
+      return { Icon: XCircle, accent: 'bg-rose-500', text: 'Rejected' }
+    default:
+      return { Icon: Flag, accent: 'bg-neutral-400', text: `Moved to ${TASK_STATUS_LABELS[event.to_value as TaskStatus] ?? event.to_value}` }
+  }
+}
+
+// --- Component ---
+
+export default function TaskTimeline({ taskId, taskTitle, onClose }: TaskTimelineProps) {
+  const [events, setEvents] = useState<TaskEvent[]>([])
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [files, setFiles] = useState<TaskAttachment[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const supabase = createClient()
+
+  useEffect(() => {
+    let isMounted = true
+
+    const load = async () => {
+      // 1. The task's history, oldest first, and the files handed in along the way
+      const [{ data, error }, { data: fileData }] = await Promise.all([
+        supabase.from('task_events').select('*').eq('task_id', taskId).order('created_at', { ascending: true }),
+        supabase.from('task_attachments').select('*').eq('task_id', taskId).not('submission_event_id', 'is', null)
+      ])
+
+      if (error) console.error('Error fetching task history:', error)
+      const rows = (data || []) as TaskEvent[]
+
+      // 2. Names for actors and reassignments
+      const ids = new Set<string>()
+      rows.forEach(e => {
+        if (e.actor_id) ids.add(e.actor_id)
+        if (e.kind === 'created' || e.kind === 'reassigned') {
+          if (e.from_value) ids.add(e.from_value)
+          if (e.to_value) ids.add(e.to_value)
+        }
+      })
+
+      const lookup: Record<string, string> = {}
+      if (ids.size > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, full_name')
+          .in('id', Array.from(ids))
+
+        const people = (profiles || []) as NameRow[]
+        people.forEach(p => { lookup[p.id] = p.full_name || 'Unknown' })
+      }
+
+      if (isMounted) {
+        setEvents(rows)
+        setNames(lookup)
+        setFiles((fileData || []) as TaskAttachment[])
+        setLoading(false)
+      }
+    }
+    load()
+
+    return () => { isMounted = false }
+  }, [supabase, taskId])
+
+  const nameOf = (id: string | null) => (id ? names[id] || 'a former member' : 'nobody')
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4 p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div className="min-w-0">
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">Task History</h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1 truncate">{taskTitle}</p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-neutral-400" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 py-4 text-center">No history recorded yet.</p>
+          ) : (
+            <ol className="relative border-l border-neutral-200 dark:border-neutral-800 ml-3 space-y-5">
+              {events.map(event => {
+                const { Icon, accent, text } = describe(event, nameOf)
+
+                return (
+                  <li key={event.id} className="ml-6">
+                    <span className={cn("absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white dark:ring-neutral-900 text-white", accent)}>
+                      <Icon className="w-3 h-3" />
+                    </span>
+                    <p className="text-sm font-medium text-neutral-800 dark:text-neutral-200">{text}</p>
+                    <p className="text-xs text-neutral-400 mt-0.5">
+                      {event.actor_id ? nameOf(event.actor_id) : 'System'} &middot; {formatWhen(event.created_at)}
+                    </p>
+
+                    {event.proof_link && (
+                      <a href={event.proof_link} target="_blank" rel="noopener noreferrer" className="mt-1.5 flex items-center gap-1.5 text-xs text-indigo-600 dark:text-indigo-400 hover:underline">
+                        <ExternalLink className="w-3 h-3 shrink-0" />
+                        <span className="truncate">{event.proof_link}</span>
+                      </a>
+                    )}
+                    {files.some(f => f.submission_event_id === event.id) && (
+                      <div className="mt-1.5">
+                        <TaskAttachments attachments={files.filter(f => f.submission_event_id === event.id)} compact />
+                      </div>
+                    )}
+                    {event.feedback && (
+                      <p className="mt-1.5 text-xs text-rose-600 dark:text-rose-400 bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-900/30 rounded-md px-2.5 py-1.5 leading-relaxed">
+                        &quot;{event.feedback}&quot;
+                      </p>
+                    )}
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { Download, Loader2, FileSpreadsheet, FileText, ChevronDown, type LucideIcon } from 'lucide-react'
+import { downloadFile } from '@/lib/utils'
+import type { ExportFormat } from '@/lib/export/report'
+
+interface ExportMenuProps {
+  workspaceId: string
+  scope: 'me' | 'team'
+  from?: string // ISO, inclusive
+  to?: string   // ISO, exclusive
+  employee?: string
+  timeZone: string // days and times in the export use this zone
+}
+
+const OPTIONS: { format: ExportFormat, label: string, icon: LucideIcon }[] = [
+  { format: 'csv', label: 'CSV', icon: FileText },
+  { format: 'xlsx', label: 'Excel (XLSX)', icon: FileSpreadsheet },
+  { format: 'pdf', label: 'Printable PDF', icon: FileText }
+]
+
+export default function ExportMenu({ workspaceId, scope, from, to, employee, timeZone }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false)
+    setExporting(true)
+
+    try {
+      const params = new URLSearchParams({
+        workspace: workspaceId,
+        format,
+        scope,
+        tz: timeZone
+      })
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (employee) params.set('employee', employee)
+
+      await downloadFile(`/api/export?${params.toString()}`, `timesheet.${format}`)
+    } catch (err) {
+      console.error('Export error:', err)
+      alert(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={exporting}
+        className="flex items-center gap-2 bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-700 text-neutral-700 dark:text-neutral-200 px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+      >
+        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        Export
+        <ChevronDown className="w-3.5 h-3.5 opacity-60" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-48 z-20 bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-lg shadow-lg py-1">
+            {OPTIONS.map(({ format, label, icon: Icon }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-neutral-700 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+              >
+                <Icon className="w-4 h-4 text-neutral-400" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { X, Loader2, Save } from 'lucide-react'
+import type { HourLimits } from '@/lib/hour-limits'
+
+// --- Types ---
+
+interface HourLimitFormProps {
+  workspaceId: string
+  member: HourLimits & { user_id: string, full_name: string }
+  onClose: () => void
+  onSaved: () => void
+}
+
+const inputClass = "w-24 px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
+
+// Blank means no limit; undefined means invalid
+const parseHours = (value: string, max: number) => {
+  if (!value.trim()) return null
+  const hours = parseFloat(value)
+  if (isNaN(hours) || hours <= 0 || hours > max) return undefined
+  return Math.round(hours * 100) / 100
+}
+
+// --- Component ---
+
+export default function HourLimitForm({ workspaceId, member, onClose, onSaved }: HourLimitFormProps) {
+  const [daily, setDaily] = useState(member.daily_hour_limit?.toString() || '')
+  const [weekly, setWeekly] = useState(member.weekly_hour_limit?.toString() || '')
+  const [autoStop, setAutoStop] = useState(member.auto_stop_at_limit)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+
+  const handleSave = async () => {
+    setError(null)
+
+    const dailyHours = parseHours(daily, 24)
+    const weeklyHours = parseHours(weekly, 168)
+
+    if (dailyHours === undefined || weeklyHours === undefined) {
+      setError('Limits must be between 0 and 24 hours a day, or 168 hours a week.')
+      return
+    }
+
+    setSaving(true)
+    const { error: updateError } = await supabase.rpc('set_member_hour_limits', {
+      target_workspace: workspaceId,
+      target_user: member.user_id,
+      daily_hours: dailyHours,
+      weekly_hours: weeklyHours,
+      auto_stop: autoStop
+    })
+
+    setSaving(false)
+
+    if (updateError) {
+      console.error('Error saving hour limits:', updateError)
+      setError('Failed to save the limits. Please try again.')
+      return
+    }
+
+    onSaved()
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-sm bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div>
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">
+              Hour Limits &middot; {member.full_name}
+            </h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+              You&apos;ll be notified when a limit is passed. Leave blank for no limit.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Fields */}
+        <div className="p-6 space-y-4">
+          <label className="flex items-center justify-between gap-4 text-sm font-medium text-neutral-700 dark:text-neutral-300">
+            Hours per day
+            <input type="number" min={0} max={24} step={0.5} className={inputClass} value={daily} onChange={(e) => setDaily(e.target.value)} />
+          </label>
+
+          <label className="flex items-center justify-between gap-4 text-sm font-medium text-neutral-700 dark:text-neutral-300">
+            Hours per week
+            <input type="number" min={0} max={168} step={0.5} className={inputClass} value={weekly} onChange={(e) => setWeekly(e.target.value)} />
+          </label>
+
+          <label className="flex items-start gap-2 text-sm text-neutral-600 dark:text-neutral-400 cursor-pointer">
+            <input type="checkbox" className="accent-indigo-600 mt-0.5" checked={autoStop} onChange={(e) => setAutoStop(e.target.checked)} />
+            Stop the timer automatically when a limit is reached
+          </label>
+
+          {error && (
+            <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-neutral-100 dark:border-neutral-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Limits
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Loader2, Save } from 'lucide-react'
+
+// --- Types ---
+
+interface SessionNotesFormProps {
+  title: string
+  subtitle: string
+  initialNotes?: string | null
+  cancelLabel?: string
+  onSave: (notes: string) => Promise<boolean> // false keeps the form open
+  onClose: () => void
+}
+
+export const MAX_NOTES_LENGTH = 2000
+
+// --- Component ---
+
+export default function SessionNotesForm({ title, subtitle, initialNotes, cancelLabel = 'Cancel', onSave, onClose }: SessionNotesFormProps) {
+  const [notes, setNotes] = useState(initialNotes || '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    setError(null)
+    setSaving(true)
+    const saved = await onSave(notes.trim())
+    setSaving(false)
+
+    if (!saved) {
+      setError('Failed to save the notes. Please try again.')
+      return
+    }
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div>
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">{title}</h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">{subtitle}</p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Fields */}
+        <div className="p-6 space-y-2">
+          <textarea
+            autoFocus
+            rows={4}
+            maxLength={MAX_NOTES_LENGTH}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g. Fixed the login redirect, reviewed two pull requests"
+            className="w-full px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100 resize-none"
+          />
+          <p className="text-xs text-neutral-400 text-right">{notes.length} / {MAX_NOTES_LENGTH}</p>
+
+          {error && (
+            <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-neutral-100 dark:border-neutral-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            {cancelLabel}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Notes
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
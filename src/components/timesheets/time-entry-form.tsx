@@ -0,0 +1,223 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { X, Loader2, Send, Calendar, Clock, Briefcase } from 'lucide-react'
+import { type TimeLogSnapshot, toDateInput, toTimeInput, rangeFromInputs } from '@/lib/time-requests'
+
+// --- Types ---
+
+interface EditableLog extends TimeLogSnapshot {
+  id: string
+}
+
+interface TaskOption {
+  id: string
+  title: string
+}
+
+interface TimeEntryFormProps {
+  log?: EditableLog // present when requesting an edit, absent for a manual entry
+  timeZone: string // date and times are entered in this zone
+  onClose: () => void
+  onSubmitted: () => void
+}
+
+const inputClass = "w-full pl-9 pr-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100"
+
+// --- Component ---
+
+export default function TimeEntryForm({ log, timeZone, onClose, onSubmitted }: TimeEntryFormProps) {
+  const isEdit = !!log
+  const [date, setDate] = useState(toDateInput(log ? log.start_time : new Date().toISOString(), timeZone))
+  const [startTime, setStartTime] = useState(log ? toTimeInput(log.start_time, timeZone) : '09:00')
+  const [endTime, setEndTime] = useState(log ? toTimeInput(log.end_time, timeZone) : '17:00')
+  const [taskId, setTaskId] = useState<string>(log?.task_id || '')
+  const [reason, setReason] = useState('')
+  const [tasks, setTasks] = useState<TaskOption[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { workspaceId } = useWorkspace()
+  const supabase = createClient()
+
+  useEffect(() => {
+    if (!workspaceId) return
+    let isMounted = true
+
+    const loadTasks = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const { data } = await supabase
+        .from('tasks')
+        .select('id, title')
+        .eq('workspace_id', workspaceId)
+        .eq('assigned_to', user.id)
+        .order('created_at', { ascending: false })
+
+      if (isMounted && data) setTasks(data as TaskOption[])
+    }
+    loadTasks()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId])
+
+  const handleSubmit = async () => {
+    setError(null)
+
+    const { start, end } = rangeFromInputs(date, startTime, endTime, timeZone)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      setError('Please enter a valid date and time range.')
+      return
+    }
+    if (end <= start) {
+      setError('End time must be after start time.')
+      return
+    }
+    if (end.getTime() > Date.now()) {
+      setError('You can only log time that has already happened.')
+      return
+    }
+    if (!reason.trim()) {
+      setError('Please explain why this change is needed.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      if (!workspaceId) {
+        setError('You need to join a workspace before logging time.')
+        return
+      }
+
+      // Approved weeks are locked
+      const { data: lockedSheet } = await supabase
+        .from('timesheets')
+        .select('id')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', user.id)
+        .eq('status', 'approved')
+        .lte('period_start', start.toISOString())
+        .gt('period_end', start.toISOString())
+        .maybeSingle()
+
+      if (lockedSheet) {
+        setError('That week has already been approved and is locked.')
+        return
+      }
+
+      const { error: insertError } = await supabase.from('time_log_requests').insert({
+        workspace_id: workspaceId,
+        user_id: user.id,
+        time_log_id: log?.id || null,
+        kind: isEdit ? 'edit' : 'create',
+        proposed_start_time: start.toISOString(),
+        proposed_end_time: end.toISOString(),
+        task_id: taskId || null,
+        reason: reason.trim()
+      })
+
+      if (insertError) throw insertError
+
+      onSubmitted()
+      onClose()
+    } catch (err) {
+      console.error('Error submitting time request:', err)
+      setError('Failed to submit your request. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/40 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="w-full max-w-md bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-2xl shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-start justify-between p-6 border-b border-neutral-100 dark:border-neutral-800">
+          <div>
+            <h2 className="text-base font-bold text-neutral-900 dark:text-neutral-100">
+              {isEdit ? 'Request Time Edit' : 'Add Time Manually'}
+            </h2>
+            <p className="text-sm text-neutral-500 dark:text-neutral-400 mt-1">
+              Your workspace owner will review this before it counts toward your hours.
+              Times are in {timeZone}.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Fields */}
+        <div className="p-6 space-y-4">
+          <div className="relative">
+            <Calendar className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+            <input type="date" className={inputClass} value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Clock className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+              <input type="time" className={inputClass} value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <span className="text-neutral-400">-</span>
+            <div className="relative flex-1">
+              <Clock className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+              <input type="time" className={inputClass} value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          {endTime < startTime && (
+            <p className="-mt-2 text-xs text-neutral-500 dark:text-neutral-400">Ends the next day.</p>
+          )}
+
+          <div className="relative">
+            <Briefcase className="absolute left-3 top-2.5 w-4 h-4 text-neutral-400" />
+            <select className={inputClass} value={taskId} onChange={(e) => setTaskId(e.target.value)}>
+              <option value="">No specific task</option>
+              {tasks.map(t => (
+                <option key={t.id} value={t.id}>{t.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <textarea
+            rows={3}
+            placeholder={isEdit ? 'Why does this entry need to change?' : 'Why was this time not tracked? (e.g. forgot to clock in)'}
+            className="w-full px-3 py-2 bg-neutral-50 dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-neutral-900 dark:text-neutral-100 resize-none"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+
+          {error && (
+            <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-4 border-t border-neutral-100 dark:border-neutral-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-neutral-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            Submit for Approval
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
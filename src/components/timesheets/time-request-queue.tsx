@@ -0,0 +1,200 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { Check, X, Loader2, History, ClipboardCheck, ArrowRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { TimeLogRequest } from '@/lib/time-requests'
+
+// --- Types ---
+
+interface QueueRequest extends TimeLogRequest {
+  profiles: { full_name: string, avatar_url: string | null } | null
+}
+
+interface TimeRequestQueueProps {
+  workspaceId: string
+  timeZone: string
+  onReviewed?: () => void
+}
+
+// --- Helpers ---
+const formatWindow = (start: string, end: string, timeZone: string) =>
+  `${new Date(start).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone })}, ` +
+  `${new Date(start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })} - ` +
+  `${new Date(end).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}`
+
+const formatSpan = (start: string, end: string) => {
+  const seconds = Math.max(0, (new Date(end).getTime() - new Date(start).getTime()) / 1000)
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
+}
+
+// --- Component ---
+
+export default function TimeRequestQueue({ workspaceId, timeZone, onReviewed }: TimeRequestQueueProps) {
+  const { userId } = useWorkspace()
+  const [requests, setRequests] = useState<QueueRequest[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const supabase = createClient()
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadRequests = async () => {
+      const { data, error } = await supabase
+        .from('time_log_requests')
+        .select('*, profiles:user_id ( full_name, avatar_url )')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: false })
+        .limit(100)
+
+      if (error) console.error('Error loading time requests:', error)
+      if (isMounted && data) setRequests(data as unknown as QueueRequest[])
+    }
+    loadRequests()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, refreshKey])
+
+  const handleReview = async (request: QueueRequest, approve: boolean) => {
+    let comment: string | null = null
+    if (!approve) {
+      comment = prompt("Reason for rejection:")
+      if (comment === null) return // Cancelled
+    }
+
+    setProcessingId(request.id)
+    const { error } = await supabase.rpc('review_time_log_request', {
+      request_id: request.id,
+      approve,
+      comment
+    })
+    setProcessingId(null)
+
+    if (error) {
+      console.error('Error reviewing time request:', error)
+      alert("Failed to review request: " + error.message)
+      return
+    }
+
+    setRefreshKey(k => k + 1)
+    onReviewed?.()
+  }
+
+  // Your own requests go to someone else
+  const reviewable = requests.filter(r => r.user_id !== userId)
+  const pending = reviewable.filter(r => r.status === 'pending')
+  const reviewed = reviewable.filter(r => r.status !== 'pending')
+  const visible = showHistory ? reviewed : pending
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm">
+
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-neutral-100 dark:border-neutral-800 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4 text-indigo-500" />
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Time Requests</h2>
+          {pending.length > 0 && (
+            <span className="text-[10px] font-bold bg-amber-100 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400 px-2 py-0.5 rounded-full">
+              {pending.length} pending
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="flex items-center gap-1.5 text-xs font-medium text-neutral-500 hover:text-indigo-600 transition-colors"
+        >
+          <History className="w-3.5 h-3.5" />
+          {showHistory ? 'Show Pending' : 'Show History'}
+        </button>
+      </div>
+
+      {/* List */}
+      {visible.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-center text-neutral-500">
+          {showHistory ? 'No reviewed requests yet.' : 'No manual entries or edits waiting for review.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          {visible.map(req => (
+            <li key={req.id} className="px-6 py-4 flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium text-neutral-900 dark:text-neutral-100">
+                    {req.profiles?.full_name || 'Unknown User'}
+                  </span>
+                  <span className="text-[10px] uppercase font-bold text-neutral-500 bg-neutral-100 dark:bg-neutral-800 px-1.5 py-0.5 rounded">
+                    {req.kind === 'create' ? 'Manual Entry' : 'Edit'}
+                  </span>
+                </div>
+
+                {/* Original vs. proposed */}
+                <div className="flex flex-wrap items-center gap-2 text-xs font-mono">
+                  {req.original && (
+                    <>
+                      <span className="text-neutral-400 line-through">
+                        {formatWindow(req.original.start_time, req.original.end_time, timeZone)} ({formatSpan(req.original.start_time, req.original.end_time)})
+                      </span>
+                      <ArrowRight className="w-3 h-3 text-neutral-400" />
+                    </>
+                  )}
+                  <span className="text-neutral-700 dark:text-neutral-300">
+                    {formatWindow(req.proposed_start_time, req.proposed_end_time, timeZone)} ({formatSpan(req.proposed_start_time, req.proposed_end_time)})
+                  </span>
+                </div>
+
+                <p className="text-xs text-neutral-500 truncate">&quot;{req.reason}&quot;</p>
+                {req.review_comment && (
+                  <p className="text-xs text-rose-500">Feedback: {req.review_comment}</p>
+                )}
+              </div>
+
+              {req.status === 'pending' ? (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => handleReview(req, false)}
+                    disabled={processingId === req.id}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-rose-600 border border-rose-200 dark:border-rose-900/50 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors disabled:opacity-50"
+                  >
+                    <X className="w-3.5 h-3.5" /> Reject
+                  </button>
+                  <button
+                    onClick={() => handleReview(req, true)}
+                    disabled={processingId === req.id}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-emerald-600 hover:bg-emerald-700 text-white transition-colors disabled:opacity-50"
+                  >
+                    {processingId === req.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                    Approve
+                  </button>
+                </div>
+              ) : (
+                <div className="text-right shrink-0">
+                  <span className={cn(
+                    "text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border",
+                    req.status === 'approved'
+                      ? "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50"
+                      : "bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-900/50"
+                  )}>
+                    {req.status}
+                  </span>
+                  {req.reviewed_at && (
+                    <p className="text-[10px] text-neutral-400 mt-1">
+                      {new Date(req.reviewed_at).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { Check, X, Loader2, History, CalendarCheck, Lock } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type Timesheet, formatWeekRange } from '@/lib/timesheets'
+
+// --- Types ---
+
+interface QueueTimesheet extends Timesheet {
+  profiles: { full_name: string, avatar_url: string | null } | null
+}
+
+interface TimesheetReviewQueueProps {
+  workspaceId: string
+}
+
+// --- Helper: Format Duration ---
+const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
+}
+
+// --- Component ---
+
+export default function TimesheetReviewQueue({ workspaceId }: TimesheetReviewQueueProps) {
+  const { userId } = useWorkspace()
+  const [timesheets, setTimesheets] = useState<QueueTimesheet[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const supabase = createClient()
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadTimesheets = async () => {
+      const { data, error } = await supabase
+        .from('timesheets')
+        .select('*, profiles:user_id ( full_name, avatar_url )')
+        .eq('workspace_id', workspaceId)
+        .order('week_start', { ascending: false })
+        .limit(100)
+
+      if (error) console.error('Error loading timesheets:', error)
+      if (isMounted && data) setTimesheets(data as unknown as QueueTimesheet[])
+    }
+    loadTimesheets()
+
+    return () => { isMounted = false }
+  }, [supabase, workspaceId, refreshKey])
+
+  const handleReview = async (timesheet: QueueTimesheet, approve: boolean) => {
+    let comment: string | null = null
+    if (!approve) {
+      comment = prompt("Reason for rejection:")
+      if (comment === null) return // Cancelled
+    }
+
+    setProcessingId(timesheet.id)
+    const { error } = await supabase.rpc('review_timesheet', {
+      timesheet_id: timesheet.id,
+      approve,
+      comment
+    })
+    setProcessingId(null)
+
+    if (error) {
+      console.error('Error reviewing timesheet:', error)
+      alert("Failed to review timesheet: " + error.message)
+      return
+    }
+
+    setRefreshKey(k => k + 1)
+  }
+
+  // Your own weeks go to someone else
+  const reviewable = timesheets.filter(ts => ts.user_id !== userId)
+  const pending = reviewable.filter(ts => ts.status === 'submitted')
+  const reviewed = reviewable.filter(ts => ts.status !== 'submitted')
+  const visible = showHistory ? reviewed : pending
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm">
+
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-neutral-100 dark:border-neutral-800 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CalendarCheck className="w-4 h-4 text-indigo-500" />
+          <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Weekly Timesheets</h2>
+          {pending.length > 0 && (
+            <span className="text-[10px] font-bold bg-amber-100 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400 px-2 py-0.5 rounded-full">
+              {pending.length} to review
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="flex items-center gap-1.5 text-xs font-medium text-neutral-500 hover:text-indigo-600 transition-colors"
+        >
+          <History className="w-3.5 h-3.5" />
+          {showHistory ? 'Show Pending' : 'Show History'}
+        </button>
+      </div>
+
+      {/* List */}
+      {visible.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-center text-neutral-500">
+          {showHistory ? 'No reviewed timesheets yet.' : 'No timesheets waiting for approval.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-neutral-100 dark:divide-neutral-800">
+          {visible.map(ts => (
+            <li key={ts.id} className="px-6 py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="space-y-0.5 min-w-0">
+                <p className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+                  {ts.profiles?.full_name || 'Unknown User'}
+                </p>
+                <p className="text-xs text-neutral-500">
+                  Week of {formatWeekRange(ts.week_start)} &middot;{' '}
+                  <span className="font-mono font-semibold text-neutral-700 dark:text-neutral-300">{formatDuration(ts.total_seconds)}</span>
+                </p>
+                {ts.review_comment && (
+                  <p className="text-xs text-rose-500">Feedback: {ts.review_comment}</p>
+                )}
+              </div>
+
+              {ts.status === 'submitted' ? (
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => handleReview(ts, false)}
+                    disabled={processingId === ts.id}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-rose-600 border border-rose-200 dark:border-rose-900/50 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-colors disabled:opacity-50"
+                  >
+                    <X className="w-3.5 h-3.5" /> Reject
+                  </button>
+                  <button
+                    onClick={() => handleReview(ts, true)}
+                    disabled={processingId === ts.id}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-emerald-600 hover:bg-emerald-700 text-white transition-colors disabled:opacity-50"
+                  >
+                    {processingId === ts.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                    Approve &amp; Lock
+                  </button>
+                </div>
+              ) : (
+                <span className={cn(
+                  "inline-flex items-center gap-1 text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border shrink-0",
+                  ts.status === 'approved'
+                    ? "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50"
+                    : "bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-900/50"
+                )}>
+                  {ts.status === 'approved' && <Lock className="w-3 h-3" />}
+                  {ts.status}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { useWorkspace } from '@/components/providers/workspace-provider'
+import { ChevronLeft, ChevronRight, Send, Lock, Loader2, MessageSquare } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { type Timesheet, toWeekKey, weekBounds, formatDayKey, formatWeekRange } from '@/lib/timesheets'
+import { addDaysToKey, splitByDay } from '@/lib/time-zones'
+
+// --- Types ---
+
+interface WeekLog {
+  id: string
+  start_time: string
+  end_time: string
+  duration_seconds: number
+}
+
+interface WeeklyTimesheetProps {
+  logs: WeekLog[]
+  timesheets: Timesheet[]
+  timeZone: string
+  onSubmitted: () => void
+}
+
+// --- Helper: Format Duration ---
+const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
+}
+
+const StatusPill = ({ timesheet }: { timesheet: Timesheet | undefined }) => {
+  if (!timesheet) {
+    return <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded-full bg-neutral-100 text-neutral-500 dark:bg-neutral-800">Not Submitted</span>
+  }
+
+  return (
+    <span className={cn(
+      "inline-flex items-center gap-1 text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border",
+      timesheet.status === 'approved' ? "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-900/50" :
+      timesheet.status === 'rejected' ? "bg-rose-100 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-900/50" :
+      "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50"
+    )}>
+      {timesheet.status === 'approved' && <Lock className="w-3 h-3" />}
+      {timesheet.status === 'submitted' ? 'Awaiting Approval' : timesheet.status}
+    </span>
+  )
+}
+
+// --- Component ---
+
+export default function WeeklyTimesheet({ logs, timesheets, timeZone, onSubmitted }: WeeklyTimesheetProps) {
+  const currentWeek = toWeekKey(new Date(), timeZone)
+  const [weekOffset, setWeekOffset] = useState(0)
+  const [submitting, setSubmitting] = useState(false)
+  const { workspaceId } = useWorkspace()
+  const supabase = createClient()
+
+  const weekKey = addDaysToKey(currentWeek, weekOffset * 7)
+  const isCurrentWeek = weekOffset === 0
+  const timesheet = timesheets.find(ts => ts.week_start === weekKey)
+
+  // Worked seconds per day (Mon..Sun); sessions crossing midnight count toward both days
+  const days = useMemo(() => {
+    const dayKeys = Array.from({ length: 7 }, (_, i) => addDaysToKey(weekKey, i))
+    const totals = Array(7).fill(0) as number[]
+    logs.forEach(log => {
+      splitByDay(log.start_time, log.end_time, log.duration_seconds, timeZone).forEach(({ day, seconds }) => {
+        const index = dayKeys.indexOf(day)
+        if (index !== -1) totals[index] += seconds
+      })
+    })
+    return totals
+  }, [logs, weekKey, timeZone])
+
+  const weekTotal = days.reduce((acc, s) => acc + s, 0)
+  const canSubmit = (!timesheet || timesheet.status === 'rejected') && weekTotal > 0
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+    if (isCurrentWeek && !confirm("This week isn't over yet. Submit it anyway?")) return
+
+    if (!workspaceId) {
+      alert("You need to join a workspace before submitting a timesheet.")
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      // The database totals the week itself; a resubmission keeps its original period
+      const { start, end } = weekBounds(weekKey, timeZone)
+      const { error } = await supabase.rpc('submit_timesheet', {
+        target_workspace: timesheet?.workspace_id ?? workspaceId,
+        target_week: weekKey,
+        period_from: start.toISOString(),
+        period_to: end.toISOString()
+      })
+
+      if (error) throw error
+      onSubmitted()
+    } catch (err) {
+      console.error('Error submitting timesheet:', err)
+      alert("Failed to submit timesheet.")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 border border-neutral-200 dark:border-neutral-800 rounded-xl shadow-sm">
+
+      {/* Header: week navigation */}
+      <div className="px-6 py-4 border-b border-neutral-100 dark:border-neutral-800 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setWeekOffset(weekOffset - 1)}
+            className="p-1.5 rounded-md text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            title="Previous Week"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <div>
+            <h2 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">
+              Week of {formatWeekRange(weekKey)}
+            </h2>
+            <p className="text-xs text-neutral-500">{isCurrentWeek ? 'This week' : 'Weekly timesheet'}</p>
+          </div>
+          <button
+            onClick={() => setWeekOffset(weekOffset + 1)}
+            disabled={isCurrentWeek}
+            className="p-1.5 rounded-md text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 disabled:opacity-30"
+            title="Next Week"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <StatusPill timesheet={timesheet} />
+          {canSubmit && (
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-lg text-xs font-medium transition-colors shadow-sm disabled:opacity-50"
+            >
+              {submitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+              {timesheet ? 'Resubmit' : 'Submit Week'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Daily totals */}
+      <div className="grid grid-cols-4 sm:grid-cols-8 divide-x divide-neutral-100 dark:divide-neutral-800">
+        {days.map((seconds, i) => {
+          const day = addDaysToKey(weekKey, i)
+          return (
+            <div key={i} className="px-3 py-4 text-center">
+              <p className="text-[10px] uppercase font-semibold text-neutral-400">
+                {formatDayKey(day, { weekday: 'short' })}
+              </p>
+              <p className="text-xs text-neutral-400">{formatDayKey(day, { day: 'numeric' })}</p>
+              <p className={cn("mt-1 text-sm font-mono", seconds > 0 ? "text-neutral-900 dark:text-neutral-100" : "text-neutral-300 dark:text-neutral-700")}>
+                {seconds > 0 ? formatDuration(seconds) : '-'}
+              </p>
+            </div>
+          )
+        })}
+        <div className="px-3 py-4 text-center bg-neutral-50/50 dark:bg-neutral-800/30">
+          <p className="text-[10px] uppercase font-semibold text-neutral-500">Total</p>
+          <p className="text-xs text-neutral-400">&nbsp;</p>
+          <p className="mt-1 text-sm font-mono font-bold text-indigo-600 dark:text-indigo-400">{formatDuration(weekTotal)}</p>
+        </div>
+      </div>
+
+      {/* Review feedback */}
+      {timesheet?.review_comment && (
+        <div className="px-6 py-3 border-t border-neutral-100 dark:border-neutral-800 flex items-start gap-2 text-xs text-neutral-600 dark:text-neutral-400">
+          <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <p><span className="font-semibold">Owner feedback:</span> {timesheet.review_comment}</p>
+        </div>
+      )}
+      {timesheet?.status === 'approved' && (
+        <div className="px-6 py-3 border-t border-neutral-100 dark:border-neutral-800 flex items-center gap-2 text-xs text-neutral-500">
+          <Lock className="w-3.5 h-3.5" />
+          This week is approved and locked. Entries can no longer be edited.
+        </div>
+      )}
+    </div>
+  )
+}
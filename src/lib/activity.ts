@@ -0,0 +1,47 @@
+// Proof-of-work activity snapshots. With the workspace owner's setting on and
+// the member's consent, the browser records one snapshot per SAMPLE_INTERVAL
+// while the timer runs (not on breaks): the share of minutes with keyboard or
+// mouse input, the page in use, and optionally a screen capture.
+
+export interface ActivitySettings {
+  activity_tracking: boolean
+  screenshot_tracking: boolean
+}
+
+export interface ActivityConsent {
+  activity_consent: boolean
+  screenshot_consent: boolean
+}
+
+export interface ActivitySnapshot {
+  id: string
+  user_id: string
+  session_id: string
+  period_start: string
+  captured_at: string
+  activity_percent: number
+  keyboard_events: number
+  mouse_events: number
+  window_title: string | null
+  page_path: string | null
+  focused: boolean
+  screenshot_path: string | null
+}
+
+export const SAMPLE_INTERVAL_MS = 10 * 60 * 1000
+export const SCREENSHOT_BUCKET = 'activity-screenshots'
+export const SCREENSHOT_MAX_WIDTH = 1280
+
+// Percentage of the minutes in [from, to) that saw any input
+export function activityPercent(activeMinutes: Set<number>, from: number, to: number) {
+  const first = Math.floor(from / 60000)
+  const last = Math.ceil(to / 60000)
+  const total = Math.max(last - first, 1)
+
+  let active = 0
+  activeMinutes.forEach(m => { if (m >= first && m < last) active++ })
+  return Math.min(100, Math.round((active / total) * 100))
+}
+
+export const activityColor = (percent: number) =>
+  percent >= 60 ? 'bg-emerald-500' : percent >= 30 ? 'bg-amber-500' : 'bg-rose-500'
@@ -0,0 +1,36 @@
+import { type ExportReport, toHours } from './report'
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/
+
+const escapeCell = (value: string | number) => {
+  let text = String(value)
+  if (typeof value === 'string' && FORMULA_START.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toLine = (cells: (string | number)[]) => cells.map(escapeCell).join(',')
+
+// Log rows first, then the per-day and per-member totals as separate blocks
+export function toCsv(report: ExportReport) {
+  const lines = [
+    toLine([report.title]),
+    toLine(['Period', report.period]),
+    '',
+    toLine(['Date', 'Employee', 'Start', 'End', 'Worked (h)', 'Break (h)', 'Notes']),
+    ...report.rows.map(row => toLine([
+      row.date, row.employee, row.start, row.end, toHours(row.worked_seconds), toHours(row.break_seconds), row.notes
+    ])),
+    '',
+    toLine(['Totals per Day', 'Worked (h)']),
+    ...report.dayTotals.map(t => toLine([t.label, toHours(t.seconds)])),
+    '',
+    toLine(['Totals per Member', 'Worked (h)']),
+    ...report.memberTotals.map(t => toLine([t.label, toHours(t.seconds)])),
+    '',
+    toLine(['Total', toHours(report.totalSeconds)])
+  ]
+
+  // BOM so Excel opens the file as UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
@@ -0,0 +1,42 @@
+import { type Invoice, formatInvoiceNumber, formatMoney } from '@/lib/invoices'
+import { dayKey } from '@/lib/time-zones'
+import { PDF_MARGIN as MARGIN, createPdfLayout, serializePdf, truncate } from './pdf'
+
+// Printable invoice built from the line items frozen on the invoice row.
+// Dates are shown in the workspace time zone.
+export function invoiceToPdf(invoice: Invoice, workspaceName: string, timeZone: string) {
+  const { line, space, pages } = createPdfLayout()
+  const money = (amount: number) => formatMoney(amount, invoice.currency)
+  const day = (iso: string) => dayKey(new Date(iso), timeZone)
+  // period_end is exclusive
+  const lastDay = new Date(new Date(invoice.period_end).getTime() - 1).toISOString()
+
+  // 1. Header
+  line([{ x: MARGIN, text: 'INVOICE' }, { x: 400, text: formatInvoiceNumber(invoice.number) }], { size: 18, bold: true, gap: 26 })
+  line([{ x: MARGIN, text: `From: ${workspaceName}` }, { x: 400, text: `Issued: ${day(invoice.created_at)}` }])
+  line([{ x: MARGIN, text: `Bill to: ${invoice.bill_to || '-'}` }, { x: 400, text: `Status: ${invoice.status.toUpperCase()}` }])
+  line([{ x: MARGIN, text: `Service period: ${day(invoice.period_start)} to ${day(lastDay)}` }], { gap: 30 })
+
+  // 2. Line items
+  const columns = [MARGIN, 170, 360, 420, 490]
+  line(['Member', 'Description', 'Hours', 'Rate', 'Amount'].map((text, i) => ({ x: columns[i], text })), { bold: true })
+  invoice.line_items.forEach(item => line([
+    truncate(item.member, 22),
+    truncate(item.description, 34),
+    item.hours.toFixed(2),
+    money(item.rate),
+    money(item.amount)
+  ].map((text, i) => ({ x: columns[i], text }))))
+  space()
+
+  // 3. Totals
+  line([{ x: 360, text: 'Total Hours' }, { x: 490, text: (invoice.total_seconds / 3600).toFixed(2) }], { bold: true })
+  line([{ x: 360, text: 'Amount Due' }, { x: 490, text: money(invoice.total_amount) }], { size: 12, bold: true, gap: 30 })
+
+  if (invoice.notes) {
+    line([{ x: MARGIN, text: 'Notes' }], { bold: true })
+    invoice.notes.split('\n').forEach(note => line([{ x: MARGIN, text: truncate(note, 95) }]))
+  }
+
+  return serializePdf(pages)
+}
@@ -0,0 +1,136 @@
+import { type ExportReport, formatDuration } from './report'
+
+// Minimal PDF writer for printable documents: A4 pages, the built-in
+// Helvetica fonts and plain text lines. No embedding, so characters outside
+// Latin-1 are replaced.
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const LINE_HEIGHT = 16
+
+export const PDF_MARGIN = MARGIN
+
+interface TextItem {
+  x: number
+  y: number
+  size: number
+  bold?: boolean
+  text: string
+}
+
+interface LineOptions {
+  size?: number
+  bold?: boolean
+  gap?: number
+}
+
+const escapePdf = (text: string) =>
+  text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+
+export const truncate = (text: string, max: number) => (text.length > max ? text.slice(0, max - 1) + '.' : text)
+
+// --- Layout ---
+
+// Top-to-bottom text cursor that starts a new page when it runs out of room
+export function createPdfLayout() {
+  const pages: TextItem[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  const line = (cells: { x: number, text: string }[], opts: LineOptions = {}) => {
+    if (y < MARGIN + LINE_HEIGHT) {
+      pages.push([])
+      y = PAGE_HEIGHT - MARGIN
+    }
+    cells.forEach(cell => pages[pages.length - 1].push({ x: cell.x, y, size: opts.size || 10, bold: opts.bold, text: cell.text }))
+    y -= opts.gap || LINE_HEIGHT
+  }
+
+  const space = (amount = LINE_HEIGHT) => { y -= amount }
+
+  return { line, space, pages }
+}
+
+// --- Serialization ---
+
+export function serializePdf(pages: TextItem[][]) {
+  // Page numbers
+  pages.forEach((items, i) => items.push({ x: MARGIN, y: MARGIN / 2, size: 8, text: `Page ${i + 1} of ${pages.length}` }))
+
+  // Object numbers: 1 catalog, 2 pages, 3/4 fonts, then (page, content) pairs
+  const objects: string[] = []
+  const pageIds = pages.map((_, i) => 5 + i * 2)
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+
+  pages.forEach((items, i) => {
+    const stream = items
+      .map(item => `BT /${item.bold ? 'F2' : 'F1'} ${item.size} Tf ${item.x} ${item.y} Td (${escapePdf(item.text)}) Tj ET`)
+      .join('\n')
+
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+  })
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1')
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1')
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(pdf, 'latin1')
+}
+
+// --- Timesheet ---
+
+export function toPdf(report: ExportReport) {
+  const { line, space, pages } = createPdfLayout()
+
+  // 1. Header
+  line([{ x: MARGIN, text: report.title }], { size: 16, bold: true, gap: 22 })
+  line([{ x: MARGIN, text: `Period: ${report.period}` }])
+  line([{ x: MARGIN, text: `Generated: ${new Date(report.generatedAt).toUTCString()}` }], { gap: 28 })
+
+  // 2. Log rows
+  const columns = [MARGIN, 130, 300, 360, 430, 500]
+  line(['Date', 'Employee', 'Start', 'End', 'Worked', 'Break'].map((text, i) => ({ x: columns[i], text })), { bold: true })
+  report.rows.forEach(row => {
+    line([
+      row.date, truncate(row.employee, 30), row.start, row.end, formatDuration(row.worked_seconds), formatDuration(row.break_seconds)
+    ].map((text, i) => ({ x: columns[i], text })))
+
+    // Notes go on a smaller line under their row
+    if (row.notes) line([{ x: columns[1], text: truncate(row.notes.replace(/\s+/g, ' '), 90) }], { size: 8, gap: 12 })
+  })
+  space()
+
+  // 3. Totals per day and per member
+  line([{ x: MARGIN, text: 'Totals per Day' }], { size: 12, bold: true, gap: 20 })
+  report.dayTotals.forEach(t => line([{ x: MARGIN, text: t.label }, { x: 430, text: formatDuration(t.seconds) }]))
+  space()
+
+  line([{ x: MARGIN, text: 'Totals per Member' }], { size: 12, bold: true, gap: 20 })
+  report.memberTotals.forEach(t => line([{ x: MARGIN, text: truncate(t.label, 60) }, { x: 430, text: formatDuration(t.seconds) }]))
+  space()
+
+  line([{ x: MARGIN, text: 'Total Worked' }, { x: 430, text: formatDuration(report.totalSeconds) }], { size: 12, bold: true })
+
+  return serializePdf(pages)
+}
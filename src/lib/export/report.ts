@@ -0,0 +1,97 @@
+// Shared shape for time report exports. The /api/export route loads the logs,
+// builds one ExportReport and hands it to the CSV, XLSX or PDF writer.
+
+import { splitByDay } from '@/lib/time-zones'
+
+export interface ExportLog {
+  start_time: string
+  end_time: string
+  duration_seconds: number
+  break_seconds: number | null
+  employee: string
+  notes: string | null
+}
+
+export interface ExportRow {
+  date: string
+  employee: string
+  start: string
+  end: string
+  worked_seconds: number
+  break_seconds: number
+  notes: string
+}
+
+export interface ExportTotal {
+  label: string
+  seconds: number
+}
+
+export interface ExportReport {
+  title: string
+  period: string
+  generatedAt: string
+  rows: ExportRow[]
+  dayTotals: ExportTotal[]
+  memberTotals: ExportTotal[]
+  totalSeconds: number
+}
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+// --- Helpers ---
+
+// Decimal hours, the format payroll and invoicing tools expect
+export const toHours = (seconds: number) => (seconds / 3600).toFixed(2)
+
+export const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return `${h}h ${m.toString().padStart(2, '0')}m`
+}
+
+// Days and times are rendered in the requested time zone, not the server's.
+// Day totals split sessions that cross midnight.
+export function buildReport(
+  logs: ExportLog[],
+  options: { title: string, period: string, timeZone: string }
+): ExportReport {
+  const dateFmt = new Intl.DateTimeFormat('en-CA', { timeZone: options.timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+  const timeFmt = new Intl.DateTimeFormat('en-GB', { timeZone: options.timeZone, hour: '2-digit', minute: '2-digit' })
+
+  const sorted = [...logs].sort((a, b) => a.start_time.localeCompare(b.start_time))
+
+  const rows: ExportRow[] = sorted.map(log => ({
+    date: dateFmt.format(new Date(log.start_time)),
+    employee: log.employee,
+    start: timeFmt.format(new Date(log.start_time)),
+    end: timeFmt.format(new Date(log.end_time)),
+    worked_seconds: log.duration_seconds,
+    break_seconds: log.break_seconds || 0,
+    notes: log.notes || ''
+  }))
+
+  const byDay = new Map<string, number>()
+  const byMember = new Map<string, number>()
+  sorted.forEach(log => {
+    splitByDay(log.start_time, log.end_time, log.duration_seconds, options.timeZone).forEach(({ day, seconds }) => {
+      byDay.set(day, (byDay.get(day) || 0) + seconds)
+    })
+    byMember.set(log.employee, (byMember.get(log.employee) || 0) + log.duration_seconds)
+  })
+
+  return {
+    title: options.title,
+    period: options.period,
+    generatedAt: new Date().toISOString(),
+    rows,
+    dayTotals: [...byDay]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([label, seconds]) => ({ label, seconds })),
+    memberTotals: [...byMember]
+      .map(([label, seconds]) => ({ label, seconds }))
+      .sort((a, b) => b.seconds - a.seconds),
+    totalSeconds: rows.reduce((acc, row) => acc + row.worked_seconds, 0)
+  }
+}
@@ -0,0 +1,45 @@
+// Daily and weekly hour limits per member (set by the workspace owner on
+// workspace_members). The timer compares today's and this week's tracked time,
+// in the member's time zone, against them: it warns from WARNING_RATIO on,
+// can stop itself at the limit, and reports the overrun to the owner once.
+
+export type LimitPeriod = 'day' | 'week'
+
+export interface HourLimits {
+  daily_hour_limit: number | null
+  weekly_hour_limit: number | null
+  auto_stop_at_limit: boolean
+}
+
+export interface LimitStatus {
+  period: LimitPeriod
+  periodStart: string // YYYY-MM-DD
+  limitSeconds: number
+  usedSeconds: number
+  remainingSeconds: number
+  level: 'ok' | 'warning' | 'reached'
+}
+
+// Warn once this share of a limit is used
+export const WARNING_RATIO = 0.9
+
+export function getLimitStatus(
+  period: LimitPeriod,
+  periodStart: string,
+  limitHours: number | null,
+  usedSeconds: number
+): LimitStatus | null {
+  if (!limitHours) return null
+
+  const limitSeconds = Math.round(limitHours * 3600)
+  return {
+    period,
+    periodStart,
+    limitSeconds,
+    usedSeconds,
+    remainingSeconds: Math.max(0, limitSeconds - usedSeconds),
+    level: usedSeconds >= limitSeconds ? 'reached' : usedSeconds >= limitSeconds * WARNING_RATIO ? 'warning' : 'ok'
+  }
+}
+
+export const formatLimitHours = (hours: number) => `${Number(hours.toFixed(2))}h`
@@ -0,0 +1,50 @@
+// Workspace invitations (workspace_invites). Each code carries the role the
+// invitee joins with and may expire, run out of uses, be addressed to one
+// email, or be revoked; join_workspace() checks all of that when redeeming.
+
+import type { WorkspaceRole } from '@/lib/permissions'
+
+export interface WorkspaceInvite {
+  id: string
+  workspace_id: string
+  code: string
+  role: Exclude<WorkspaceRole, 'owner'>
+  email: string | null
+  max_uses: number | null
+  use_count: number
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export const INVITE_EXPIRY_OPTIONS = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null }
+] as const
+
+export const INVITE_USE_OPTIONS = [
+  { label: 'Single use', uses: 1 },
+  { label: '5 uses', uses: 5 },
+  { label: '25 uses', uses: 25 },
+  { label: 'Unlimited', uses: null }
+] as const
+
+// Still redeemable: not revoked, expired or used up
+export function isInvitePending(invite: WorkspaceInvite, now = new Date()) {
+  if (invite.revoked_at) return false
+  if (invite.expires_at && new Date(invite.expires_at) <= now) return false
+  return invite.max_uses === null || invite.use_count < invite.max_uses
+}
+
+// Shareable link that opens the join page with the code filled in
+export function inviteUrl(code: string, origin: string) {
+  return `${origin}/onboarding/join-workspace?code=${encodeURIComponent(code)}`
+}
+
+export function inviteMailto(invite: WorkspaceInvite, workspaceName: string, origin: string) {
+  const subject = `Join ${workspaceName} on VeriTalk`
+  const body = `You've been invited to ${workspaceName}.\n\nJoin here: ${inviteUrl(invite.code, origin)}\n\nOr enter the code ${invite.code} on the join page.`
+  return `mailto:${invite.email || ''}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
+}
@@ -0,0 +1,44 @@
+// Invoices are generated server-side by the `create_invoice` RPC from approved,
+// billable time. Line items are one row per member and task.
+
+export type InvoiceStatus = 'issued' | 'paid' | 'void'
+
+export interface InvoiceLineItem {
+  member_id: string
+  member: string
+  task_id: string | null
+  description: string
+  seconds: number
+  hours: number
+  rate: number
+  amount: number
+}
+
+export interface Invoice {
+  id: string
+  workspace_id: string
+  number: number
+  member_id: string | null
+  bill_to: string | null
+  notes: string | null
+  period_start: string
+  period_end: string
+  currency: string
+  line_items: InvoiceLineItem[]
+  total_seconds: number
+  total_amount: number
+  status: InvoiceStatus
+  created_at: string
+}
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'PHP', 'INR'] as const
+
+export const formatInvoiceNumber = (number: number) => `INV-${number.toString().padStart(4, '0')}`
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
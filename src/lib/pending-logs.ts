@@ -0,0 +1,68 @@
+// Browser-side queue of timer sessions stopped while offline. The database
+// logs a session when its stop reaches /api/timer; until then the entries
+// hold the locally computed logs (for the clock and hour limits) and the stop
+// is replayed on reconnect. Entries survive reloads and are keyed by the
+// client-generated segment id, which is also unique in `time_logs`. Each
+// entry names its user, so a shared browser only replays the signed-in
+// user's stops.
+
+const STORAGE_KEY_PENDING_LOGS = 'staffsync_pending_logs'
+
+export interface PendingLog {
+  client_session_id: string
+  user_id?: string // who stopped it (entries without one are never replayed)
+  session_id?: string // the stopped session (older entries only have client_session_id)
+  workspace_id?: string | null // the session's workspace (older entries go to the active one)
+  task_id: string | null
+  start_time: string
+  end_time: string
+  duration_seconds: number
+  break_seconds: number
+  breaks: { start_time: string, end_time: string }[]
+  idle_seconds: number
+  idle_periods: { start_time: string, end_time: string }[]
+  notes?: string | null // what was worked on, from the stop prompt
+}
+
+function loadAllPendingLogs(): PendingLog[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_PENDING_LOGS)
+    return saved ? (JSON.parse(saved) as PendingLog[]) : []
+  } catch {
+    return []
+  }
+}
+
+export const loadPendingLogs = (userId: string | null) =>
+  userId ? loadAllPendingLogs().filter(l => l.user_id === userId) : []
+
+function savePendingLogs(logs: PendingLog[]) {
+  if (logs.length === 0) {
+    localStorage.removeItem(STORAGE_KEY_PENDING_LOGS)
+  } else {
+    localStorage.setItem(STORAGE_KEY_PENDING_LOGS, JSON.stringify(logs))
+  }
+}
+
+export function enqueuePendingLog(log: PendingLog) {
+  const logs = loadAllPendingLogs().filter(l => l.client_session_id !== log.client_session_id)
+  savePendingLogs([...logs, log])
+}
+
+// Attaches the stop-prompt summary to logs that are still waiting to upload.
+// Returns the ids that were still queued; the others have been logged.
+export function addNotesToPendingLogs(clientSessionIds: string[], notes: string) {
+  const ids = new Set(clientSessionIds)
+  const logs = loadAllPendingLogs()
+  savePendingLogs(logs.map(l => ids.has(l.client_session_id) ? { ...l, notes } : l))
+  return logs.filter(l => ids.has(l.client_session_id)).map(l => l.client_session_id)
+}
+
+export function removePendingLog(clientSessionId: string) {
+  savePendingLogs(loadAllPendingLogs().filter(l => l.client_session_id !== clientSessionId))
+}
+
+export function generateSessionId() {
+  return crypto.randomUUID()
+}
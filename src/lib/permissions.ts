@@ -0,0 +1,59 @@
+// Per-workspace roles (workspace_members.role) and what each may do. The
+// database's has_workspace_permission() mirrors ROLE_PERMISSIONS, so pages,
+// the sidebar and the API routes all agree with the row-level security.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const WORKSPACE_ROLES = ['owner', 'admin', 'manager', 'member', 'guest'] as const
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number]
+
+export type Permission =
+  | 'manage_roles' // promote / demote members
+  | 'manage_members' // invites, rates, hour limits, shifts
+  | 'manage_billing' // invoices, currency, workspace settings
+  | 'manage_tasks' // assign, prioritize and review tasks
+  | 'review_time' // approve timesheets and time requests
+  | 'view_team' // team overview, team reports, activity
+  | 'track_time' // timer, own tasks and timesheets
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, Permission[]> = {
+  owner: ['manage_roles', 'manage_members', 'manage_billing', 'manage_tasks', 'review_time', 'view_team'],
+  admin: ['manage_members', 'manage_billing', 'manage_tasks', 'review_time', 'view_team', 'track_time'],
+  manager: ['manage_tasks', 'review_time', 'view_team', 'track_time'],
+  member: ['track_time'],
+  guest: []
+}
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  manager: 'Manager',
+  member: 'Member',
+  guest: 'Guest'
+}
+
+// Roles the owner can hand out (ownership itself follows workspaces.owner_id)
+export const ASSIGNABLE_ROLES: WorkspaceRole[] = ['admin', 'manager', 'member', 'guest']
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value)
+}
+
+export function can(role: WorkspaceRole | null | undefined, permission: Permission) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Server-side check (API routes), answered by the database
+export async function hasWorkspacePermission(supabase: SupabaseClient, workspaceId: string, permission: Permission) {
+  const { data, error } = await supabase.rpc('has_workspace_permission', { ws: workspaceId, permission })
+  if (error) throw error
+  return data === true
+}
+
+// Where a role lands after login or a workspace switch
+export function homePath(role: WorkspaceRole | null | undefined) {
+  if (can(role, 'view_team')) return '/team-overview'
+  if (can(role, 'track_time')) return '/timer'
+  return '/messages'
+}
@@ -0,0 +1,49 @@
+// Route access for the middleware: which paths need a signed-in user, and
+// which workspace permission each dashboard page asks for (any one of them
+// opens it). The sidebar shows the same links through can().
+
+import type { Permission } from '@/lib/permissions'
+
+const DASHBOARD_ROUTES = [
+  '/channels', '/dm', '/manage-employees', '/meeting', '/messages', '/my-tasks',
+  '/reports', '/settings', '/team-overview', '/team-reports', '/timer'
+]
+
+const ROUTE_PERMISSIONS: Record<string, Permission[]> = {
+  '/manage-employees': ['manage_members', 'manage_tasks'],
+  '/team-overview': ['view_team'],
+  '/team-reports': ['view_team'],
+  '/my-tasks': ['track_time'],
+  '/reports': ['track_time'],
+  '/timer': ['track_time']
+}
+
+const matches = (pathname: string, route: string) =>
+  pathname === route || pathname.startsWith(`${route}/`)
+
+export function isDashboardPath(pathname: string) {
+  return pathname === '/' || DASHBOARD_ROUTES.some(route => matches(pathname, route))
+}
+
+export function requiredPermissions(pathname: string): Permission[] {
+  const route = Object.keys(ROUTE_PERMISSIONS).find(r => matches(pathname, r))
+  return route ? ROUTE_PERMISSIONS[route] : []
+}
+
+const hasControlOrSpace = (value: string) =>
+  /\s/.test(value) || Array.from(value).some(c => c.charCodeAt(0) < 0x20 || c.charCodeAt(0) === 0x7f)
+
+// Only same-site paths are followed after login. Browsers drop tabs and
+// newlines while parsing, so "/\t/host" would become "//host": such values are
+// refused outright, and whatever is left must still resolve to `origin`.
+export function safeNextPath(value: string | null | undefined, origin: string) {
+  if (!value || !value.startsWith('/') || hasControlOrSpace(value)) return null
+
+  try {
+    const url = new URL(value, origin)
+    if (url.origin !== origin) return null
+    return `${url.pathname}${url.search}`
+  } catch {
+    return null
+  }
+}
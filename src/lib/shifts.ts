@@ -0,0 +1,130 @@
+// Shift schedules and attendance. Each member has at most one shift per ISO
+// weekday, written as wall-clock times in the member's time zone. Attendance
+// for the current shift is derived from the member's time_logs plus their
+// running session: late start, missed shift, or overtime beyond the schedule.
+
+import { addDaysToKey, dayKey, isoWeekday, zonedMidnight, zonedTime } from '@/lib/time-zones'
+
+export interface Shift {
+  id: string
+  workspace_id: string
+  user_id: string
+  weekday: number // ISO weekday, 1 = Monday
+  start_time: string // HH:MM[:SS]
+  end_time: string // at or before start_time = ends the next day
+}
+
+export type AttendanceStatus = 'unscheduled' | 'off' | 'upcoming' | 'not_started' | 'on_time' | 'late' | 'missed'
+
+// A stretch of tracked work; `seconds` excludes breaks, so it can be shorter than the span
+export interface WorkInterval {
+  start: number // epoch ms
+  end: number
+  seconds: number
+}
+
+export interface Attendance {
+  status: AttendanceStatus
+  shift: { start: Date, end: Date } | null
+  lateMinutes: number
+  workedSeconds: number
+  scheduledSeconds: number
+  overtimeSeconds: number
+}
+
+// Arriving (or working past the schedule) within this many minutes is not flagged
+export const GRACE_MINUTES = 10
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export const formatShiftTime = (time: string) => time.slice(0, 5)
+
+// "Mon-Fri 09:00-17:00" when every shift has the same hours, else "5 days/week"
+export function summarizeShifts(shifts: Shift[]) {
+  if (shifts.length === 0) return 'No shifts'
+
+  const sorted = [...shifts].sort((a, b) => a.weekday - b.weekday)
+  const hours = `${formatShiftTime(sorted[0].start_time)}-${formatShiftTime(sorted[0].end_time)}`
+  if (sorted.some(s => `${formatShiftTime(s.start_time)}-${formatShiftTime(s.end_time)}` !== hours)) {
+    return `${sorted.length} days/week`
+  }
+
+  // Collapse consecutive weekdays into ranges
+  const ranges: number[][] = []
+  sorted.forEach(s => {
+    const last = ranges[ranges.length - 1]
+    if (last && s.weekday === last[last.length - 1] + 1) last.push(s.weekday)
+    else ranges.push([s.weekday])
+  })
+  const days = ranges
+    .map(r => r.length > 2 ? `${WEEKDAY_LABELS[r[0] - 1]}-${WEEKDAY_LABELS[r[r.length - 1] - 1]}` : r.map(d => WEEKDAY_LABELS[d - 1]).join(', '))
+    .join(', ')
+  return `${days} ${hours}`
+}
+
+// [start, end) instants of `shift` on day `key`
+export function shiftWindow(shift: Shift, key: string, zone: string) {
+  const start = zonedTime(key, formatShiftTime(shift.start_time), zone)
+  const overnight = formatShiftTime(shift.end_time) <= formatShiftTime(shift.start_time)
+  const end = zonedTime(overnight ? addDaysToKey(key, 1) : key, formatShiftTime(shift.end_time), zone)
+  return { start, end }
+}
+
+// Worked seconds of `intervals` falling inside [from, to)
+function workedBetween(intervals: WorkInterval[], from: number, to: number) {
+  return intervals.reduce((acc, i) => {
+    const overlap = Math.min(i.end, to) - Math.max(i.start, from)
+    if (overlap <= 0) return acc
+    return acc + i.seconds * (overlap / Math.max(i.end - i.start, 1))
+  }, 0)
+}
+
+export function computeAttendance(shifts: Shift[], intervals: WorkInterval[], zone: string, now: Date): Attendance {
+  const empty = { shift: null, lateMinutes: 0, workedSeconds: 0, scheduledSeconds: 0, overtimeSeconds: 0 }
+  if (shifts.length === 0) return { status: 'unscheduled', ...empty }
+
+  const today = dayKey(now, zone)
+  const nowMs = now.getTime()
+
+  // Yesterday's overnight shift may still be running
+  const candidates = [addDaysToKey(today, -1), today].flatMap(day => {
+    const shift = shifts.find(s => s.weekday === isoWeekday(day))
+    return shift ? [{ day, ...shiftWindow(shift, day, zone) }] : []
+  })
+  const current = candidates.find(c => nowMs >= c.start.getTime() && nowMs < c.end.getTime())
+    || candidates.find(c => c.day === today)
+
+  // Day off: anything worked today is overtime
+  if (!current) {
+    const worked = workedBetween(intervals, zonedMidnight(today, zone).getTime(), zonedMidnight(addDaysToKey(today, 1), zone).getTime())
+    return { ...empty, status: 'off', workedSeconds: Math.round(worked), overtimeSeconds: worked > GRACE_MINUTES * 60 ? Math.round(worked) : 0 }
+  }
+
+  const start = current.start.getTime()
+  const end = current.end.getTime()
+  const scheduled = (end - start) / 1000
+
+  // Everything worked on the shift's day, including early starts and late finishes
+  const dayStart = Math.min(zonedMidnight(current.day, zone).getTime(), start)
+  const dayEnd = Math.max(zonedMidnight(addDaysToKey(current.day, 1), zone).getTime(), end)
+  const worked = workedBetween(intervals, dayStart, dayEnd)
+  const overtime = worked - scheduled > GRACE_MINUTES * 60 ? worked - scheduled : 0
+
+  const arrival = Math.min(...intervals.filter(i => i.start < end && i.end > start).map(i => i.start))
+  const lateMinutes = isFinite(arrival) ? Math.max(0, Math.floor((arrival - start) / 60000)) : 0
+
+  let status: AttendanceStatus
+  if (isFinite(arrival)) status = lateMinutes > GRACE_MINUTES ? 'late' : 'on_time'
+  else if (nowMs >= end) status = 'missed'
+  else if (nowMs > start + GRACE_MINUTES * 60000) status = 'not_started'
+  else status = 'upcoming'
+
+  return {
+    status,
+    shift: { start: current.start, end: current.end },
+    lateMinutes: status === 'late' ? lateMinutes : 0,
+    workedSeconds: Math.round(worked),
+    scheduledSeconds: Math.round(scheduled),
+    overtimeSeconds: Math.round(overtime)
+  }
+}
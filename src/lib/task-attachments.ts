@@ -0,0 +1,157 @@
+// Files attached to tasks (task_attachments, stored in the private
+// task-attachments bucket under workspace/task/). The assignee uploads them
+// while preparing a submission; transition_task() ties the pending ones to
+// that submission. Each workspace picks which kinds of file are allowed and
+// how large they may be; the database checks the same lists on insert,
+// against the size and content type of the stored object.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const ATTACHMENT_BUCKET = 'task-attachments'
+export const ATTACHMENT_SIGNED_URL_SECONDS = 60 * 60
+
+export type AttachmentKind = 'image' | 'pdf' | 'archive' | 'document' | 'video'
+
+export const ATTACHMENT_KINDS: Record<AttachmentKind, { label: string, extensions: string[] }> = {
+  image: { label: 'Images', extensions: ['png', 'jpg', 'jpeg', 'gif', 'webp'] },
+  pdf: { label: 'PDFs', extensions: ['pdf'] },
+  archive: { label: 'Archives', extensions: ['zip', '7z', 'rar', 'tar', 'gz'] },
+  document: { label: 'Documents', extensions: ['doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'csv', 'md'] },
+  video: { label: 'Videos', extensions: ['mp4', 'mov', 'webm'] }
+}
+
+// Files are stored with the content type of their extension, and only those
+export const ATTACHMENT_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp',
+  pdf: 'application/pdf',
+  zip: 'application/zip', '7z': 'application/x-7z-compressed', rar: 'application/vnd.rar',
+  tar: 'application/x-tar', gz: 'application/gzip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain', csv: 'text/csv', md: 'text/markdown',
+  mp4: 'video/mp4', mov: 'video/quicktime', webm: 'video/webm'
+}
+
+export interface AttachmentLimits {
+  attachment_max_mb: number
+  attachment_types: AttachmentKind[]
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  attachment_max_mb: 25,
+  attachment_types: ['image', 'pdf', 'archive']
+}
+
+export interface TaskAttachment {
+  id: string
+  task_id: string
+  uploaded_by: string
+  path: string
+  file_name: string
+  content_type: string | null
+  size_bytes: number
+  submission_event_id: string | null // null until submitted
+  created_at: string
+}
+
+// Workspace row -> limits, ignoring kinds this build doesn't know
+export function toAttachmentLimits(row: { attachment_max_mb?: number | null, attachment_types?: string[] | null } | null): AttachmentLimits {
+  if (!row) return DEFAULT_ATTACHMENT_LIMITS
+  return {
+    attachment_max_mb: row.attachment_max_mb ?? DEFAULT_ATTACHMENT_LIMITS.attachment_max_mb,
+    attachment_types: (row.attachment_types ?? DEFAULT_ATTACHMENT_LIMITS.attachment_types)
+      .filter((k): k is AttachmentKind => k in ATTACHMENT_KINDS)
+  }
+}
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || ''
+
+export function attachmentKind(fileName: string): AttachmentKind | null {
+  const ext = extensionOf(fileName)
+  const kind = (Object.keys(ATTACHMENT_KINDS) as AttachmentKind[]).find(k => ATTACHMENT_KINDS[k].extensions.includes(ext))
+  return kind || null
+}
+
+export const attachmentContentType = (fileName: string) => ATTACHMENT_CONTENT_TYPES[extensionOf(fileName)] || null
+
+// The reason a file can't be attached, if any
+export function validateAttachment(file: File, limits: AttachmentLimits) {
+  const kind = attachmentKind(file.name)
+  if (!kind || !limits.attachment_types.includes(kind)) {
+    const allowed = limits.attachment_types.map(k => ATTACHMENT_KINDS[k].label.toLowerCase()).join(', ')
+    return `${file.name}: this workspace accepts ${allowed || 'no files'}.`
+  }
+  if (file.size > limits.attachment_max_mb * 1024 * 1024) {
+    return `${file.name} is larger than ${limits.attachment_max_mb} MB.`
+  }
+  return null
+}
+
+// Storage paths start with the workspace and task, which the bucket policies read
+export function attachmentPath(workspaceId: string, taskId: string, fileName: string) {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-120)
+  return `${workspaceId}/${taskId}/${crypto.randomUUID()}-${safeName}`
+}
+
+// Uploads the file, then records it (the database reads size and type from the
+// stored object); the stored object is removed if the record is refused
+export async function uploadTaskAttachment(supabase: SupabaseClient, workspaceId: string, taskId: string, file: File) {
+  const path = attachmentPath(workspaceId, taskId, file.name)
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: attachmentContentType(file.name) || undefined })
+
+  if (uploadError) {
+    console.error('Error uploading attachment:', uploadError)
+    return { attachment: null, error: `Failed to upload ${file.name}.` }
+  }
+
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .insert({
+      task_id: taskId,
+      workspace_id: workspaceId,
+      path,
+      file_name: file.name
+    })
+    .select()
+    .maybeSingle()
+
+  if (error || !data) {
+    console.error('Error recording attachment:', error)
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([path])
+    return { attachment: null, error: error?.message || `Failed to attach ${file.name}.` }
+  }
+  return { attachment: data as TaskAttachment, error: null }
+}
+
+// Clears out the caller's uploads that were never recorded
+export async function removeOrphanedUploads(supabase: SupabaseClient, workspaceId: string) {
+  const { data, error } = await supabase.rpc('orphaned_task_uploads', { target_workspace: workspaceId })
+  if (error) {
+    console.error('Error finding orphaned uploads:', error)
+    return
+  }
+
+  const paths = (data || []) as string[]
+  if (paths.length > 0) await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths)
+}
+
+// Files of the most recent submission (a resubmission replaces what's shown)
+export function latestSubmission(attachments: TaskAttachment[]) {
+  const submitted = attachments.filter(a => a.submission_event_id)
+  if (submitted.length === 0) return []
+
+  const latest = submitted.reduce((a, b) => (a.created_at > b.created_at ? a : b))
+  return submitted.filter(a => a.submission_event_id === latest.submission_event_id)
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
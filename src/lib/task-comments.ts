@@ -0,0 +1,53 @@
+// Task comment threads (task_comments). A comment's @mentions are stored as
+// user ids next to the text, which holds "@Full Name"; the database drops
+// mentions of people who can't see the task and notifies the rest.
+// Unread counts compare each thread against the reader's last visit.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface TaskComment {
+  id: string
+  task_id: string
+  author_id: string
+  body: string
+  mentions: string[]
+  created_at: string
+}
+
+export interface MentionCandidate {
+  id: string
+  full_name: string
+}
+
+export const COMMENT_MAX_LENGTH = 4000
+
+// Mentions whose "@Name" survived editing of the draft
+export function extractMentions(body: string, picked: MentionCandidate[]) {
+  return Array.from(new Set(picked.filter(p => body.includes(`@${p.full_name}`)).map(p => p.id)))
+}
+
+// Splits a comment into plain text and "@Name" runs for highlighting
+export function splitMentions(body: string, names: string[]) {
+  const tokens = names.filter(Boolean).map(n => `@${n}`).sort((a, b) => b.length - a.length)
+  if (tokens.length === 0) return [{ text: body, mention: false }]
+
+  const pattern = new RegExp(`(${tokens.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'g')
+  return body
+    .split(pattern)
+    .filter(Boolean)
+    .map(text => ({ text, mention: tokens.includes(text) }))
+}
+
+// Task id -> comments from others the caller hasn't seen
+export async function fetchUnreadCounts(supabase: SupabaseClient, workspaceId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('task_unread_counts', { target_workspace: workspaceId })
+  if (error) {
+    console.error('Error fetching unread comments:', error)
+    return {}
+  }
+
+  const rows = (data || []) as { task_id: string; unread: number }[]
+  const counts: Record<string, number> = {}
+  rows.forEach(row => { counts[row.task_id] = row.unread })
+  return counts
+}
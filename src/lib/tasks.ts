@@ -0,0 +1,83 @@
+// Task statuses and the moves between them. The assignee works a task
+// (start, submit with proof, resubmit after a rejection); whoever manages
+// tasks reviews submissions. Buttons and the board both go through
+// findTransition(), so a drag can only do what a button could. The
+// database's transition_task() enforces the same table, and task_events
+// keeps the history of every task.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type TaskStatus = 'todo' | 'in_progress' | 'submitted' | 'approved' | 'rejected'
+
+export type TaskPriority = 'low' | 'medium' | 'high'
+
+export type TaskActor = 'assignee' | 'reviewer'
+
+export interface TaskTransition {
+  from: TaskStatus
+  to: TaskStatus
+  actor: TaskActor
+  needsProof?: boolean // submissions carry a link to the work
+}
+
+// One step in a task's history (task_events), written by a database trigger
+export interface TaskEvent {
+  id: string
+  task_id: string
+  kind: 'created' | 'status' | 'reassigned' | 'priority'
+  from_value: string | null // status, priority or user id, by kind
+  to_value: string | null
+  actor_id: string | null
+  proof_link: string | null // the submission's link at the time
+  feedback: string | null // the rejection reason at the time
+  created_at: string
+}
+
+export const TASK_STATUSES: TaskStatus[] = ['todo', 'in_progress', 'submitted', 'approved', 'rejected']
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected'
+}
+
+export const TASK_TRANSITIONS: TaskTransition[] = [
+  { from: 'todo', to: 'in_progress', actor: 'assignee' },
+  { from: 'in_progress', to: 'submitted', actor: 'assignee', needsProof: true },
+  { from: 'rejected', to: 'submitted', actor: 'assignee', needsProof: true },
+  { from: 'submitted', to: 'approved', actor: 'reviewer' },
+  { from: 'submitted', to: 'rejected', actor: 'reviewer' }
+]
+
+// The move, if one of the caller's capacities allows it
+export function findTransition(from: TaskStatus, to: TaskStatus, actors: TaskActor[]) {
+  return TASK_TRANSITIONS.find(t => t.from === from && t.to === to && actors.includes(t.actor)) || null
+}
+
+export function taskActors(task: { assigned_to: string | null }, userId: string | null, canReview: boolean): TaskActor[] {
+  const actors: TaskActor[] = []
+  if (userId && task.assigned_to === userId) actors.push('assignee')
+  // Nobody reviews their own work
+  else if (canReview) actors.push('reviewer')
+  return actors
+}
+
+// Runs the move on the server. Resolves to the server's reason when it refuses
+export async function transitionTask(
+  supabase: SupabaseClient,
+  taskId: string,
+  to: TaskStatus,
+  details: { proof?: string; feedback?: string } = {}
+): Promise<string | null> {
+  const { error } = await supabase.rpc('transition_task', {
+    task_id: taskId,
+    new_status: to,
+    proof: details.proof ?? null,
+    feedback: details.feedback ?? null
+  })
+  if (!error) return null
+  console.error('Error moving task:', error)
+  return error.message || 'Failed to update the task.'
+}
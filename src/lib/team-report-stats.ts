@@ -0,0 +1,50 @@
+// Shape of the `team_report_stats` RPC result (see the migration of the same
+// name). Days and weeks are YYYY-MM-DD in the requested time zone.
+
+export interface DailyStat {
+  day: string
+  user_id: string
+  seconds: number
+}
+
+export interface HeatmapStat {
+  dow: number // ISO weekday, 1 = Monday
+  hour: number
+  seconds: number
+}
+
+export interface WeeklyStat {
+  week_start: string
+  seconds: number
+}
+
+export interface MemberStat {
+  user_id: string
+  full_name: string
+  seconds: number
+  sessions: number
+}
+
+export interface TeamReportStats {
+  daily: DailyStat[]
+  heatmap: HeatmapStat[]
+  weekly: WeeklyStat[]
+  members: MemberStat[]
+  total_seconds: number
+  sessions: number
+}
+
+export const EMPTY_STATS: TeamReportStats = {
+  daily: [],
+  heatmap: [],
+  weekly: [],
+  members: [],
+  total_seconds: 0,
+  sessions: 0
+}
+
+// Stable colour per member, shared by every chart
+export const MEMBER_COLORS = [
+  'bg-indigo-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500',
+  'bg-sky-500', 'bg-violet-500', 'bg-teal-500', 'bg-orange-500'
+]
@@ -0,0 +1,52 @@
+// Manual time entries and edits to existing logs don't touch `time_logs`
+// directly. They are filed as requests and applied by the workspace owner
+// through the `review_time_log_request` RPC. Reviewed requests stay behind
+// as the audit trail (original vs. edited values).
+
+import { addDaysToKey, dayKey, timeOfDay, zonedTime } from '@/lib/time-zones'
+
+export type TimeRequestKind = 'create' | 'edit'
+export type TimeRequestStatus = 'pending' | 'approved' | 'rejected'
+
+// Values of the log at the moment an edit was requested
+export interface TimeLogSnapshot {
+  start_time: string
+  end_time: string
+  duration_seconds: number
+  task_id: string | null
+}
+
+export interface TimeLogRequest {
+  id: string
+  workspace_id: string
+  user_id: string
+  time_log_id: string | null
+  kind: TimeRequestKind
+  original: TimeLogSnapshot | null
+  proposed_start_time: string
+  proposed_end_time: string
+  task_id: string | null
+  reason: string
+  status: TimeRequestStatus
+  review_comment: string | null
+  reviewed_at: string | null
+  created_at: string
+}
+
+// --- Helpers: <input type="date|time"> values in the report time zone ---
+export const toDateInput = (iso: string, zone: string) => dayKey(new Date(iso), zone)
+
+export const toTimeInput = (iso: string, zone: string) => timeOfDay(new Date(iso), zone)
+
+export const fromInputs = (date: string, time: string, zone: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(date) && /^\d{2}:\d{2}$/.test(time) ? zonedTime(date, time, zone) : new Date(NaN)
+
+// Start and end entered on one date; an end before the start is the next day
+export function rangeFromInputs(date: string, startTime: string, endTime: string, zone: string) {
+  const overnight = endTime < startTime
+  return {
+    start: fromInputs(date, startTime, zone),
+    end: fromInputs(overnight ? addDaysToKey(date, 1) : date, endTime, zone),
+    overnight
+  }
+}
@@ -0,0 +1,141 @@
+// Time zone helpers for reporting. Every report buckets days and weeks in an
+// explicit IANA zone instead of the browser's, so a client in New York and a
+// freelancer in Manila agree on what "Monday" was. The zone is, in order:
+// the user's profile zone, the workspace zone, then the browser's.
+// Days are passed around as 'YYYY-MM-DD' keys.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+export const resolveTimeZone = (...zones: (string | null | undefined)[]) =>
+  zones.find(z => !!z && isValidTimeZone(z)) || getBrowserTimeZone()
+
+export function isValidTimeZone(zone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function listTimeZones() {
+  try {
+    return Intl.supportedValuesOf('timeZone')
+  } catch {
+    return ['UTC', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Manila', 'Asia/Kolkata', 'Asia/Tokyo', 'Australia/Sydney']
+  }
+}
+
+// --- Wall-clock parts in a zone ---
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function zonedParts(date: Date, zone: string) {
+  let fmt = partsFormatters.get(zone)
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone, hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    })
+    partsFormatters.set(zone, fmt)
+  }
+
+  const parts: Record<string, number> = {}
+  fmt.formatToParts(date).forEach(p => { if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10) })
+  return parts as { year: number, month: number, day: number, hour: number, minute: number, second: number }
+}
+
+// Milliseconds the zone is ahead of UTC at `date`
+function zoneOffset(date: Date, zone: string) {
+  const p = zonedParts(date, zone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0')
+
+export function dayKey(date: Date, zone: string) {
+  const p = zonedParts(date, zone)
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`
+}
+
+export function addDaysToKey(key: string, days: number) {
+  const [y, m, d] = key.split('-').map(Number)
+  const next = new Date(Date.UTC(y, m - 1, d + days))
+  return `${next.getUTCFullYear()}-${pad(next.getUTCMonth() + 1)}-${pad(next.getUTCDate())}`
+}
+
+// The instant a wall-clock time on `key` occurs in `zone`
+export function zonedTime(key: string, time: string, zone: string) {
+  const [y, m, d] = key.split('-').map(Number)
+  const [hh, mm] = time.split(':').map(Number)
+  const guess = Date.UTC(y, m - 1, d, hh || 0, mm || 0)
+  // Correct twice so DST transitions settle on the right offset
+  let result = guess - zoneOffset(new Date(guess), zone)
+  result = guess - zoneOffset(new Date(result), zone)
+  return new Date(result)
+}
+
+export const zonedMidnight = (key: string, zone: string) => zonedTime(key, '00:00', zone)
+
+export function timeOfDay(date: Date, zone: string) {
+  const p = zonedParts(date, zone)
+  return `${pad(p.hour)}:${pad(p.minute)}`
+}
+
+// ISO weekday of a day key, 1 = Monday
+export function isoWeekday(key: string) {
+  const [y, m, d] = key.split('-').map(Number)
+  return ((new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7) + 1
+}
+
+export const weekStartKey = (date: Date, zone: string) => {
+  const key = dayKey(date, zone)
+  return addDaysToKey(key, 1 - isoWeekday(key))
+}
+
+// Worked seconds of one log spread over the days it covers (split at local
+// midnight), proportionally to wall-clock time so breaks are shared out.
+export function splitByDay(startIso: string, endIso: string, workedSeconds: number, zone: string) {
+  const start = new Date(startIso).getTime()
+  const end = new Date(endIso).getTime()
+  const span = Math.max(end - start, 1)
+
+  const result: { day: string, seconds: number }[] = []
+  let cursor = start
+  let key = dayKey(new Date(start), zone)
+
+  while (cursor < end) {
+    const nextMidnight = zonedMidnight(addDaysToKey(key, 1), zone).getTime()
+    const sliceEnd = Math.min(nextMidnight, end)
+    result.push({ day: key, seconds: Math.round(workedSeconds * ((sliceEnd - cursor) / span)) })
+    cursor = sliceEnd
+    key = addDaysToKey(key, 1)
+  }
+
+  if (result.length === 0) return [{ day: key, seconds: workedSeconds }]
+
+  // Rounding leftovers go to the last day so the parts add up exactly
+  const assigned = result.reduce((acc, r) => acc + r.seconds, 0)
+  result[result.length - 1].seconds += workedSeconds - assigned
+  return result
+}
+
+// --- Loading the configured zones ---
+
+// The caller's profile zone and their active workspace's zone (either may be null)
+export async function fetchTimeZones(supabase: SupabaseClient, userId: string, workspaceId: string | null) {
+  const [{ data: profile }, { data: workspace }] = await Promise.all([
+    supabase.from('profiles').select('time_zone').eq('id', userId).maybeSingle(),
+    workspaceId
+      ? supabase.from('workspaces').select('time_zone').eq('id', workspaceId).maybeSingle()
+      : Promise.resolve({ data: null })
+  ])
+
+  return {
+    profileZone: (profile?.time_zone as string | null) || null,
+    workspaceZone: workspace?.time_zone || null
+  }
+}
@@ -0,0 +1,53 @@
+// Shared shape of the server-owned `active_sessions` row.
+// A user has at most one row; its existence means their timer is running.
+
+export interface ActiveSessionBreak {
+  start_time: string
+  end_time: string | null // null while the break is still running
+}
+
+export interface IdlePeriod {
+  start_time: string
+  end_time: string
+}
+
+// One stretch of the session spent on a single task (or none). A segment
+// runs until the next one starts; on stop the database logs each as its own
+// time_logs row, keyed by the segment id (the first segment reuses the session id).
+export interface TaskSegment {
+  id: string
+  task_id: string | null
+  start_time: string
+}
+
+export interface ActiveSession {
+  user_id: string
+  workspace_id: string | null
+  client_session_id: string
+  task_id: string | null // task currently being tracked
+  segments: TaskSegment[]
+  started_at: string
+  breaks: ActiveSessionBreak[]
+  idle_periods: IdlePeriod[] // idle stretches the user chose to discard
+  last_activity_at: string // a forgotten session is closed here by the server sweeper
+  updated_at: string
+}
+
+// 'idle' flags the user as idle; 'return' clears it, optionally discarding the idle stretch
+// 'switch' moves a running session onto another task
+// 'heartbeat' records the user's latest keyboard or mouse input
+export type TimerAction = 'start' | 'pause' | 'resume' | 'stop' | 'idle' | 'return' | 'switch' | 'heartbeat'
+
+export const TIMER_ACTIONS: TimerAction[] = ['start', 'pause', 'resume', 'stop', 'idle', 'return', 'switch', 'heartbeat']
+
+// Body accepted by POST /api/timer
+export interface TimerRequestBody {
+  action: TimerAction
+  sessionId?: string | null
+  workspaceId?: string | null // 'start' only: the workspace to track time in
+  taskId?: string | null // 'start' and 'switch'
+  idlePeriod?: IdlePeriod // 'return' only: the idle stretch to discard
+  activityAt?: string // 'heartbeat' only: time of the latest input
+  endedAt?: string // 'stop' only: when the session was stopped while offline
+  notes?: string | null // 'stop' only: saved with the session's logs
+}
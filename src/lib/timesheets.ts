@@ -0,0 +1,48 @@
+// Weekly timesheets are built from `time_logs`. A freelancer submits a week,
+// the workspace owner approves or rejects it (with a comment) through the
+// `review_timesheet` RPC, and approved weeks are locked against further edits.
+// Weeks run Monday to Sunday in the submitter's report time zone; the exact
+// range is stored as period_start/period_end so the database can enforce the lock.
+
+import { addDaysToKey, weekStartKey, zonedMidnight } from '@/lib/time-zones'
+
+export type TimesheetStatus = 'submitted' | 'approved' | 'rejected'
+
+export interface Timesheet {
+  id: string
+  workspace_id: string
+  user_id: string
+  week_start: string // YYYY-MM-DD (Monday)
+  period_start: string
+  period_end: string
+  total_seconds: number
+  status: TimesheetStatus
+  submitted_at: string
+  review_comment: string | null
+  reviewed_at: string | null
+}
+
+// Monday (YYYY-MM-DD) of the week containing `date` in `zone`
+export const toWeekKey = (date: Date, zone: string) => weekStartKey(date, zone)
+
+// [start, end) instants of the week starting on `weekKey`
+export const weekBounds = (weekKey: string, zone: string) => ({
+  start: zonedMidnight(weekKey, zone),
+  end: zonedMidnight(addDaysToKey(weekKey, 7), zone)
+})
+
+// Formats a day key without shifting it through the browser's zone
+export const formatDayKey = (key: string, opts: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }) =>
+  new Date(`${key}T12:00:00Z`).toLocaleDateString(undefined, { ...opts, timeZone: 'UTC' })
+
+export const formatWeekRange = (weekKey: string) =>
+  `${formatDayKey(weekKey)} - ${formatDayKey(addDaysToKey(weekKey, 6))}`
+
+export const isLockedAt = (timesheets: Timesheet[], iso: string) => {
+  const t = new Date(iso).getTime()
+  return timesheets.some(ts =>
+    ts.status === 'approved' &&
+    t >= new Date(ts.period_start).getTime() &&
+    t < new Date(ts.period_end).getTime()
+  )
+}
@@ -1,6 +1,26 @@
-import { type ClassValue, clsx } from "clsx"
-import { twMerge } from "tailwind-merge"
-
-export function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs))
-}
\ No newline at end of file
+import { type ClassValue, clsx } from "clsx"
+import { twMerge } from "tailwind-merge"
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs))
+}
+
+// Fetches a file from one of our API routes and saves it with the filename
+// the server suggests. Throws with the route's error message on failure.
+export async function downloadFile(url: string, fallbackName: string) {
+  const res = await fetch(url)
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new Error(data.error || 'Download failed')
+  }
+
+  const disposition = res.headers.get('Content-Disposition') || ''
+  const filename = disposition.match(/filename="(.+)"/)?.[1] || fallbackName
+  const objectUrl = URL.createObjectURL(await res.blob())
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = filename
+  link.click()
+  // Some browsers start the download only after click() returns
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000)
+}
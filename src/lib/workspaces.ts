@@ -0,0 +1,36 @@
+// Workspaces a user belongs to, and which one they are working in. The
+// choice is stored on the profile (active_workspace_id) so every device and
+// the API routes agree; the database's active_workspace_id() applies the
+// same fallback to the first membership when it is unset or stale.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { type WorkspaceRole, isWorkspaceRole } from '@/lib/permissions'
+
+export interface Workspace {
+  id: string
+  name: string
+  owner_id: string
+  role: WorkspaceRole // the user's role in it
+}
+
+interface MembershipRow {
+  role: string | null
+  workspaces: Omit<Workspace, 'role'> | null
+}
+
+export async function fetchWorkspaces(supabase: SupabaseClient, userId: string) {
+  const [{ data: memberships }, { data: profile }] = await Promise.all([
+    supabase.from('workspace_members').select('role, workspaces ( id, name, owner_id )').eq('user_id', userId),
+    supabase.from('profiles').select('active_workspace_id').eq('id', userId).maybeSingle()
+  ])
+
+  // Same order as active_workspace_id() falls back to
+  const workspaces = ((memberships || []) as unknown as MembershipRow[])
+    .flatMap((m): Workspace[] => m.workspaces
+      ? [{ ...m.workspaces, role: isWorkspaceRole(m.role) ? m.role : 'member' }]
+      : [])
+    .sort((a, b) => a.id.localeCompare(b.id))
+
+  const active = workspaces.find(w => w.id === profile?.active_workspace_id) || workspaces[0] || null
+  return { workspaces, active }
+}
@@ -1,66 +1,105 @@
-import { createServerClient, type CookieOptions } from '@supabase/ssr'
-import { NextResponse, type NextRequest } from 'next/server'
-
-export async function middleware(request: NextRequest) {
-  let response = NextResponse.next({
-    request: {
-      headers: request.headers,
-    },
-  })
-
-  const supabase = createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        get(name: string) {
-          return request.cookies.get(name)?.value
-        },
-        set(name: string, value: string, options: CookieOptions) {
-          request.cookies.set({ name, value, ...options })
-          response = NextResponse.next({
-            request: {
-              headers: request.headers,
-            },
-          })
-          response.cookies.set({ name, value, ...options })
-        },
-        remove(name: string, options: CookieOptions) {
-          request.cookies.set({ name, value: '', ...options })
-          response = NextResponse.next({
-            request: {
-              headers: request.headers,
-            },
-          })
-          response.cookies.set({ name, value: '', ...options })
-        },
-      },
-    }
-  )
-
-  const { data: { user } } = await supabase.auth.getUser()
-
-  // 1. If no user and trying to access dashboard routes, redirect to login
-  if (!user && request.nextUrl.pathname.startsWith('/god-mode')) {
-    return NextResponse.redirect(new URL('/login', request.url))
-  }
-
-  // 2. If user exists and is on login page, redirect to dashboard
-  if (user && request.nextUrl.pathname === '/login') {
-    return NextResponse.redirect(new URL('/god-mode', request.url))
-  }
-
-  return response
-}
-
-export const config = {
-  matcher: [
-    /*
-     * Match all request paths except for the ones starting with:
-     * - _next/static (static files)
-     * - _next/image (image optimization files)
-     * - favicon.ico (favicon file)
-     */
-    '/((?!_next/static|_next/image|favicon.ico).*)',
-  ],
+import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import { NextResponse, type NextRequest } from 'next/server'
+import { can, homePath, isWorkspaceRole } from '@/lib/permissions'
+import { isDashboardPath, requiredPermissions, safeNextPath } from '@/lib/routes'
+
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({
+    request: {
+      headers: request.headers,
+    },
+  })
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value
+        },
+        set(name: string, value: string, options: CookieOptions) {
+          request.cookies.set({ name, value, ...options })
+          response = NextResponse.next({
+            request: {
+              headers: request.headers,
+            },
+          })
+          response.cookies.set({ name, value, ...options })
+        },
+        remove(name: string, options: CookieOptions) {
+          request.cookies.set({ name, value: '', ...options })
+          response = NextResponse.next({
+            request: {
+              headers: request.headers,
+            },
+          })
+          response.cookies.set({ name, value: '', ...options })
+        },
+      },
+    }
+  )
+
+  const { data: { user } } = await supabase.auth.getUser()
+  const { pathname, search } = request.nextUrl
+
+  // Keep any refreshed session cookies on redirects
+  const redirectTo = (url: URL) => {
+    const redirect = NextResponse.redirect(url)
+    response.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie))
+    return redirect
+  }
+
+  // 1. Signed in and on the login page: go where they were headed
+  if (pathname === '/login') {
+    if (!user) return response
+    const next = safeNextPath(request.nextUrl.searchParams.get('next'), request.nextUrl.origin) || '/'
+    return redirectTo(new URL(next, request.url))
+  }
+
+  const isOnboarding = pathname === '/onboarding' || pathname.startsWith('/onboarding/')
+  if (!isOnboarding && !isDashboardPath(pathname)) return response
+
+  // 2. No user: log in first, then come back here
+  if (!user) {
+    const login = new URL('/login', request.url)
+    login.searchParams.set('next', `${pathname}${search}`)
+    return redirectTo(login)
+  }
+  if (isOnboarding) return response
+
+  // 3. No account type or workspace yet: finish onboarding
+  const [{ data: profile }, { data: workspaceId }] = await Promise.all([
+    supabase.from('profiles').select('role').eq('id', user.id).maybeSingle(),
+    supabase.rpc('active_workspace_id')
+  ])
+
+  if (!profile?.role || !workspaceId) {
+    return redirectTo(new URL('/onboarding', request.url))
+  }
+
+  // 4. The home page and pages that need a permission in the active workspace
+  const permissions = requiredPermissions(pathname)
+  if (pathname !== '/' && permissions.length === 0) return response
+
+  const { data: roleData } = await supabase.rpc('workspace_role', { ws: workspaceId })
+  const role = isWorkspaceRole(roleData) ? roleData : null
+
+  if (pathname === '/' || !permissions.some(permission => can(role, permission))) {
+    return redirectTo(new URL(homePath(role), request.url))
+  }
+
+  return response
+}
+
+export const config = {
+  matcher: [
+    /*
+     * Match all request paths except for the ones starting with:
+     * - _next/static (static files)
+     * - _next/image (image optimization files)
+     * - favicon.ico (favicon file)
+     */
+    '/((?!_next/static|_next/image|favicon.ico).*)',
+  ],
 }
\ No newline at end of file
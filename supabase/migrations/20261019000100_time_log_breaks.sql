@@ -0,0 +1,11 @@
+-- Pause/resume support for timer sessions.
+-- A session is still one time_logs row; breaks taken during it are stored
+-- alongside and excluded from duration_seconds.
+
+alter table public.time_logs
+  add column if not exists break_seconds integer not null default 0,
+  add column if not exists breaks jsonb not null default '[]'::jsonb;
+
+comment on column public.time_logs.duration_seconds is 'Worked seconds, excluding break_seconds.';
+comment on column public.time_logs.break_seconds is 'Total seconds spent on break during the session.';
+comment on column public.time_logs.breaks is 'Break segments: [{ start_time, end_time }] as ISO timestamps.';
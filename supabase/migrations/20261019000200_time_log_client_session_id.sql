@@ -0,0 +1,10 @@
+-- Offline-safe time logging.
+-- Each timer session carries an id generated in the browser. Logs queued
+-- offline are upserted on this key, so a retried upload never creates a
+-- second row for the same session.
+
+alter table public.time_logs
+  add column if not exists client_session_id uuid;
+
+create unique index if not exists time_logs_client_session_id_key
+  on public.time_logs (client_session_id);
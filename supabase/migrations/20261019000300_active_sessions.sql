@@ -0,0 +1,33 @@
+-- Server-owned running timer sessions.
+-- One row per user (user_id is the primary key), so a user can never have
+-- two sessions running at once. Written through /api/timer; clients only
+-- read it and follow changes over realtime.
+
+create table if not exists public.active_sessions (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete set null,
+  client_session_id uuid not null unique,
+  started_at timestamptz not null default now(),
+  breaks jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.active_sessions enable row level security;
+
+create policy "Users can read their own active session"
+  on public.active_sessions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can start their own session"
+  on public.active_sessions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own session"
+  on public.active_sessions for update
+  using (auth.uid() = user_id);
+
+create policy "Users can stop their own session"
+  on public.active_sessions for delete
+  using (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.active_sessions;
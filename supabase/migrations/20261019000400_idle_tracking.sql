@@ -0,0 +1,55 @@
+-- Idle detection.
+-- When a user comes back from an idle stretch they can discard it. Discarded
+-- stretches are recorded on the running session and on the final log, and
+-- are excluded from duration_seconds. Time that was both a break and idle
+-- counts as break.
+
+alter table public.active_sessions
+  add column if not exists idle_periods jsonb not null default '[]'::jsonb;
+
+alter table public.time_logs
+  add column if not exists idle_seconds integer not null default 0,
+  add column if not exists idle_periods jsonb not null default '[]'::jsonb;
+
+comment on column public.time_logs.duration_seconds is 'Worked seconds, excluding break_seconds and idle_seconds.';
+comment on column public.time_logs.idle_seconds is 'Idle seconds the user chose to discard.';
+comment on column public.time_logs.idle_periods is 'Discarded idle stretches: [{ start_time, end_time }] as ISO timestamps.';
+
+-- The stretches ([{ start_time, end_time }]) inside [range_from, range_to),
+-- with overlapping ones merged and open ones running to range_to
+create or replace function public.merge_stretches(stretches jsonb, range_from timestamptz, range_to timestamptz)
+returns jsonb
+language sql
+stable
+as $$
+  with clipped as (
+    select greatest(p.start_time, range_from) as p_start,
+           least(coalesce(p.end_time, range_to), range_to) as p_end
+    from jsonb_to_recordset(stretches) as p (start_time timestamptz, end_time timestamptz)
+  ),
+  ordered as (
+    select p_start, p_end,
+           max(p_end) over (order by p_start, p_end rows between unbounded preceding and 1 preceding) as prev_end
+    from clipped
+    where p_end > p_start
+  ),
+  islands as (
+    select p_start, p_end,
+           count(*) filter (where prev_end is null or p_start > prev_end) over (order by p_start, p_end) as island
+    from ordered
+  )
+  select coalesce(jsonb_agg(jsonb_build_object('start_time', island_start, 'end_time', island_end) order by island_start), '[]'::jsonb)
+  from (select min(p_start) as island_start, max(p_end) as island_end from islands group by island) i;
+$$;
+
+-- Seconds of [range_from, range_to) covered by any of the stretches, so a
+-- break and an idle stretch that overlap are only subtracted once
+create or replace function public.paused_seconds(stretches jsonb, range_from timestamptz, range_to timestamptz)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(extract(epoch from m.end_time - m.start_time)), 0)
+  from jsonb_to_recordset(public.merge_stretches(stretches, range_from, range_to))
+    as m (start_time timestamptz, end_time timestamptz);
+$$;
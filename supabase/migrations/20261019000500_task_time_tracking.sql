@@ -0,0 +1,15 @@
+-- Task-linked time tracking.
+-- A running session remembers which task is being tracked and the segments
+-- it has been split into by task switches. Each segment is saved as its own
+-- time_logs row with the task it belongs to.
+
+alter table public.active_sessions
+  add column if not exists task_id uuid references public.tasks (id) on delete set null,
+  add column if not exists segments jsonb not null default '[]'::jsonb;
+
+alter table public.time_logs
+  add column if not exists task_id uuid references public.tasks (id) on delete set null;
+
+create index if not exists time_logs_task_id_idx on public.time_logs (task_id);
+
+comment on column public.active_sessions.segments is 'Task segments: [{ id, task_id, start_time }]; each runs until the next starts.';
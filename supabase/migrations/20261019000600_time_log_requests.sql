@@ -0,0 +1,161 @@
+-- Manual time entries and edit requests.
+-- Employees never write time_logs directly for manual time. They file a
+-- request which the workspace owner approves or rejects through
+-- review_time_log_request(). The request row keeps the original (copied
+-- from the log by the database when the request is filed) and the proposed
+-- values, so reviewed requests double as the audit trail.
+
+alter table public.time_logs
+  add column if not exists source text not null default 'timer' check (source in ('timer', 'manual')),
+  add column if not exists edited_at timestamptz;
+
+create table if not exists public.time_log_requests (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  time_log_id uuid references public.time_logs (id) on delete cascade,
+  kind text not null check (kind in ('create', 'edit')),
+  original jsonb,
+  proposed_start_time timestamptz not null,
+  proposed_end_time timestamptz not null,
+  task_id uuid references public.tasks (id) on delete set null,
+  reason text not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz,
+  review_comment text,
+  created_at timestamptz not null default now(),
+  check (proposed_end_time > proposed_start_time),
+  check ((kind = 'edit') = (time_log_id is not null))
+);
+
+create index if not exists time_log_requests_workspace_status_idx
+  on public.time_log_requests (workspace_id, status);
+
+alter table public.time_log_requests enable row level security;
+
+create policy "Users can file their own time requests"
+  on public.time_log_requests for insert
+  with check (auth.uid() = user_id and status = 'pending');
+
+create policy "Users can read their own time requests"
+  on public.time_log_requests for select
+  using (auth.uid() = user_id);
+
+create policy "Owners can read their workspace's time requests"
+  on public.time_log_requests for select
+  using (exists (
+    select 1 from public.workspaces w
+    where w.id = workspace_id and w.owner_id = auth.uid()
+  ));
+
+comment on column public.time_log_requests.original is 'Snapshot of the log when the edit was requested: { start_time, end_time, duration_seconds, task_id }.';
+
+-- The original is read from the log itself, never taken from the client.
+-- Named to run before the other insert triggers, which read it.
+create or replace function public.capture_time_request_original()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.kind = 'create' then
+    new.original := null;
+    return new;
+  end if;
+
+  select jsonb_build_object(
+           'start_time', l.start_time,
+           'end_time', l.end_time,
+           'duration_seconds', l.duration_seconds,
+           'task_id', l.task_id
+         )
+  into new.original
+  from public.time_logs l
+  where l.id = new.time_log_id
+    and l.user_id = new.user_id
+    and l.workspace_id = new.workspace_id;
+
+  if not found then
+    raise exception 'Time log not found';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists time_log_requests_capture on public.time_log_requests;
+create trigger time_log_requests_capture
+  before insert on public.time_log_requests
+  for each row execute function public.capture_time_request_original();
+
+-- Applies (or rejects) a pending request. Only the owner of the request's
+-- workspace may call it.
+create or replace function public.review_time_log_request(
+  request_id uuid,
+  approve boolean,
+  comment text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  req public.time_log_requests%rowtype;
+begin
+  select * into req from public.time_log_requests where id = request_id for update;
+
+  if not found then
+    raise exception 'Time request not found';
+  end if;
+
+  if not exists (
+    select 1 from public.workspaces
+    where id = req.workspace_id and owner_id = auth.uid()
+  ) then
+    raise exception 'Only the workspace owner can review time requests';
+  end if;
+
+  if req.status <> 'pending' then
+    raise exception 'Time request has already been reviewed';
+  end if;
+
+  if approve then
+    if req.kind = 'create' then
+      insert into public.time_logs (user_id, workspace_id, start_time, end_time, duration_seconds, task_id, source)
+      values (
+        req.user_id,
+        req.workspace_id,
+        req.proposed_start_time,
+        req.proposed_end_time,
+        extract(epoch from req.proposed_end_time - req.proposed_start_time)::int,
+        req.task_id,
+        'manual'
+      );
+    else
+      update public.time_logs
+      set start_time = req.proposed_start_time,
+          end_time = req.proposed_end_time,
+          task_id = req.task_id,
+          duration_seconds = greatest(
+            0,
+            extract(epoch from req.proposed_end_time - req.proposed_start_time)::int
+              - coalesce(break_seconds, 0) - coalesce(idle_seconds, 0)
+          ),
+          edited_at = now()
+      where id = req.time_log_id and user_id = req.user_id;
+    end if;
+  end if;
+
+  update public.time_log_requests
+  set status = case when approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = comment
+  where id = request_id;
+end;
+$$;
+
+grant execute on function public.review_time_log_request(uuid, boolean, text) to authenticated;
@@ -0,0 +1,245 @@
+-- Weekly timesheets.
+-- A freelancer submits one timesheet per week (Monday to Sunday in their
+-- local time, stored as period_start/period_end) through submit_timesheet(),
+-- which totals the week from time_logs. The workspace owner approves or
+-- rejects it through review_timesheet(). Approved weeks are
+-- locked: their time_logs can no longer be changed and no new manual
+-- entries or edit requests can be filed against them.
+
+create table if not exists public.timesheets (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  week_start date not null,
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  total_seconds integer not null default 0,
+  status text not null default 'submitted' check (status in ('submitted', 'approved', 'rejected')),
+  submitted_at timestamptz not null default now(),
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz,
+  review_comment text,
+  unique (user_id, week_start),
+  check (period_end > period_start)
+);
+
+create index if not exists timesheets_workspace_status_idx
+  on public.timesheets (workspace_id, status);
+
+alter table public.timesheets enable row level security;
+
+create policy "Users can read their own timesheets"
+  on public.timesheets for select
+  using (auth.uid() = user_id);
+
+create policy "Owners can read their workspace's timesheets"
+  on public.timesheets for select
+  using (exists (
+    select 1 from public.workspaces w
+    where w.id = workspace_id and w.owner_id = auth.uid()
+  ));
+
+-- True when `at` falls inside an approved week of the user's timesheets
+create or replace function public.is_time_locked(target_user uuid, at timestamptz)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.timesheets
+    where user_id = target_user
+      and status = 'approved'
+      and at >= period_start
+      and at < period_end
+  );
+$$;
+
+create or replace function public.review_timesheet(
+  timesheet_id uuid,
+  approve boolean,
+  comment text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sheet public.timesheets%rowtype;
+begin
+  select * into sheet from public.timesheets where id = timesheet_id for update;
+
+  if not found then
+    raise exception 'Timesheet not found';
+  end if;
+
+  if not exists (
+    select 1 from public.workspaces
+    where id = sheet.workspace_id and owner_id = auth.uid()
+  ) then
+    raise exception 'Only the workspace owner can review timesheets';
+  end if;
+
+  if sheet.status <> 'submitted' then
+    raise exception 'Timesheet is not awaiting review';
+  end if;
+
+  update public.timesheets
+  set status = case when approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = comment
+  where id = timesheet_id;
+end;
+$$;
+
+grant execute on function public.review_timesheet(uuid, boolean, text) to authenticated;
+
+-- Submits the caller's week, or resubmits it after a rejection. The total is
+-- worked time inside the period, with logs that cross its edges counted in
+-- proportion (as splitByDay() does for the week view).
+create or replace function public.submit_timesheet(
+  target_workspace uuid,
+  target_week date,
+  period_from timestamptz,
+  period_to timestamptz
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sheet public.timesheets%rowtype;
+  total integer;
+begin
+  if not exists (
+    select 1 from public.workspace_members
+    where workspace_id = target_workspace and user_id = auth.uid()
+  ) then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  select * into sheet from public.timesheets t
+  where t.workspace_id = target_workspace and t.user_id = auth.uid() and t.week_start = target_week
+  for update;
+
+  if found and sheet.status <> 'rejected' then
+    raise exception 'This week has already been submitted';
+  end if;
+
+  -- A new week must be one Monday-to-Sunday week (23 to 25 hour days around
+  -- DST) that doesn't overlap another submitted week
+  if not found then
+    if extract(isodow from target_week) <> 1
+       or period_to - period_from not between interval '167 hours' and interval '169 hours' then
+      raise exception 'Invalid timesheet period';
+    end if;
+
+    if exists (
+      select 1 from public.timesheets t
+      where t.workspace_id = target_workspace and t.user_id = auth.uid()
+        and t.period_start < period_to and t.period_end > period_from
+    ) then
+      raise exception 'This period overlaps another timesheet';
+    end if;
+
+    sheet.period_start := period_from;
+    sheet.period_end := period_to;
+  end if;
+
+  select coalesce(sum(round(
+           l.duration_seconds
+           * extract(epoch from least(l.end_time, sheet.period_end) - greatest(l.start_time, sheet.period_start))
+           / greatest(extract(epoch from l.end_time - l.start_time), 1)
+         )), 0)::int
+  into total
+  from public.time_logs l
+  where l.workspace_id = target_workspace
+    and l.user_id = auth.uid()
+    and l.start_time < sheet.period_end
+    and l.end_time > sheet.period_start;
+
+  -- A running session would be logged into the week after it's reviewed
+  if exists (
+    select 1 from public.active_sessions a
+    where a.user_id = auth.uid() and a.workspace_id = target_workspace and a.started_at < sheet.period_end
+  ) then
+    raise exception 'Stop your timer before submitting this week';
+  end if;
+
+  if total <= 0 then
+    raise exception 'There is no time to submit for this week';
+  end if;
+
+  if sheet.id is not null then
+    update public.timesheets
+    set status = 'submitted',
+        total_seconds = total,
+        submitted_at = now(),
+        reviewed_by = null,
+        reviewed_at = null,
+        review_comment = null
+    where id = sheet.id;
+    return sheet.id;
+  end if;
+
+  insert into public.timesheets (workspace_id, user_id, week_start, period_start, period_end, total_seconds)
+  values (target_workspace, auth.uid(), target_week, sheet.period_start, sheet.period_end, total)
+  returning id into sheet.id;
+
+  return sheet.id;
+end;
+$$;
+
+grant execute on function public.submit_timesheet(uuid, date, timestamptz, timestamptz) to authenticated;
+
+-- Locking. Nothing may add, change or remove time in an approved week,
+-- whatever its source: a late timer log has to go through an edit request
+-- once the week is reopened.
+create or replace function public.enforce_time_log_lock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') and public.is_time_locked(old.user_id, old.start_time) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') and public.is_time_locked(new.user_id, new.start_time) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists time_logs_lock on public.time_logs;
+create trigger time_logs_lock
+  before insert or update or delete on public.time_logs
+  for each row execute function public.enforce_time_log_lock();
+
+create or replace function public.enforce_time_request_lock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_time_locked(new.user_id, new.proposed_start_time)
+     or (new.original is not null
+         and public.is_time_locked(new.user_id, (new.original ->> 'start_time')::timestamptz)) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists time_log_requests_lock on public.time_log_requests;
+create trigger time_log_requests_lock
+  before insert on public.time_log_requests
+  for each row execute function public.enforce_time_request_lock();
@@ -0,0 +1,346 @@
+-- Billable rates and invoices.
+-- Rates live on workspace_members (per member) and optionally on tasks
+-- (overrides the member rate). Tasks and time_logs carry a billable flag;
+-- a log inherits it from its task. Invoices are created by
+-- create_invoice() from approved, billable, not-yet-invoiced time and are
+-- numbered per workspace. Rates, a task's billable flag and invoice status
+-- change only through set_member_rate(), set_task_billing() and
+-- set_invoice_status(), and a log's invoice_id only inside
+-- create_invoice() and set_invoice_status().
+
+alter table public.workspaces
+  add column if not exists currency text not null default 'USD';
+
+alter table public.workspace_members
+  add column if not exists hourly_rate numeric(10, 2) check (hourly_rate >= 0);
+
+alter table public.tasks
+  add column if not exists hourly_rate numeric(10, 2) check (hourly_rate >= 0),
+  add column if not exists billable boolean not null default true;
+
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  number integer not null,
+  member_id uuid references public.profiles (id) on delete set null, -- null: all members
+  bill_to text,
+  notes text,
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  currency text not null,
+  line_items jsonb not null default '[]'::jsonb,
+  total_seconds integer not null default 0,
+  total_amount numeric(12, 2) not null default 0,
+  status text not null default 'issued' check (status in ('issued', 'paid', 'void')),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, number)
+);
+
+alter table public.time_logs
+  add column if not exists billable boolean not null default true,
+  add column if not exists invoice_id uuid references public.invoices (id) on delete set null;
+
+create index if not exists time_logs_invoice_id_idx on public.time_logs (invoice_id);
+
+comment on column public.invoices.line_items is 'Rows: [{ member_id, member, task_id, description, seconds, hours, rate, amount }].';
+
+alter table public.invoices enable row level security;
+
+create policy "Owners can read their workspace's invoices"
+  on public.invoices for select
+  using (exists (
+    select 1 from public.workspaces w
+    where w.id = workspace_id and w.owner_id = auth.uid()
+  ));
+
+create or replace function public.set_member_rate(target_workspace uuid, target_user uuid, rate numeric)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.workspaces where id = target_workspace and owner_id = auth.uid()
+  ) then
+    raise exception 'Only the workspace owner can set rates';
+  end if;
+
+  update public.workspace_members
+  set hourly_rate = rate
+  where workspace_id = target_workspace and user_id = target_user;
+
+  if not found then
+    raise exception 'Member not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_member_rate(uuid, uuid, numeric) to authenticated;
+
+-- A task's rate overrides the member rate; a null rate falls back to it
+create or replace function public.set_task_billing(target_task uuid, rate numeric, is_billable boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks%rowtype;
+begin
+  select * into task from public.tasks where id = target_task;
+
+  if not found then
+    raise exception 'Task not found';
+  end if;
+
+  if not exists (
+    select 1 from public.workspaces where id = task.workspace_id and owner_id = auth.uid()
+  ) then
+    raise exception 'Only the workspace owner can set rates';
+  end if;
+
+  perform set_config('app.task_billing', 'on', true);
+
+  update public.tasks
+  set hourly_rate = rate,
+      billable = is_billable
+  where id = target_task;
+
+  perform set_config('app.task_billing', 'off', true);
+end;
+$$;
+
+grant execute on function public.set_task_billing(uuid, numeric, boolean) to authenticated;
+
+-- Direct writes can create tasks and edit their details, never their billing
+create or replace function public.guard_task_billing()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.task_billing', true), '') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.hourly_rate := null;
+    new.billable := true;
+    return new;
+  end if;
+
+  if new.hourly_rate is distinct from old.hourly_rate
+     or new.billable is distinct from old.billable then
+    raise exception 'Task billing can only be changed with set_task_billing';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_billing_guard on public.tasks;
+create trigger tasks_billing_guard
+  before insert or update on public.tasks
+  for each row execute function public.guard_task_billing();
+
+-- A log inherits billable from its task
+create or replace function public.inherit_time_log_billable()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.task_id is not null and (tg_op = 'INSERT' or new.task_id is distinct from old.task_id) then
+    select coalesce(t.billable, true) into new.billable from public.tasks t where t.id = new.task_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists time_logs_inherit_billable on public.time_logs;
+create trigger time_logs_inherit_billable
+  before insert or update on public.time_logs
+  for each row execute function public.inherit_time_log_billable();
+
+-- Locked (approved) weeks may still be invoiced: only changes to the logged
+-- time itself, or to whether it is billable, are refused. Time moves on and
+-- off invoices only inside create_invoice() and set_invoice_status().
+create or replace function public.enforce_time_log_lock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (tg_op = 'INSERT' and new.invoice_id is not null)
+     or (tg_op = 'UPDATE' and new.invoice_id is distinct from old.invoice_id) then
+    if coalesce(current_setting('app.invoicing', true), '') <> 'on' then
+      raise exception 'Invoiced time can only change through its invoice';
+    end if;
+  end if;
+
+  if tg_op = 'UPDATE'
+     and new.start_time = old.start_time
+     and new.end_time = old.end_time
+     and new.duration_seconds = old.duration_seconds
+     and new.task_id is not distinct from old.task_id
+     and new.billable = old.billable then
+    return new;
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE') and public.is_time_locked(old.user_id, old.start_time) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') and public.is_time_locked(new.user_id, new.start_time) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+-- Builds an invoice for the caller's workspace from approved, billable time
+-- in [period_from, period_to) that hasn't been invoiced yet.
+create or replace function public.create_invoice(
+  period_from timestamptz,
+  period_to timestamptz,
+  member uuid default null,
+  bill_to text default null,
+  notes text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ws public.workspaces%rowtype;
+  new_invoice_id uuid := gen_random_uuid();
+  next_number integer;
+  items jsonb;
+  seconds_total integer;
+  amount_total numeric(12, 2);
+begin
+  -- Row lock on the workspace serializes invoice numbering
+  select * into ws from public.workspaces where owner_id = auth.uid() limit 1 for update;
+
+  if not found then
+    raise exception 'Only workspace owners can create invoices';
+  end if;
+
+  if period_to <= period_from then
+    raise exception 'Invalid invoice period';
+  end if;
+
+  with billable_logs as (
+    select l.id, l.user_id, l.task_id, l.duration_seconds
+    from public.time_logs l
+    where l.workspace_id = ws.id
+      and l.billable
+      and l.invoice_id is null
+      and l.start_time >= period_from
+      and l.start_time < period_to
+      and (member is null or l.user_id = member)
+      and public.is_time_locked(l.user_id, l.start_time)
+  ),
+  grouped as (
+    select
+      bl.user_id,
+      bl.task_id,
+      sum(bl.duration_seconds)::int as seconds,
+      coalesce(t.hourly_rate, wm.hourly_rate, 0) as rate,
+      coalesce(p.full_name, 'Unknown User') as member_name,
+      coalesce(t.title, 'General work') as task_title
+    from billable_logs bl
+    left join public.tasks t on t.id = bl.task_id
+    left join public.workspace_members wm on wm.workspace_id = ws.id and wm.user_id = bl.user_id
+    left join public.profiles p on p.id = bl.user_id
+    group by bl.user_id, bl.task_id, t.hourly_rate, wm.hourly_rate, p.full_name, t.title
+  )
+  select
+    coalesce(jsonb_agg(jsonb_build_object(
+      'member_id', user_id,
+      'member', member_name,
+      'task_id', task_id,
+      'description', task_title,
+      'seconds', seconds,
+      'hours', round(seconds / 3600.0, 2),
+      'rate', rate,
+      'amount', round(round(seconds / 3600.0, 2) * rate, 2)
+    ) order by member_name, task_title), '[]'::jsonb),
+    coalesce(sum(seconds), 0),
+    coalesce(sum(round(round(seconds / 3600.0, 2) * rate, 2)), 0)
+  into items, seconds_total, amount_total
+  from grouped;
+
+  if seconds_total = 0 then
+    raise exception 'No approved, billable time left to invoice in this period';
+  end if;
+
+  select coalesce(max(number), 0) + 1 into next_number
+  from public.invoices where workspace_id = ws.id;
+
+  insert into public.invoices (
+    id, workspace_id, number, member_id, bill_to, notes, period_start, period_end,
+    currency, line_items, total_seconds, total_amount, created_by
+  ) values (
+    new_invoice_id, ws.id, next_number, member, bill_to, notes, period_from, period_to,
+    ws.currency, items, seconds_total, amount_total, auth.uid()
+  );
+
+  perform set_config('app.invoicing', 'on', true);
+
+  update public.time_logs l
+  set invoice_id = new_invoice_id
+  where l.workspace_id = ws.id
+    and l.billable
+    and l.invoice_id is null
+    and l.start_time >= period_from
+    and l.start_time < period_to
+    and (member is null or l.user_id = member)
+    and public.is_time_locked(l.user_id, l.start_time);
+
+  return new_invoice_id;
+end;
+$$;
+
+grant execute on function public.create_invoice(timestamptz, timestamptz, uuid, text, text) to authenticated;
+
+-- An issued invoice is either paid or voided, once. Voiding releases its
+-- time so it can be invoiced again.
+create or replace function public.set_invoice_status(target_invoice uuid, new_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.invoices%rowtype;
+begin
+  select * into inv from public.invoices where id = target_invoice for update;
+
+  if not found or not exists (
+    select 1 from public.workspaces where id = inv.workspace_id and owner_id = auth.uid()
+  ) then
+    raise exception 'Invoice not found';
+  end if;
+
+  if new_status not in ('paid', 'void') then
+    raise exception 'Invalid invoice status';
+  end if;
+
+  if inv.status <> 'issued' then
+    raise exception 'Only issued invoices can be marked paid or void';
+  end if;
+
+  update public.invoices set status = new_status where id = inv.id;
+
+  if new_status = 'void' then
+    perform set_config('app.invoicing', 'on', true);
+    update public.time_logs set invoice_id = null where invoice_id = inv.id;
+  end if;
+end;
+$$;
+
+grant execute on function public.set_invoice_status(uuid, text) to authenticated;
@@ -0,0 +1,105 @@
+-- Server-side aggregation for Team Reports.
+-- team_report_stats() returns the chart series for the caller's workspace
+-- so the page no longer downloads every time_logs row:
+--   daily:   worked seconds per local day and member
+--   heatmap: worked seconds per ISO weekday (1 = Monday) and hour of day
+--   weekly:  worked seconds per week (Monday start)
+--   members: totals and session counts per member
+-- Logs are spread over the wall-clock hours they cover in time zone `tz`,
+-- scaled so each log contributes exactly its duration_seconds.
+
+create or replace function public.team_report_stats(
+  period_from timestamptz default null,
+  period_to timestamptz default null,
+  member uuid default null,
+  tz text default 'UTC'
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  ws_id uuid;
+  result jsonb;
+begin
+  select id into ws_id from public.workspaces where owner_id = auth.uid() limit 1;
+
+  if ws_id is null then
+    raise exception 'Only workspace owners can view team reports';
+  end if;
+
+  -- A zone the database doesn't know falls back to UTC
+  if not exists (select 1 from pg_timezone_names where name = tz) then
+    tz := 'UTC';
+  end if;
+
+  with logs as (
+    select
+      l.user_id,
+      l.start_time at time zone tz as local_start,
+      l.end_time at time zone tz as local_end,
+      l.duration_seconds
+    from public.time_logs l
+    where l.workspace_id = ws_id
+      and (period_from is null or l.start_time >= period_from)
+      and (period_to is null or l.start_time < period_to)
+      and (member is null or l.user_id = member)
+  ),
+  hourly as (
+    select
+      lg.user_id,
+      h.hour_start,
+      extract(epoch from least(lg.local_end, h.hour_start + interval '1 hour') - greatest(lg.local_start, h.hour_start))
+        * lg.duration_seconds
+        / greatest(extract(epoch from lg.local_end - lg.local_start), 1) as seconds
+    from logs lg
+    cross join lateral generate_series(
+      date_trunc('hour', lg.local_start),
+      lg.local_end - interval '1 microsecond',
+      interval '1 hour'
+    ) as h (hour_start)
+  ),
+  member_totals as (
+    select lg.user_id, coalesce(p.full_name, 'Unknown User') as full_name,
+           sum(lg.duration_seconds)::int as seconds, count(*)::int as sessions
+    from logs lg
+    left join public.profiles p on p.id = lg.user_id
+    group by lg.user_id, p.full_name
+  )
+  select jsonb_build_object(
+    'daily', coalesce((
+      select jsonb_agg(d order by d.day)
+      from (
+        select hour_start::date as day, user_id, round(sum(seconds))::int as seconds
+        from hourly group by 1, 2
+      ) d
+    ), '[]'::jsonb),
+    'heatmap', coalesce((
+      select jsonb_agg(hm)
+      from (
+        select extract(isodow from hour_start)::int as dow, extract(hour from hour_start)::int as hour,
+               round(sum(seconds))::int as seconds
+        from hourly group by 1, 2
+      ) hm
+    ), '[]'::jsonb),
+    'weekly', coalesce((
+      select jsonb_agg(w order by w.week_start)
+      from (
+        select date_trunc('week', hour_start)::date as week_start, round(sum(seconds))::int as seconds
+        from hourly group by 1
+      ) w
+    ), '[]'::jsonb),
+    'members', coalesce((
+      select jsonb_agg(m order by m.seconds desc) from member_totals m
+    ), '[]'::jsonb),
+    'total_seconds', coalesce((select sum(seconds) from member_totals), 0),
+    'sessions', coalesce((select sum(sessions) from member_totals), 0)
+  ) into result;
+
+  return result;
+end;
+$$;
+
+grant execute on function public.team_report_stats(timestamptz, timestamptz, uuid, text) to authenticated;
@@ -0,0 +1,42 @@
+-- Time zones for reporting.
+-- Days and weeks (reports, timesheets, exports, invoices) are bucketed in an
+-- explicit zone: the user's own profile zone if set, otherwise the workspace
+-- zone. Values are IANA names, e.g. 'Asia/Manila', checked against the
+-- names the database knows.
+
+alter table public.workspaces
+  add column if not exists time_zone text not null default 'UTC';
+
+alter table public.profiles
+  add column if not exists time_zone text;
+
+-- Only names the database knows, so every `at time zone` on them works
+create or replace function public.check_time_zone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.time_zone is not null
+     and not exists (select 1 from pg_timezone_names where name = new.time_zone) then
+    raise exception 'Unknown time zone: %', new.time_zone;
+  end if;
+
+  return new;
+end;
+$$;
+
+update public.workspaces set time_zone = 'UTC'
+where time_zone not in (select name from pg_timezone_names);
+
+update public.profiles set time_zone = null
+where time_zone not in (select name from pg_timezone_names);
+
+drop trigger if exists workspaces_time_zone_check on public.workspaces;
+create trigger workspaces_time_zone_check
+  before insert or update of time_zone on public.workspaces
+  for each row execute function public.check_time_zone();
+
+drop trigger if exists profiles_time_zone_check on public.profiles;
+create trigger profiles_time_zone_check
+  before insert or update of time_zone on public.profiles
+  for each row execute function public.check_time_zone();
@@ -0,0 +1,70 @@
+-- Shift schedules.
+-- A recurring weekly schedule per member: at most one shift per ISO weekday
+-- (1 = Monday). Times are wall-clock in the member's time zone (their
+-- profile zone, else the workspace zone); an end_time at or before
+-- start_time means the shift runs past midnight. Attendance (late starts,
+-- missed shifts, overtime) is derived from these and time_logs. A member's
+-- schedule is replaced as a whole through set_member_shifts().
+
+create table if not exists public.shifts (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  weekday smallint not null check (weekday between 1 and 7),
+  start_time time not null,
+  end_time time not null,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, user_id, weekday)
+);
+
+alter table public.shifts enable row level security;
+
+create policy "Owners can read their workspace's shifts"
+  on public.shifts for select
+  using (exists (
+    select 1 from public.workspaces w
+    where w.id = workspace_id and w.owner_id = auth.uid()
+  ));
+
+create policy "Users can read their own shifts"
+  on public.shifts for select
+  using (auth.uid() = user_id);
+
+-- Replaces the member's week in one go: `schedule` is
+-- [{ weekday, start_time, end_time }], one entry per scheduled day
+create or replace function public.set_member_shifts(target_workspace uuid, target_user uuid, schedule jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.workspaces where id = target_workspace and owner_id = auth.uid()
+  ) then
+    raise exception 'Only the workspace owner can set shifts';
+  end if;
+
+  if not exists (
+    select 1 from public.workspace_members where workspace_id = target_workspace and user_id = target_user
+  ) then
+    raise exception 'Member not found';
+  end if;
+
+  delete from public.shifts where workspace_id = target_workspace and user_id = target_user;
+
+  insert into public.shifts (workspace_id, user_id, weekday, start_time, end_time)
+  select target_workspace, target_user, d.weekday, d.start_time, d.end_time
+  from jsonb_to_recordset(coalesce(schedule, '[]'::jsonb)) as d (weekday smallint, start_time time, end_time time);
+end;
+$$;
+
+grant execute on function public.set_member_shifts(uuid, uuid, jsonb) to authenticated;
+
+-- Owners need the running session's start to tell a late start from an on-time one
+create policy "Owners can read their workspace's active sessions"
+  on public.active_sessions for select
+  using (exists (
+    select 1 from public.workspaces w
+    where w.id = workspace_id and w.owner_id = auth.uid()
+  ));
@@ -0,0 +1,257 @@
+-- Daily and weekly hour limits per member.
+-- Limits live on workspace_members next to the hourly rate and are set by
+-- the owner through set_member_hour_limits(). The timer warns
+-- as a limit approaches and, with auto_stop_at_limit, stops itself at it.
+-- Crossing a limit notifies the workspace owner once per day or week
+-- through report_hour_limit_exceeded(), which totals the member's time
+-- itself. Users mark their notifications read with mark_notifications_read().
+
+alter table public.workspace_members
+  add column if not exists daily_hour_limit numeric(5, 2) check (daily_hour_limit > 0 and daily_hour_limit <= 24),
+  add column if not exists weekly_hour_limit numeric(5, 2) check (weekly_hour_limit > 0 and weekly_hour_limit <= 168),
+  add column if not exists auto_stop_at_limit boolean not null default false;
+
+create or replace function public.set_member_hour_limits(
+  target_workspace uuid,
+  target_user uuid,
+  daily_hours numeric,
+  weekly_hours numeric,
+  auto_stop boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.workspaces where id = target_workspace and owner_id = auth.uid()
+  ) then
+    raise exception 'Only the workspace owner can set hour limits';
+  end if;
+
+  update public.workspace_members
+  set daily_hour_limit = daily_hours,
+      weekly_hour_limit = weekly_hours,
+      auto_stop_at_limit = auto_stop
+  where workspace_id = target_workspace and user_id = target_user;
+
+  if not found then
+    raise exception 'Member not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_member_hour_limits(uuid, uuid, numeric, numeric, boolean) to authenticated;
+
+-- In-app notifications, delivered over realtime
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  kind text not null,
+  title text not null,
+  body text,
+  data jsonb not null default '{}'::jsonb,
+  -- Repeat reports of the same event are dropped
+  dedupe_key text unique,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+create policy "Users can read their own notifications"
+  on public.notifications for select
+  using (auth.uid() = user_id);
+
+-- Read markers are the only thing users change on their notifications
+create or replace function public.mark_notifications_read(notification_ids uuid[] default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notifications
+  set read_at = now()
+  where user_id = auth.uid()
+    and read_at is null
+    and (notification_ids is null or id = any (notification_ids));
+$$;
+
+grant execute on function public.mark_notifications_read(uuid[]) to authenticated;
+
+alter publication supabase_realtime add table public.notifications;
+
+-- The member's zone for days and weeks: their own, else the workspace's,
+-- else UTC
+create or replace function public.member_time_zone(target_workspace uuid, target_user uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select coalesce(pz.name, wz.name)
+    from public.workspaces w
+    left join public.profiles p on p.id = target_user
+    left join pg_timezone_names pz on pz.name = p.time_zone
+    left join pg_timezone_names wz on wz.name = w.time_zone
+    where w.id = target_workspace
+  ), 'UTC');
+$$;
+
+revoke execute on function public.member_time_zone(uuid, uuid) from public, anon, authenticated;
+
+-- Worked time between two instants: the share of each log inside the range
+-- plus the running session, less its breaks and discarded idle time
+create or replace function public.member_worked_seconds(
+  target_workspace uuid,
+  target_user uuid,
+  range_from timestamptz,
+  range_to timestamptz
+)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select floor(
+    coalesce((
+      select sum(
+        l.duration_seconds
+          * extract(epoch from least(l.end_time, range_to) - greatest(l.start_time, range_from))
+          / extract(epoch from l.end_time - l.start_time)
+      )
+      from public.time_logs l
+      where l.workspace_id = target_workspace
+        and l.user_id = target_user
+        and l.start_time < range_to
+        and l.end_time > range_from
+        and l.end_time > l.start_time
+    ), 0)
+    + coalesce((
+      select sum(
+        extract(epoch from least(now(), range_to) - greatest(a.started_at, range_from))
+        - public.paused_seconds(a.breaks || a.idle_periods, greatest(a.started_at, range_from), least(now(), range_to))
+      )
+      from public.active_sessions a
+      where a.workspace_id = target_workspace
+        and a.user_id = target_user
+        and a.started_at < range_to
+        and now() > range_from
+    ), 0)
+  )::bigint;
+$$;
+
+revoke execute on function public.member_worked_seconds(uuid, uuid, timestamptz, timestamptz) from public, anon, authenticated;
+
+-- The current day or week in the member's zone, what they worked in it and
+-- their limit for it
+create or replace function public.hour_limit_status(target_workspace uuid, target_user uuid, period text)
+returns table (period_start date, worked_seconds bigint, limit_hours numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with bounds as (
+    select z.zone,
+           case when period = 'day' then (now() at time zone z.zone)::date
+                else date_trunc('week', now() at time zone z.zone)::date
+           end as first_day
+    from (select public.member_time_zone(target_workspace, target_user) as zone) z
+  )
+  select b.first_day,
+         public.member_worked_seconds(
+           target_workspace,
+           target_user,
+           b.first_day::timestamp at time zone b.zone,
+           (b.first_day + case when period = 'day' then 1 else 7 end)::timestamp at time zone b.zone
+         ),
+         case when period = 'day' then m.daily_hour_limit else m.weekly_hour_limit end
+  from bounds b
+  join public.workspace_members m on m.workspace_id = target_workspace and m.user_id = target_user;
+$$;
+
+revoke execute on function public.hour_limit_status(uuid, uuid, text) from public, anon, authenticated;
+
+-- Tells the workspace owner, once per member and day or week
+create or replace function public.notify_hour_limit_exceeded(
+  target_workspace uuid,
+  target_user uuid,
+  period text,
+  period_start date,
+  worked_seconds bigint,
+  limit_hours numeric
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  owner uuid;
+  member_name text;
+begin
+  select owner_id into owner from public.workspaces where id = target_workspace;
+  if owner is null or owner = target_user then
+    return;
+  end if;
+
+  select coalesce(full_name, 'A team member') into member_name from public.profiles where id = target_user;
+
+  insert into public.notifications (user_id, workspace_id, kind, title, body, data, dedupe_key)
+  values (
+    owner,
+    target_workspace,
+    'hour_limit_exceeded',
+    coalesce(member_name, 'A team member') || ' passed their ' || case when period = 'day' then 'daily' else 'weekly' end || ' hour limit',
+    'Tracked ' || round(worked_seconds / 3600.0, 1) || 'h of a ' || trim_scale(limit_hours) || 'h limit.',
+    jsonb_build_object('member', target_user, 'period', period, 'period_start', period_start, 'worked_seconds', worked_seconds),
+    'hour_limit:' || target_workspace || ':' || target_user || ':' || period || ':' || period_start
+  )
+  on conflict (dedupe_key) do nothing;
+end;
+$$;
+
+revoke execute on function public.notify_hour_limit_exceeded(uuid, uuid, text, date, bigint, numeric) from public, anon, authenticated;
+
+-- Called by the member's timer when it sees a limit pass; the database
+-- checks the member's own logs before telling anyone
+create or replace function public.report_hour_limit_exceeded(period text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member public.workspace_members%rowtype;
+  status record;
+begin
+  if period not in ('day', 'week') then
+    raise exception 'Unknown limit period';
+  end if;
+
+  select * into member from public.workspace_members where user_id = auth.uid() limit 1;
+  if not found then
+    raise exception 'Not a workspace member';
+  end if;
+
+  select * into status from public.hour_limit_status(member.workspace_id, auth.uid(), period);
+  if status.limit_hours is null or status.worked_seconds < status.limit_hours * 3600 then
+    return;
+  end if;
+
+  perform public.notify_hour_limit_exceeded(
+    member.workspace_id, auth.uid(), period, status.period_start, status.worked_seconds, status.limit_hours
+  );
+end;
+$$;
+
+grant execute on function public.report_hour_limit_exceeded(text) to authenticated;
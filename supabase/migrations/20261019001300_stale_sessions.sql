@@ -0,0 +1,168 @@
+-- Automatic stop for forgotten timers.
+-- The timer reports user activity (last_activity_at) while it runs. Every
+-- 15 minutes close_stale_sessions() closes sessions that have run longer
+-- than the workspace's max_session_hours: each task segment becomes a
+-- time_logs row ending at the last detected activity, flagged auto_stopped
+-- for review, and the user is notified. Activity is what the timer reported,
+-- never later than the moment the server received it. Each session is closed
+-- on its own, so one that fails is left for the next run and logged as a
+-- warning instead of holding back the others.
+
+alter table public.workspaces
+  add column if not exists max_session_hours numeric(4, 1) not null default 12
+    check (max_session_hours > 0 and max_session_hours <= 72);
+
+alter table public.active_sessions
+  add column if not exists last_activity_at timestamptz not null default now();
+
+alter table public.time_logs
+  add column if not exists auto_stopped boolean not null default false;
+
+comment on column public.time_logs.auto_stopped is 'Closed by close_stale_sessions(); the end time is the last detected activity.';
+
+-- Turns a session into time_logs rows ending at stop_at: one per task
+-- segment, with breaks and discarded idle time clipped to it. Returns the
+-- client_session_id of each new log.
+create or replace function public.log_timer_session(s public.active_sessions, stop_at timestamptz, auto_stop boolean)
+returns setof uuid
+language sql
+as $$
+  with segs as (
+    select (seg ->> 'id')::uuid as id,
+           nullif(seg ->> 'task_id', '')::uuid as task_id,
+           (seg ->> 'start_time')::timestamptz as seg_start,
+           ord
+    from jsonb_array_elements(
+      case when jsonb_array_length(s.segments) > 0 then s.segments
+      else jsonb_build_array(jsonb_build_object('id', s.client_session_id, 'task_id', s.task_id, 'start_time', s.started_at))
+      end
+    ) with ordinality as t (seg, ord)
+  ),
+  bounded as (
+    select id, task_id, seg_start,
+           least(coalesce(lead(seg_start) over (order by ord), stop_at), stop_at) as seg_end
+    from segs
+  ),
+  pauses as (
+    select b.id, p.kind,
+           greatest(p.start_time, b.seg_start) as p_start,
+           least(coalesce(p.end_time, stop_at), b.seg_end) as p_end
+    from bounded b
+    cross join lateral (
+      select 'break' as kind, br.start_time, br.end_time
+      from jsonb_to_recordset(s.breaks) as br (start_time timestamptz, end_time timestamptz)
+      union all
+      select 'idle', ip.start_time, ip.end_time
+      from jsonb_to_recordset(s.idle_periods) as ip (start_time timestamptz, end_time timestamptz)
+    ) p
+  ),
+  lists as (
+    select id,
+           coalesce(jsonb_agg(jsonb_build_object('start_time', p_start, 'end_time', p_end)) filter (where kind = 'break'), '[]'::jsonb) as breaks,
+           coalesce(jsonb_agg(jsonb_build_object('start_time', p_start, 'end_time', p_end)) filter (where kind = 'idle'), '[]'::jsonb) as idle_periods
+    from pauses
+    where p_end > p_start
+    group by id
+  ),
+  -- Idle time that fell in a break is already break time
+  totals as (
+    select b.id, l.breaks, l.idle_periods,
+           public.paused_seconds(s.breaks, b.seg_start, b.seg_end) as break_seconds,
+           public.paused_seconds(s.breaks || s.idle_periods, b.seg_start, b.seg_end)
+             - public.paused_seconds(s.breaks, b.seg_start, b.seg_end) as idle_seconds
+    from bounded b
+    left join lists l on l.id = b.id
+  )
+  insert into public.time_logs (
+    user_id, workspace_id, client_session_id, task_id, start_time, end_time,
+    duration_seconds, break_seconds, breaks, idle_seconds, idle_periods, auto_stopped
+  )
+  select
+    s.user_id, s.workspace_id, b.id, b.task_id, b.seg_start, b.seg_end,
+    greatest(0, floor(extract(epoch from b.seg_end - b.seg_start) - coalesce(t.break_seconds, 0) - coalesce(t.idle_seconds, 0)))::int,
+    floor(coalesce(t.break_seconds, 0))::int,
+    coalesce(t.breaks, '[]'::jsonb),
+    floor(coalesce(t.idle_seconds, 0))::int,
+    coalesce(t.idle_periods, '[]'::jsonb),
+    auto_stop
+  from bounded b
+  left join totals t on t.id = b.id
+  where b.seg_end > b.seg_start
+  on conflict (client_session_id) do nothing
+  returning client_session_id;
+$$;
+
+revoke execute on function public.log_timer_session(public.active_sessions, timestamptz, boolean) from public, anon, authenticated;
+
+create or replace function public.close_stale_sessions()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype;
+  max_hours numeric;
+  ended_at timestamptz;
+  zone text;
+  closed integer := 0;
+begin
+  for s in
+    select a.*
+    from public.active_sessions a
+    left join public.workspaces w on w.id = a.workspace_id
+    where a.started_at < now() - coalesce(w.max_session_hours, 12) * interval '1 hour'
+    for update of a skip locked
+  loop
+    begin
+      select coalesce(max(w.max_session_hours), 12) into max_hours
+      from public.workspaces w where w.id = s.workspace_id;
+
+      -- Close at the last sign of activity, never past the maximum
+      ended_at := least(
+        greatest(s.last_activity_at, s.started_at),
+        s.started_at + max_hours * interval '1 hour'
+      );
+
+      perform public.log_timer_session(s, ended_at, true);
+
+      -- The user's zone for the message, or UTC when none is set or known
+      select coalesce(
+        (select n.name from pg_timezone_names n where n.name = coalesce(p.time_zone, w.time_zone)),
+        'UTC'
+      ) into zone
+      from public.profiles p
+      left join public.workspaces w on w.id = s.workspace_id
+      where p.id = s.user_id;
+      zone := coalesce(zone, 'UTC');
+
+      delete from public.active_sessions where user_id = s.user_id;
+      update public.profiles set current_status = 'offline' where id = s.user_id;
+
+      insert into public.notifications (user_id, workspace_id, kind, title, body, data)
+      values (
+        s.user_id,
+        s.workspace_id,
+        'timer_auto_stopped',
+        'Your timer was stopped automatically',
+        'It ran for more than ' || trim_scale(max_hours) || 'h, so it was closed at your last activity ('
+          || to_char(ended_at at time zone zone, 'Mon DD HH24:MI') || ' ' || zone || '). Please check the entry and request an edit if needed.',
+        jsonb_build_object('started_at', s.started_at, 'ended_at', ended_at)
+      );
+
+      closed := closed + 1;
+    exception when others then
+      raise warning 'close_stale_sessions: session % of user % not closed: %', s.client_session_id, s.user_id, sqlerrm;
+    end;
+  end loop;
+
+  return closed;
+end;
+$$;
+
+revoke execute on function public.close_stale_sessions() from public, anon, authenticated;
+
+-- Run the sweeper every 15 minutes
+create extension if not exists pg_cron;
+
+select cron.schedule('close-stale-sessions', '*/15 * * * *', 'select public.close_stale_sessions()');
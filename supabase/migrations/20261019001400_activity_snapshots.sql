@@ -0,0 +1,127 @@
+-- Proof-of-work activity snapshots.
+-- When the workspace owner turns sampling on AND the member has consented,
+-- the member's browser records a snapshot every few minutes while their
+-- timer runs: share of active minutes (from keyboard and mouse input), the
+-- page they were on, and (separately opted in) a screen capture stored in
+-- the private `activity-screenshots` bucket under
+-- <workspace_id>/<user_id>/<session_id>/, so each capture is visible only
+-- in the workspace it was taken for.
+-- Owners view the snapshots of each logged session in Team Reports.
+
+alter table public.workspaces
+  add column if not exists activity_tracking boolean not null default false,
+  add column if not exists screenshot_tracking boolean not null default false;
+
+alter table public.workspace_members
+  add column if not exists activity_consent boolean not null default false,
+  add column if not exists screenshot_consent boolean not null default false,
+  add column if not exists consent_updated_at timestamptz;
+
+create table if not exists public.activity_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  session_id uuid not null, -- active_sessions.client_session_id
+  period_start timestamptz not null,
+  captured_at timestamptz not null default now(),
+  activity_percent smallint not null check (activity_percent between 0 and 100),
+  keyboard_events integer not null default 0,
+  mouse_events integer not null default 0,
+  window_title text,
+  page_path text,
+  focused boolean not null default true,
+  screenshot_path text,
+  check (captured_at > period_start)
+);
+
+create index if not exists activity_snapshots_user_time_idx
+  on public.activity_snapshots (user_id, captured_at);
+
+alter table public.activity_snapshots enable row level security;
+
+-- Only while the workspace samples and the member consented
+create policy "Consenting members can record their snapshots"
+  on public.activity_snapshots for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.workspace_members m
+      join public.workspaces w on w.id = m.workspace_id
+      where m.workspace_id = activity_snapshots.workspace_id
+        and m.user_id = auth.uid()
+        and w.activity_tracking and m.activity_consent
+        and (screenshot_path is null or (
+          w.screenshot_tracking and m.screenshot_consent
+          and screenshot_path like workspace_id::text || '/' || auth.uid()::text || '/' || session_id::text || '/%'
+        ))
+    )
+  );
+
+create policy "Users can read their own snapshots"
+  on public.activity_snapshots for select
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own snapshots"
+  on public.activity_snapshots for delete
+  using (auth.uid() = user_id);
+
+create policy "Owners can read their workspace's snapshots"
+  on public.activity_snapshots for select
+  using (exists (
+    select 1 from public.workspaces w
+    where w.id = workspace_id and w.owner_id = auth.uid()
+  ));
+
+-- Members record their own consent (they can't otherwise update their membership row)
+create or replace function public.set_activity_consent(activity boolean, screenshots boolean)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.workspace_members
+  set activity_consent = activity,
+      screenshot_consent = activity and screenshots,
+      consent_updated_at = now()
+  where user_id = auth.uid();
+$$;
+
+grant execute on function public.set_activity_consent(boolean, boolean) to authenticated;
+
+-- Screen captures
+insert into storage.buckets (id, name, public)
+values ('activity-screenshots', 'activity-screenshots', false)
+on conflict (id) do nothing;
+
+-- Paths are <workspace_id>/<user_id>/<session_id>/<time>.jpg
+create policy "Users can upload their own screen captures"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'activity-screenshots'
+    and (storage.foldername(name))[2] = auth.uid()::text
+    and exists (
+      select 1 from public.workspace_members m
+      join public.workspaces w on w.id = m.workspace_id
+      where w.id::text = (storage.foldername(name))[1]
+        and m.user_id = auth.uid()
+        and w.screenshot_tracking and m.screenshot_consent
+    )
+  );
+
+create policy "Users can view their own screen captures"
+  on storage.objects for select
+  using (
+    bucket_id = 'activity-screenshots'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+create policy "Owners can view their members' screen captures"
+  on storage.objects for select
+  using (
+    bucket_id = 'activity-screenshots'
+    and exists (
+      select 1 from public.workspaces w
+      where w.id::text = (storage.foldername(name))[1]
+        and w.owner_id = auth.uid()
+    )
+  );
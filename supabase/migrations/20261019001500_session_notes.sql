@@ -0,0 +1,28 @@
+-- Session notes.
+-- A short summary of what was done, asked for (optionally) when the timer
+-- stops and editable afterwards from My Timesheets. Owners see it in Team
+-- Reports and it is included in exports.
+
+alter table public.time_logs
+  add column if not exists notes text check (char_length(notes) <= 2000);
+
+-- Members can't update time_logs directly; notes are the one field they may
+-- change without an edit request (approved weeks stay locked by the trigger).
+create or replace function public.set_time_log_notes(log_id uuid, note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.time_logs
+  set notes = nullif(btrim(note), '')
+  where id = log_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'Time log not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_time_log_notes(uuid, text) to authenticated;
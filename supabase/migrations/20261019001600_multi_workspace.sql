@@ -0,0 +1,406 @@
+-- Multi-workspace support.
+-- A user can belong to several workspaces (e.g. a freelancer working for two
+-- clients). The one they are working in is stored on their profile
+-- (active_workspace_id) and resolved by active_workspace_id(), which falls
+-- back to their first membership. It only picks what the app shows: functions
+-- that used to find "the caller's workspace" now take the workspace as an
+-- argument and check the caller's role in it, so a switch in another tab
+-- can't redirect them. Timesheets and their locks are per workspace.
+
+alter table public.profiles
+  add column if not exists active_workspace_id uuid references public.workspaces (id) on delete set null;
+
+-- The caller's active workspace, if they are still a member of it
+create or replace function public.active_workspace_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.workspace_id
+  from public.workspace_members m
+  left join public.profiles p on p.id = m.user_id
+  where m.user_id = auth.uid()
+  order by (m.workspace_id = p.active_workspace_id) desc nulls last, m.workspace_id
+  limit 1;
+$$;
+
+grant execute on function public.active_workspace_id() to authenticated;
+
+create or replace function public.set_active_workspace(ws uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.workspace_members where workspace_id = ws and user_id = auth.uid()
+  ) then
+    raise exception 'Not a member of this workspace';
+  end if;
+
+  update public.profiles set active_workspace_id = ws where id = auth.uid();
+end;
+$$;
+
+grant execute on function public.set_active_workspace(uuid) to authenticated;
+
+-- Timesheets: one per member, week and workspace
+alter table public.timesheets drop constraint if exists timesheets_user_id_week_start_key;
+alter table public.timesheets add constraint timesheets_workspace_user_week_key unique (workspace_id, user_id, week_start);
+
+-- True when `at` falls inside an approved week of the user's timesheets in that workspace
+create or replace function public.is_time_locked(target_workspace uuid, target_user uuid, at timestamptz)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.timesheets
+    where workspace_id = target_workspace
+      and user_id = target_user
+      and status = 'approved'
+      and at >= period_start
+      and at < period_end
+  );
+$$;
+
+create or replace function public.enforce_time_log_lock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (tg_op = 'INSERT' and new.invoice_id is not null)
+     or (tg_op = 'UPDATE' and new.invoice_id is distinct from old.invoice_id) then
+    if coalesce(current_setting('app.invoicing', true), '') <> 'on' then
+      raise exception 'Invoiced time can only change through its invoice';
+    end if;
+  end if;
+
+  if tg_op = 'UPDATE'
+     and new.start_time = old.start_time
+     and new.end_time = old.end_time
+     and new.duration_seconds = old.duration_seconds
+     and new.task_id is not distinct from old.task_id
+     and new.billable = old.billable then
+    return new;
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE') and public.is_time_locked(old.workspace_id, old.user_id, old.start_time) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') and public.is_time_locked(new.workspace_id, new.user_id, new.start_time) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.enforce_time_request_lock()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_time_locked(new.workspace_id, new.user_id, new.proposed_start_time)
+     or (new.original is not null
+         and public.is_time_locked(new.workspace_id, new.user_id, (new.original ->> 'start_time')::timestamptz)) then
+    raise exception 'This week has been approved and is locked';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop function if exists public.is_time_locked(uuid, timestamptz);
+
+-- Notes follow the same lock as the logged time
+create or replace function public.set_time_log_notes(log_id uuid, note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.time_logs l
+  set notes = nullif(btrim(note), '')
+  where l.id = log_id
+    and l.user_id = auth.uid()
+    and not public.is_time_locked(l.workspace_id, l.user_id, l.start_time);
+
+  if not found then
+    raise exception 'Time log not found or locked';
+  end if;
+end;
+$$;
+
+-- Scoped to the active workspace
+drop function if exists public.team_report_stats(timestamptz, timestamptz, uuid, text);
+
+create or replace function public.team_report_stats(
+  target_workspace uuid,
+  period_from timestamptz default null,
+  period_to timestamptz default null,
+  member uuid default null,
+  tz text default 'UTC'
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  ws_id uuid;
+  result jsonb;
+begin
+  select id into ws_id from public.workspaces
+  where id = target_workspace and owner_id = auth.uid();
+
+  if ws_id is null then
+    raise exception 'Only workspace owners can view team reports';
+  end if;
+
+  -- A zone the database doesn't know falls back to UTC
+  if not exists (select 1 from pg_timezone_names where name = tz) then
+    tz := 'UTC';
+  end if;
+
+  with logs as (
+    select
+      l.user_id,
+      l.start_time at time zone tz as local_start,
+      l.end_time at time zone tz as local_end,
+      l.duration_seconds
+    from public.time_logs l
+    where l.workspace_id = ws_id
+      and (period_from is null or l.start_time >= period_from)
+      and (period_to is null or l.start_time < period_to)
+      and (member is null or l.user_id = member)
+  ),
+  hourly as (
+    select
+      lg.user_id,
+      h.hour_start,
+      extract(epoch from least(lg.local_end, h.hour_start + interval '1 hour') - greatest(lg.local_start, h.hour_start))
+        * lg.duration_seconds
+        / greatest(extract(epoch from lg.local_end - lg.local_start), 1) as seconds
+    from logs lg
+    cross join lateral generate_series(
+      date_trunc('hour', lg.local_start),
+      lg.local_end - interval '1 microsecond',
+      interval '1 hour'
+    ) as h (hour_start)
+  ),
+  member_totals as (
+    select lg.user_id, coalesce(p.full_name, 'Unknown User') as full_name,
+           sum(lg.duration_seconds)::int as seconds, count(*)::int as sessions
+    from logs lg
+    left join public.profiles p on p.id = lg.user_id
+    group by lg.user_id, p.full_name
+  )
+  select jsonb_build_object(
+    'daily', coalesce((
+      select jsonb_agg(d order by d.day)
+      from (
+        select hour_start::date as day, user_id, round(sum(seconds))::int as seconds
+        from hourly group by 1, 2
+      ) d
+    ), '[]'::jsonb),
+    'heatmap', coalesce((
+      select jsonb_agg(hm)
+      from (
+        select extract(isodow from hour_start)::int as dow, extract(hour from hour_start)::int as hour,
+               round(sum(seconds))::int as seconds
+        from hourly group by 1, 2
+      ) hm
+    ), '[]'::jsonb),
+    'weekly', coalesce((
+      select jsonb_agg(w order by w.week_start)
+      from (
+        select date_trunc('week', hour_start)::date as week_start, round(sum(seconds))::int as seconds
+        from hourly group by 1
+      ) w
+    ), '[]'::jsonb),
+    'members', coalesce((
+      select jsonb_agg(m order by m.seconds desc) from member_totals m
+    ), '[]'::jsonb),
+    'total_seconds', coalesce((select sum(seconds) from member_totals), 0),
+    'sessions', coalesce((select sum(sessions) from member_totals), 0)
+  ) into result;
+
+  return result;
+end;
+$$;
+
+grant execute on function public.team_report_stats(uuid, timestamptz, timestamptz, uuid, text) to authenticated;
+
+drop function if exists public.create_invoice(timestamptz, timestamptz, uuid, text, text);
+
+create or replace function public.create_invoice(
+  target_workspace uuid,
+  period_from timestamptz,
+  period_to timestamptz,
+  member uuid default null,
+  bill_to text default null,
+  notes text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ws public.workspaces%rowtype;
+  new_invoice_id uuid := gen_random_uuid();
+  next_number integer;
+  items jsonb;
+  seconds_total integer;
+  amount_total numeric(12, 2);
+begin
+  -- Row lock on the workspace serializes invoice numbering
+  select * into ws from public.workspaces
+  where id = target_workspace and owner_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Only workspace owners can create invoices';
+  end if;
+
+  if period_to <= period_from then
+    raise exception 'Invalid invoice period';
+  end if;
+
+  with billable_logs as (
+    select l.id, l.user_id, l.task_id, l.duration_seconds
+    from public.time_logs l
+    where l.workspace_id = ws.id
+      and l.billable
+      and l.invoice_id is null
+      and l.start_time >= period_from
+      and l.start_time < period_to
+      and (member is null or l.user_id = member)
+      and public.is_time_locked(ws.id, l.user_id, l.start_time)
+  ),
+  grouped as (
+    select
+      bl.user_id,
+      bl.task_id,
+      sum(bl.duration_seconds)::int as seconds,
+      coalesce(t.hourly_rate, wm.hourly_rate, 0) as rate,
+      coalesce(p.full_name, 'Unknown User') as member_name,
+      coalesce(t.title, 'General work') as task_title
+    from billable_logs bl
+    left join public.tasks t on t.id = bl.task_id
+    left join public.workspace_members wm on wm.workspace_id = ws.id and wm.user_id = bl.user_id
+    left join public.profiles p on p.id = bl.user_id
+    group by bl.user_id, bl.task_id, t.hourly_rate, wm.hourly_rate, p.full_name, t.title
+  )
+  select
+    coalesce(jsonb_agg(jsonb_build_object(
+      'member_id', user_id,
+      'member', member_name,
+      'task_id', task_id,
+      'description', task_title,
+      'seconds', seconds,
+      'hours', round(seconds / 3600.0, 2),
+      'rate', rate,
+      'amount', round(round(seconds / 3600.0, 2) * rate, 2)
+    ) order by member_name, task_title), '[]'::jsonb),
+    coalesce(sum(seconds), 0),
+    coalesce(sum(round(round(seconds / 3600.0, 2) * rate, 2)), 0)
+  into items, seconds_total, amount_total
+  from grouped;
+
+  if seconds_total = 0 then
+    raise exception 'No approved, billable time left to invoice in this period';
+  end if;
+
+  select coalesce(max(number), 0) + 1 into next_number
+  from public.invoices where workspace_id = ws.id;
+
+  insert into public.invoices (
+    id, workspace_id, number, member_id, bill_to, notes, period_start, period_end,
+    currency, line_items, total_seconds, total_amount, created_by
+  ) values (
+    new_invoice_id, ws.id, next_number, member, bill_to, notes, period_from, period_to,
+    ws.currency, items, seconds_total, amount_total, auth.uid()
+  );
+
+  perform set_config('app.invoicing', 'on', true);
+
+  update public.time_logs l
+  set invoice_id = new_invoice_id
+  where l.workspace_id = ws.id
+    and l.billable
+    and l.invoice_id is null
+    and l.start_time >= period_from
+    and l.start_time < period_to
+    and (member is null or l.user_id = member)
+    and public.is_time_locked(ws.id, l.user_id, l.start_time);
+
+  return new_invoice_id;
+end;
+$$;
+
+grant execute on function public.create_invoice(uuid, timestamptz, timestamptz, uuid, text, text) to authenticated;
+
+drop function if exists public.report_hour_limit_exceeded(text);
+
+create or replace function public.report_hour_limit_exceeded(target_workspace uuid, period text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member public.workspace_members%rowtype;
+  status record;
+begin
+  if period not in ('day', 'week') then
+    raise exception 'Unknown limit period';
+  end if;
+
+  select * into member from public.workspace_members
+  where workspace_id = target_workspace and user_id = auth.uid();
+  if not found then
+    raise exception 'Not a workspace member';
+  end if;
+
+  select * into status from public.hour_limit_status(member.workspace_id, auth.uid(), period);
+  if status.limit_hours is null or status.worked_seconds < status.limit_hours * 3600 then
+    return;
+  end if;
+
+  perform public.notify_hour_limit_exceeded(
+    member.workspace_id, auth.uid(), period, status.period_start, status.worked_seconds, status.limit_hours
+  );
+end;
+$$;
+
+grant execute on function public.report_hour_limit_exceeded(uuid, text) to authenticated;
+
+drop function if exists public.set_activity_consent(boolean, boolean);
+
+create or replace function public.set_activity_consent(target_workspace uuid, activity boolean, screenshots boolean)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.workspace_members
+  set activity_consent = activity,
+      screenshot_consent = activity and screenshots,
+      consent_updated_at = now()
+  where user_id = auth.uid() and workspace_id = target_workspace;
+$$;
+
+grant execute on function public.set_activity_consent(uuid, boolean, boolean) to authenticated;
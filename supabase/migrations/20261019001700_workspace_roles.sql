@@ -0,0 +1,649 @@
+-- Per-workspace roles.
+-- Each membership carries a role: owner, admin, manager, member or guest.
+-- What a role may do is decided by has_workspace_permission(), which mirrors
+-- ROLE_PERMISSIONS in src/lib/permissions.ts; the policies and functions that
+-- used to check workspaces.owner_id now ask it instead. Only the owner can
+-- change roles (set_member_role), and the owner role itself is never handed
+-- out or taken away: it follows workspaces.owner_id.
+
+alter table public.workspace_members
+  add column if not exists role text not null default 'member'
+    check (role in ('owner', 'admin', 'manager', 'member', 'guest'));
+
+update public.workspace_members m
+set role = 'owner'
+from public.workspaces w
+where w.id = m.workspace_id and w.owner_id = m.user_id and m.role <> 'owner';
+
+-- The owner's membership is always 'owner'; nobody else's can be
+create or replace function public.guard_workspace_member_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  is_owner boolean;
+begin
+  select exists (
+    select 1 from public.workspaces where id = new.workspace_id and owner_id = new.user_id
+  ) into is_owner;
+
+  if tg_op = 'INSERT' then
+    new.role := case
+      when is_owner then 'owner'
+      when new.role = 'owner' then 'member'
+      else new.role
+    end;
+    return new;
+  end if;
+
+  if new.role is distinct from old.role then
+    if coalesce(current_setting('app.role_change', true), '') <> 'on' then
+      raise exception 'Roles can only be changed with set_member_role';
+    end if;
+    if is_owner or new.role = 'owner' then
+      raise exception 'The owner role follows the workspace owner';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists workspace_members_role_guard on public.workspace_members;
+create trigger workspace_members_role_guard
+  before insert or update on public.workspace_members
+  for each row execute function public.guard_workspace_member_role();
+
+-- The caller's role in a workspace (null when not a member)
+create or replace function public.workspace_role(ws uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.workspace_members
+  where workspace_id = ws and user_id = auth.uid();
+$$;
+
+grant execute on function public.workspace_role(uuid) to authenticated;
+
+create or replace function public.has_workspace_permission(ws uuid, permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case permission
+      when 'manage_roles' then role = 'owner'
+      when 'manage_members' then role in ('owner', 'admin')
+      when 'manage_billing' then role in ('owner', 'admin')
+      when 'manage_tasks' then role in ('owner', 'admin', 'manager')
+      when 'review_time' then role in ('owner', 'admin', 'manager')
+      when 'view_team' then role in ('owner', 'admin', 'manager')
+      when 'track_time' then role in ('admin', 'manager', 'member')
+      else false
+    end
+    from public.workspace_members
+    where workspace_id = ws and user_id = auth.uid()
+  ), false);
+$$;
+
+grant execute on function public.has_workspace_permission(uuid, text) to authenticated;
+
+-- Promote / demote (owner only)
+create or replace function public.set_member_role(target_workspace uuid, target_user uuid, new_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_workspace_permission(target_workspace, 'manage_roles') then
+    raise exception 'Only the workspace owner can change roles';
+  end if;
+
+  if new_role not in ('admin', 'manager', 'member', 'guest') then
+    raise exception 'Invalid role';
+  end if;
+
+  perform set_config('app.role_change', 'on', true);
+
+  update public.workspace_members
+  set role = new_role
+  where workspace_id = target_workspace and user_id = target_user;
+
+  if not found then
+    raise exception 'Member not found';
+  end if;
+end;
+$$;
+
+grant execute on function public.set_member_role(uuid, uuid, text) to authenticated;
+
+-- Policies: owner checks become permission checks
+drop policy if exists "Owners can read their workspace's time requests" on public.time_log_requests;
+create policy "Reviewers can read their workspace's time requests"
+  on public.time_log_requests for select
+  using (public.has_workspace_permission(workspace_id, 'review_time'));
+
+drop policy if exists "Owners can read their workspace's timesheets" on public.timesheets;
+create policy "Reviewers can read their workspace's timesheets"
+  on public.timesheets for select
+  using (public.has_workspace_permission(workspace_id, 'review_time'));
+
+drop policy if exists "Owners can read their workspace's invoices" on public.invoices;
+create policy "Billing managers can read their workspace's invoices"
+  on public.invoices for select
+  using (public.has_workspace_permission(workspace_id, 'manage_billing'));
+
+
+drop policy if exists "Owners can read their workspace's shifts" on public.shifts;
+create policy "Member managers can read their workspace's shifts"
+  on public.shifts for select
+  using (public.has_workspace_permission(workspace_id, 'manage_members'));
+
+drop policy if exists "Owners can read their workspace's active sessions" on public.active_sessions;
+create policy "Team viewers can read their workspace's active sessions"
+  on public.active_sessions for select
+  using (public.has_workspace_permission(workspace_id, 'view_team'));
+
+drop policy if exists "Owners can read their workspace's snapshots" on public.activity_snapshots;
+create policy "Team viewers can read their workspace's snapshots"
+  on public.activity_snapshots for select
+  using (public.has_workspace_permission(workspace_id, 'view_team'));
+
+drop policy if exists "Owners can view their members' screen captures" on storage.objects;
+create policy "Team viewers can view their members' screen captures"
+  on storage.objects for select
+  using (
+    bucket_id = 'activity-screenshots'
+    and exists (
+      select 1 from public.workspaces w
+      where w.id::text = (storage.foldername(name))[1]
+        and public.has_workspace_permission(w.id, 'view_team')
+    )
+  );
+
+-- Admins edit workspace settings (currency, time zone, tracking), but the
+-- owner stays the owner
+create policy "Billing managers can update their workspace"
+  on public.workspaces for update
+  using (public.has_workspace_permission(id, 'manage_billing'));
+
+create or replace function public.guard_workspace_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.owner_id is distinct from old.owner_id then
+    raise exception 'The workspace owner cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists workspaces_owner_guard on public.workspaces;
+create trigger workspaces_owner_guard
+  before update on public.workspaces
+  for each row execute function public.guard_workspace_owner();
+
+-- Delegated roles see and manage what the owner already could
+create policy "Team viewers can read their workspace's time logs"
+  on public.time_logs for select
+  using (public.has_workspace_permission(workspace_id, 'view_team'));
+
+create policy "Task managers can manage their workspace's tasks"
+  on public.tasks for all
+  using (public.has_workspace_permission(workspace_id, 'manage_tasks'))
+  with check (public.has_workspace_permission(workspace_id, 'manage_tasks'));
+
+-- Functions: same bodies, permission checks instead of owner checks
+create or replace function public.review_time_log_request(
+  request_id uuid,
+  approve boolean,
+  comment text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  req public.time_log_requests%rowtype;
+begin
+  select * into req from public.time_log_requests where id = request_id for update;
+
+  if not found then
+    raise exception 'Time request not found';
+  end if;
+
+  if not public.has_workspace_permission(req.workspace_id, 'review_time') then
+    raise exception 'You are not allowed to review time requests';
+  end if;
+
+  if req.user_id = auth.uid() then
+    raise exception 'You can''t review your own time requests';
+  end if;
+
+  if req.status <> 'pending' then
+    raise exception 'Time request has already been reviewed';
+  end if;
+
+  if approve then
+    if req.kind = 'create' then
+      insert into public.time_logs (user_id, workspace_id, start_time, end_time, duration_seconds, task_id, source)
+      values (
+        req.user_id,
+        req.workspace_id,
+        req.proposed_start_time,
+        req.proposed_end_time,
+        extract(epoch from req.proposed_end_time - req.proposed_start_time)::int,
+        req.task_id,
+        'manual'
+      );
+    else
+      update public.time_logs
+      set start_time = req.proposed_start_time,
+          end_time = req.proposed_end_time,
+          task_id = req.task_id,
+          duration_seconds = greatest(
+            0,
+            extract(epoch from req.proposed_end_time - req.proposed_start_time)::int
+              - coalesce(break_seconds, 0) - coalesce(idle_seconds, 0)
+          ),
+          edited_at = now()
+      where id = req.time_log_id and user_id = req.user_id;
+    end if;
+  end if;
+
+  update public.time_log_requests
+  set status = case when approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = comment
+  where id = request_id;
+end;
+$$;
+
+create or replace function public.review_timesheet(
+  timesheet_id uuid,
+  approve boolean,
+  comment text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sheet public.timesheets%rowtype;
+begin
+  select * into sheet from public.timesheets where id = timesheet_id for update;
+
+  if not found then
+    raise exception 'Timesheet not found';
+  end if;
+
+  if not public.has_workspace_permission(sheet.workspace_id, 'review_time') then
+    raise exception 'You are not allowed to review timesheets';
+  end if;
+
+  if sheet.user_id = auth.uid() then
+    raise exception 'You can''t review your own timesheet';
+  end if;
+
+  if sheet.status <> 'submitted' then
+    raise exception 'Timesheet is not awaiting review';
+  end if;
+
+  update public.timesheets
+  set status = case when approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = comment
+  where id = timesheet_id;
+end;
+$$;
+
+create or replace function public.team_report_stats(
+  target_workspace uuid,
+  period_from timestamptz default null,
+  period_to timestamptz default null,
+  member uuid default null,
+  tz text default 'UTC'
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  ws_id uuid;
+  result jsonb;
+begin
+  ws_id := target_workspace;
+
+  if ws_id is null or not public.has_workspace_permission(ws_id, 'view_team') then
+    raise exception 'You are not allowed to view team reports';
+  end if;
+
+  -- A zone the database doesn't know falls back to UTC
+  if not exists (select 1 from pg_timezone_names where name = tz) then
+    tz := 'UTC';
+  end if;
+
+  with logs as (
+    select
+      l.user_id,
+      l.start_time at time zone tz as local_start,
+      l.end_time at time zone tz as local_end,
+      l.duration_seconds
+    from public.time_logs l
+    where l.workspace_id = ws_id
+      and (period_from is null or l.start_time >= period_from)
+      and (period_to is null or l.start_time < period_to)
+      and (member is null or l.user_id = member)
+  ),
+  hourly as (
+    select
+      lg.user_id,
+      h.hour_start,
+      extract(epoch from least(lg.local_end, h.hour_start + interval '1 hour') - greatest(lg.local_start, h.hour_start))
+        * lg.duration_seconds
+        / greatest(extract(epoch from lg.local_end - lg.local_start), 1) as seconds
+    from logs lg
+    cross join lateral generate_series(
+      date_trunc('hour', lg.local_start),
+      lg.local_end - interval '1 microsecond',
+      interval '1 hour'
+    ) as h (hour_start)
+  ),
+  member_totals as (
+    select lg.user_id, coalesce(p.full_name, 'Unknown User') as full_name,
+           sum(lg.duration_seconds)::int as seconds, count(*)::int as sessions
+    from logs lg
+    left join public.profiles p on p.id = lg.user_id
+    group by lg.user_id, p.full_name
+  )
+  select jsonb_build_object(
+    'daily', coalesce((
+      select jsonb_agg(d order by d.day)
+      from (
+        select hour_start::date as day, user_id, round(sum(seconds))::int as seconds
+        from hourly group by 1, 2
+      ) d
+    ), '[]'::jsonb),
+    'heatmap', coalesce((
+      select jsonb_agg(hm)
+      from (
+        select extract(isodow from hour_start)::int as dow, extract(hour from hour_start)::int as hour,
+               round(sum(seconds))::int as seconds
+        from hourly group by 1, 2
+      ) hm
+    ), '[]'::jsonb),
+    'weekly', coalesce((
+      select jsonb_agg(w order by w.week_start)
+      from (
+        select date_trunc('week', hour_start)::date as week_start, round(sum(seconds))::int as seconds
+        from hourly group by 1
+      ) w
+    ), '[]'::jsonb),
+    'members', coalesce((
+      select jsonb_agg(m order by m.seconds desc) from member_totals m
+    ), '[]'::jsonb),
+    'total_seconds', coalesce((select sum(seconds) from member_totals), 0),
+    'sessions', coalesce((select sum(sessions) from member_totals), 0)
+  ) into result;
+
+  return result;
+end;
+$$;
+
+create or replace function public.create_invoice(
+  target_workspace uuid,
+  period_from timestamptz,
+  period_to timestamptz,
+  member uuid default null,
+  bill_to text default null,
+  notes text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ws public.workspaces%rowtype;
+  new_invoice_id uuid := gen_random_uuid();
+  next_number integer;
+  items jsonb;
+  seconds_total integer;
+  amount_total numeric(12, 2);
+begin
+  -- Row lock on the workspace serializes invoice numbering
+  select * into ws from public.workspaces
+  where id = target_workspace and public.has_workspace_permission(id, 'manage_billing')
+  for update;
+
+  if not found then
+    raise exception 'You are not allowed to create invoices';
+  end if;
+
+  if period_to <= period_from then
+    raise exception 'Invalid invoice period';
+  end if;
+
+  with billable_logs as (
+    select l.id, l.user_id, l.task_id, l.duration_seconds
+    from public.time_logs l
+    where l.workspace_id = ws.id
+      and l.billable
+      and l.invoice_id is null
+      and l.start_time >= period_from
+      and l.start_time < period_to
+      and (member is null or l.user_id = member)
+      and public.is_time_locked(ws.id, l.user_id, l.start_time)
+  ),
+  grouped as (
+    select
+      bl.user_id,
+      bl.task_id,
+      sum(bl.duration_seconds)::int as seconds,
+      coalesce(t.hourly_rate, wm.hourly_rate, 0) as rate,
+      coalesce(p.full_name, 'Unknown User') as member_name,
+      coalesce(t.title, 'General work') as task_title
+    from billable_logs bl
+    left join public.tasks t on t.id = bl.task_id
+    left join public.workspace_members wm on wm.workspace_id = ws.id and wm.user_id = bl.user_id
+    left join public.profiles p on p.id = bl.user_id
+    group by bl.user_id, bl.task_id, t.hourly_rate, wm.hourly_rate, p.full_name, t.title
+  )
+  select
+    coalesce(jsonb_agg(jsonb_build_object(
+      'member_id', user_id,
+      'member', member_name,
+      'task_id', task_id,
+      'description', task_title,
+      'seconds', seconds,
+      'hours', round(seconds / 3600.0, 2),
+      'rate', rate,
+      'amount', round(round(seconds / 3600.0, 2) * rate, 2)
+    ) order by member_name, task_title), '[]'::jsonb),
+    coalesce(sum(seconds), 0),
+    coalesce(sum(round(round(seconds / 3600.0, 2) * rate, 2)), 0)
+  into items, seconds_total, amount_total
+  from grouped;
+
+  if seconds_total = 0 then
+    raise exception 'No approved, billable time left to invoice in this period';
+  end if;
+
+  select coalesce(max(number), 0) + 1 into next_number
+  from public.invoices where workspace_id = ws.id;
+
+  insert into public.invoices (
+    id, workspace_id, number, member_id, bill_to, notes, period_start, period_end,
+    currency, line_items, total_seconds, total_amount, created_by
+  ) values (
+    new_invoice_id, ws.id, next_number, member, bill_to, notes, period_from, period_to,
+    ws.currency, items, seconds_total, amount_total, auth.uid()
+  );
+
+  perform set_config('app.invoicing', 'on', true);
+
+  update public.time_logs l
+  set invoice_id = new_invoice_id
+  where l.workspace_id = ws.id
+    and l.billable
+    and l.invoice_id is null
+    and l.start_time >= period_from
+    and l.start_time < period_to
+    and (member is null or l.user_id = member)
+    and public.is_time_locked(ws.id, l.user_id, l.start_time);
+
+  return new_invoice_id;
+end;
+$$;
+
+-- Rates, hour limits and invoice status follow the same permissions
+create or replace function public.set_member_rate(target_workspace uuid, target_user uuid, rate numeric)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_workspace_permission(target_workspace, 'manage_billing') then
+    raise exception 'You are not allowed to set rates';
+  end if;
+
+  update public.workspace_members
+  set hourly_rate = rate
+  where workspace_id = target_workspace and user_id = target_user;
+
+  if not found then
+    raise exception 'Member not found';
+  end if;
+end;
+$$;
+
+create or replace function public.set_task_billing(target_task uuid, rate numeric, is_billable boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks%rowtype;
+begin
+  select * into task from public.tasks where id = target_task;
+
+  if not found then
+    raise exception 'Task not found';
+  end if;
+
+  if not public.has_workspace_permission(task.workspace_id, 'manage_billing') then
+    raise exception 'You are not allowed to set rates';
+  end if;
+
+  perform set_config('app.task_billing', 'on', true);
+
+  update public.tasks
+  set hourly_rate = rate,
+      billable = is_billable
+  where id = target_task;
+
+  perform set_config('app.task_billing', 'off', true);
+end;
+$$;
+
+create or replace function public.set_member_hour_limits(
+  target_workspace uuid,
+  target_user uuid,
+  daily_hours numeric,
+  weekly_hours numeric,
+  auto_stop boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_workspace_permission(target_workspace, 'manage_members') then
+    raise exception 'You are not allowed to set hour limits';
+  end if;
+
+  update public.workspace_members
+  set daily_hour_limit = daily_hours,
+      weekly_hour_limit = weekly_hours,
+      auto_stop_at_limit = auto_stop
+  where workspace_id = target_workspace and user_id = target_user;
+
+  if not found then
+    raise exception 'Member not found';
+  end if;
+end;
+$$;
+
+create or replace function public.set_member_shifts(target_workspace uuid, target_user uuid, schedule jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_workspace_permission(target_workspace, 'manage_members') then
+    raise exception 'You are not allowed to set shifts';
+  end if;
+
+  if not exists (
+    select 1 from public.workspace_members where workspace_id = target_workspace and user_id = target_user
+  ) then
+    raise exception 'Member not found';
+  end if;
+
+  delete from public.shifts where workspace_id = target_workspace and user_id = target_user;
+
+  insert into public.shifts (workspace_id, user_id, weekday, start_time, end_time)
+  select target_workspace, target_user, d.weekday, d.start_time, d.end_time
+  from jsonb_to_recordset(coalesce(schedule, '[]'::jsonb)) as d (weekday smallint, start_time time, end_time time);
+end;
+$$;
+
+create or replace function public.set_invoice_status(target_invoice uuid, new_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.invoices%rowtype;
+begin
+  select * into inv from public.invoices where id = target_invoice for update;
+
+  if not found or not public.has_workspace_permission(inv.workspace_id, 'manage_billing') then
+    raise exception 'Invoice not found';
+  end if;
+
+  if new_status not in ('paid', 'void') then
+    raise exception 'Invalid invoice status';
+  end if;
+
+  if inv.status <> 'issued' then
+    raise exception 'Only issued invoices can be marked paid or void';
+  end if;
+
+  update public.invoices set status = new_status where id = inv.id;
+
+  if new_status = 'void' then
+    perform set_config('app.invoicing', 'on', true);
+    update public.time_logs set invoice_id = null where invoice_id = inv.id;
+  end if;
+end;
+$$;
@@ -0,0 +1,169 @@
+-- Invitations.
+-- Replaces the single static workspaces.invite_code with per-invite codes
+-- that carry a role, an optional expiry, an optional usage limit and an
+-- optional addressee (only that account's email can redeem it). Members who
+-- manage members create them, and regenerate or revoke them through the
+-- functions below (there is no update policy, so an invite's workspace,
+-- code and counters can't be rewritten); join_workspace() now redeems
+-- these codes. Existing static codes become unlimited member invites
+-- so links already shared keep working until revoked.
+
+create or replace function public.generate_invite_code()
+returns text
+language sql
+volatile
+as $$
+  -- No 0/O or 1/I, so codes survive being read aloud
+  select string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (floor(random() * 32) + 1)::int, 1), '')
+  from generate_series(1, 8);
+$$;
+
+create table if not exists public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  code text not null unique default public.generate_invite_code(),
+  role text not null default 'member' check (role in ('admin', 'manager', 'member', 'guest')),
+  email text check (email is null or email = lower(email)),
+  max_uses integer check (max_uses is null or max_uses > 0), -- null = unlimited
+  use_count integer not null default 0,
+  expires_at timestamptz, -- null = never
+  revoked_at timestamptz,
+  created_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists workspace_invites_workspace_idx
+  on public.workspace_invites (workspace_id, created_at desc);
+
+alter table public.workspace_invites enable row level security;
+
+create policy "Member managers can read their workspace's invites"
+  on public.workspace_invites for select
+  using (public.has_workspace_permission(workspace_id, 'manage_members'));
+
+-- Handing out the admin role is the owner's call, like promoting to it
+create policy "Member managers can create invites"
+  on public.workspace_invites for insert
+  with check (
+    public.has_workspace_permission(workspace_id, 'manage_members')
+    and (role <> 'admin' or public.has_workspace_permission(workspace_id, 'manage_roles'))
+    and created_by = auth.uid()
+    and use_count = 0
+    and revoked_at is null
+  );
+
+insert into public.workspace_invites (workspace_id, code, role, created_by)
+select id, upper(invite_code), 'member', owner_id
+from public.workspaces
+where invite_code is not null
+on conflict (code) do nothing;
+
+-- New code for an invite (the old link stops working)
+create or replace function public.regenerate_workspace_invite(invite_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_code text;
+begin
+  update public.workspace_invites i
+  set code = public.generate_invite_code()
+  where i.id = invite_id
+    and i.revoked_at is null
+    and public.has_workspace_permission(i.workspace_id, 'manage_members')
+  returning code into new_code;
+
+  if new_code is null then
+    raise exception 'Invite not found or revoked';
+  end if;
+  return new_code;
+end;
+$$;
+
+grant execute on function public.regenerate_workspace_invite(uuid) to authenticated;
+
+-- Revoking is final; a revoked invite can't be brought back
+create or replace function public.revoke_workspace_invite(invite_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.workspace_invites i
+  set revoked_at = now()
+  where i.id = invite_id
+    and i.revoked_at is null
+    and public.has_workspace_permission(i.workspace_id, 'manage_members');
+
+  if not found then
+    raise exception 'Invite not found or already revoked';
+  end if;
+end;
+$$;
+
+grant execute on function public.revoke_workspace_invite(uuid) to authenticated;
+
+-- Redeem an invite. Same shape as before ({ success, message }), plus the
+-- workspace joined, which also becomes the active one.
+drop function if exists public.join_workspace(text);
+
+create function public.join_workspace(code text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.workspace_invites%rowtype;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('success', false, 'message', 'Please log in first.');
+  end if;
+
+  select * into invite from public.workspace_invites i
+  where i.code = upper(trim(join_workspace.code))
+  for update;
+
+  if not found or invite.revoked_at is not null then
+    return jsonb_build_object('success', false, 'message', 'Invalid invite code.');
+  end if;
+
+  if invite.expires_at is not null and invite.expires_at <= now() then
+    return jsonb_build_object('success', false, 'message', 'This invite has expired.');
+  end if;
+
+  if invite.email is not null and invite.email <> lower(coalesce(auth.email(), '')) then
+    return jsonb_build_object('success', false, 'message', 'This invite was sent to a different email address.');
+  end if;
+
+  if exists (
+    select 1 from public.workspace_members
+    where workspace_id = invite.workspace_id and user_id = auth.uid()
+  ) then
+    update public.profiles set active_workspace_id = invite.workspace_id where id = auth.uid();
+    return jsonb_build_object('success', true, 'message', 'You are already a member.', 'workspace_id', invite.workspace_id);
+  end if;
+
+  if invite.max_uses is not null and invite.use_count >= invite.max_uses then
+    return jsonb_build_object('success', false, 'message', 'This invite has been used up.');
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role)
+  values (invite.workspace_id, auth.uid(), invite.role);
+
+  update public.workspace_invites set use_count = use_count + 1 where id = invite.id;
+
+  -- Invitees skip the account-type step of onboarding
+  update public.profiles
+  set active_workspace_id = invite.workspace_id,
+      role = coalesce(role, 'freelancer')
+  where id = auth.uid();
+
+  return jsonb_build_object('success', true, 'message', 'Welcome aboard!', 'workspace_id', invite.workspace_id);
+end;
+$$;
+
+grant execute on function public.join_workspace(text) to authenticated;
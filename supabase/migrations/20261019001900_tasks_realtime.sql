@@ -0,0 +1,5 @@
+-- Task board realtime.
+-- Members and whoever manages tasks watch the same board, so status moves
+-- are broadcast (RLS still decides who receives each row).
+
+alter publication supabase_realtime add table public.tasks;
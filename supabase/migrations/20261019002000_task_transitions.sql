@@ -0,0 +1,157 @@
+-- Task status state machine.
+-- Status changes (and the proof / feedback that go with them) only happen
+-- through transition_task(), which checks the move against the same table
+-- as TASK_TRANSITIONS in src/lib/tasks.ts: the assignee starts and submits,
+-- members with manage_tasks review. Every move is recorded in task_events
+-- as a 'status' event with who made it and when, and the proof or rejection
+-- reason at that moment.
+
+create table if not exists public.task_events (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  kind text not null constraint task_events_kind_check check (kind in ('status')),
+  from_value text,
+  to_value text,
+  actor_id uuid references public.profiles (id) on delete set null,
+  proof_link text,
+  feedback text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_events_task_idx
+  on public.task_events (task_id, created_at);
+
+alter table public.task_events enable row level security;
+
+create policy "Assignees can read their tasks' history"
+  on public.task_events for select
+  using (exists (
+    select 1 from public.tasks t
+    where t.id = task_id and t.assigned_to = auth.uid()
+  ));
+
+create policy "Task managers can read their workspace's task history"
+  on public.task_events for select
+  using (public.has_workspace_permission(workspace_id, 'manage_tasks'));
+
+-- Direct writes can create tasks and edit their details, never their status
+create or replace function public.guard_task_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.task_transition', true), '') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.status := 'todo';
+    new.proof_link := null;
+    new.client_feedback := null;
+    return new;
+  end if;
+
+  if new.status is distinct from old.status
+     or new.proof_link is distinct from old.proof_link
+     or new.client_feedback is distinct from old.client_feedback then
+    raise exception 'Task status can only be changed with transition_task';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_status_guard on public.tasks;
+create trigger tasks_status_guard
+  before insert or update on public.tasks
+  for each row execute function public.guard_task_status();
+
+create or replace function public.record_task_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is distinct from old.status then
+    insert into public.task_events (task_id, workspace_id, kind, from_value, to_value, actor_id, proof_link, feedback)
+    values (
+      new.id, new.workspace_id, 'status', old.status, new.status, auth.uid(),
+      case when new.status = 'submitted' then new.proof_link end,
+      case when new.status = 'rejected' then new.client_feedback end
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_record_event on public.tasks;
+create trigger tasks_record_event
+  after update on public.tasks
+  for each row execute function public.record_task_event();
+
+create or replace function public.transition_task(
+  task_id uuid,
+  new_status text,
+  proof text default null,
+  feedback text default null
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks%rowtype;
+  actor text;
+begin
+  select * into task from public.tasks t where t.id = transition_task.task_id for update;
+
+  if not found then
+    raise exception 'Task not found';
+  end if;
+
+  -- Which capacity the move needs
+  actor := case
+    when task.status = 'todo' and new_status = 'in_progress' then 'assignee'
+    when task.status in ('in_progress', 'rejected') and new_status = 'submitted' then 'assignee'
+    when task.status = 'submitted' and new_status in ('approved', 'rejected') then 'reviewer'
+  end;
+
+  if actor is null then
+    raise exception 'A task can''t move from % to %', replace(task.status, '_', ' '), replace(new_status, '_', ' ');
+  end if;
+
+  if actor = 'assignee' and task.assigned_to is distinct from auth.uid() then
+    raise exception 'Only the assignee can move this task to %', replace(new_status, '_', ' ');
+  end if;
+
+  if actor = 'reviewer' and not public.has_workspace_permission(task.workspace_id, 'manage_tasks') then
+    raise exception 'You are not allowed to review this task';
+  end if;
+
+  if new_status = 'submitted' and coalesce(trim(proof), '') = '' then
+    raise exception 'A submission needs a link to the work';
+  end if;
+
+  perform set_config('app.task_transition', 'on', true);
+
+  update public.tasks t
+  set status = new_status,
+      proof_link = case when new_status = 'submitted' then trim(proof) else t.proof_link end,
+      client_feedback = case
+        when new_status = 'rejected' then nullif(trim(feedback), '')
+        when new_status = 'approved' then null
+        else t.client_feedback
+      end
+  where t.id = task.id
+  returning * into task;
+
+  perform set_config('app.task_transition', 'off', true);
+
+  return task;
+end;
+$$;
+
+grant execute on function public.transition_task(uuid, text, text, text) to authenticated;
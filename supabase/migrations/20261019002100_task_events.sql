@@ -0,0 +1,55 @@
+-- Task history. task_events already keeps every status move with the proof
+-- or rejection reason at that moment; it now also records creation,
+-- reassignment and priority changes. The trigger on tasks writes the rows,
+-- so every path that edits a task is covered. Existing tasks get a
+-- 'created' event from their creation time.
+
+alter table public.task_events
+  drop constraint if exists task_events_kind_check,
+  add constraint task_events_kind_check check (kind in ('created', 'status', 'reassigned', 'priority'));
+
+insert into public.task_events (task_id, workspace_id, kind, to_value, actor_id, created_at)
+select t.id, t.workspace_id, 'created', t.assigned_to::text, t.created_by, t.created_at
+from public.tasks t
+where t.workspace_id is not null;
+
+create or replace function public.record_task_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_events (task_id, workspace_id, kind, to_value, actor_id)
+    values (new.id, new.workspace_id, 'created', new.assigned_to::text, coalesce(auth.uid(), new.created_by));
+    return new;
+  end if;
+
+  if new.status is distinct from old.status then
+    insert into public.task_events (task_id, workspace_id, kind, from_value, to_value, actor_id, proof_link, feedback)
+    values (
+      new.id, new.workspace_id, 'status', old.status, new.status, auth.uid(),
+      case when new.status = 'submitted' then new.proof_link end,
+      case when new.status = 'rejected' then new.client_feedback end
+    );
+  end if;
+
+  if new.assigned_to is distinct from old.assigned_to then
+    insert into public.task_events (task_id, workspace_id, kind, from_value, to_value, actor_id)
+    values (new.id, new.workspace_id, 'reassigned', old.assigned_to::text, new.assigned_to::text, auth.uid());
+  end if;
+
+  if new.priority is distinct from old.priority then
+    insert into public.task_events (task_id, workspace_id, kind, from_value, to_value, actor_id)
+    values (new.id, new.workspace_id, 'priority', old.priority, new.priority, auth.uid());
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_record_event on public.tasks;
+create trigger tasks_record_event
+  after insert or update on public.tasks
+  for each row execute function public.record_task_event();
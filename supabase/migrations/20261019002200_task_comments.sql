@@ -0,0 +1,147 @@
+-- Comment threads on tasks.
+-- The assignee and whoever manages the workspace's tasks can read and post.
+-- A comment lists the people it @mentions; each of them (if they can see the
+-- task) gets a notification. task_comment_reads remembers when each person
+-- last opened a thread, which drives the unread badges on task cards.
+
+create or replace function public.can_access_task(target_task uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.tasks t
+    where t.id = target_task
+      and (t.assigned_to = auth.uid() or public.has_workspace_permission(t.workspace_id, 'manage_tasks'))
+  );
+$$;
+
+grant execute on function public.can_access_task(uuid) to authenticated;
+
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  author_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  body text not null check (length(trim(body)) between 1 and 4000),
+  mentions uuid[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_comments_task_idx
+  on public.task_comments (task_id, created_at);
+
+alter table public.task_comments enable row level security;
+
+create policy "Task participants can read comments"
+  on public.task_comments for select
+  using (public.can_access_task(task_id));
+
+create policy "Task participants can comment"
+  on public.task_comments for insert
+  with check (author_id = auth.uid() and public.can_access_task(task_id));
+
+create policy "Authors can delete their comments"
+  on public.task_comments for delete
+  using (author_id = auth.uid());
+
+create table if not exists public.task_comment_reads (
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (task_id, user_id)
+);
+
+alter table public.task_comment_reads enable row level security;
+
+create policy "Users can read their own read markers"
+  on public.task_comment_reads for select
+  using (auth.uid() = user_id);
+
+-- Workspace from the task; mentions narrowed to people who can see it, then notified
+create or replace function public.prepare_task_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks%rowtype;
+  author_name text;
+begin
+  select * into task from public.tasks where id = new.task_id;
+  new.workspace_id := task.workspace_id;
+
+  -- The assignee, plus the roles that hold manage_tasks
+  new.mentions := array(
+    select distinct m from unnest(new.mentions) m
+    where m <> new.author_id
+      and (m = task.assigned_to or exists (
+        select 1 from public.workspace_members wm
+        where wm.workspace_id = task.workspace_id and wm.user_id = m
+          and wm.role in ('owner', 'admin', 'manager')
+      ))
+  );
+
+  if cardinality(new.mentions) > 0 then
+    select coalesce(full_name, 'Someone') into author_name from public.profiles where id = new.author_id;
+
+    insert into public.notifications (user_id, workspace_id, kind, title, body, data)
+    select m, task.workspace_id, 'task_mention',
+      coalesce(author_name, 'Someone') || ' mentioned you on "' || task.title || '"',
+      left(new.body, 200),
+      jsonb_build_object('task_id', task.id, 'comment_id', new.id)
+    from unnest(new.mentions) m;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists task_comments_prepare on public.task_comments;
+create trigger task_comments_prepare
+  before insert on public.task_comments
+  for each row execute function public.prepare_task_comment();
+
+-- Opening a thread marks it read
+create or replace function public.mark_task_comments_read(target_task uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_access_task(target_task) then
+    raise exception 'Task not found';
+  end if;
+
+  insert into public.task_comment_reads (task_id, user_id, last_read_at)
+  values (target_task, auth.uid(), now())
+  on conflict (task_id, user_id) do update set last_read_at = excluded.last_read_at;
+end;
+$$;
+
+grant execute on function public.mark_task_comments_read(uuid) to authenticated;
+
+-- Comments from others since the caller last opened each thread
+create or replace function public.task_unread_counts(target_workspace uuid)
+returns table (task_id uuid, unread integer)
+language sql
+stable
+set search_path = public
+as $$
+  select c.task_id, count(*)::integer
+  from public.task_comments c
+  left join public.task_comment_reads r
+    on r.task_id = c.task_id and r.user_id = auth.uid()
+  where c.workspace_id = target_workspace
+    and c.author_id <> auth.uid()
+    and (r.last_read_at is null or c.created_at > r.last_read_at)
+  group by c.task_id;
+$$;
+
+grant execute on function public.task_unread_counts(uuid) to authenticated;
+
+alter publication supabase_realtime add table public.task_comments;
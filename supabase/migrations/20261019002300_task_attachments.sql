@@ -0,0 +1,301 @@
+-- File attachments as proof of work.
+-- The assignee uploads files to the private task-attachments bucket
+-- (workspace_id/task_id/...) and records each in task_attachments while
+-- preparing a submission. transition_task() accepts a submission with a
+-- link, files, or both, and ties the pending files to the submission's
+-- task_events row. Each workspace sets the kinds of file it accepts and a
+-- size limit, checked against the stored object itself;
+-- attachment_kind() and attachment_content_type() mirror ATTACHMENT_KINDS
+-- and ATTACHMENT_CONTENT_TYPES in src/lib/task-attachments.ts.
+
+alter table public.workspaces
+  add column if not exists attachment_max_mb integer not null default 25
+    check (attachment_max_mb between 1 and 100),
+  add column if not exists attachment_types text[] not null default '{image,pdf,archive}'
+    check (attachment_types <@ array['image', 'pdf', 'archive', 'document', 'video']);
+
+create or replace function public.attachment_kind(file_name text)
+returns text
+language sql
+immutable
+as $$
+  select case lower(substring(file_name from '\.([^.]+)$'))
+    when 'png' then 'image' when 'jpg' then 'image' when 'jpeg' then 'image'
+    when 'gif' then 'image' when 'webp' then 'image'
+    when 'pdf' then 'pdf'
+    when 'zip' then 'archive' when '7z' then 'archive' when 'rar' then 'archive'
+    when 'tar' then 'archive' when 'gz' then 'archive'
+    when 'doc' then 'document' when 'docx' then 'document' when 'xls' then 'document'
+    when 'xlsx' then 'document' when 'ppt' then 'document' when 'pptx' then 'document'
+    when 'txt' then 'document' when 'csv' then 'document' when 'md' then 'document'
+    when 'mp4' then 'video' when 'mov' then 'video' when 'webm' then 'video'
+  end;
+$$;
+
+-- The only content type a file with this extension may be stored with
+create or replace function public.attachment_content_type(file_name text)
+returns text
+language sql
+immutable
+as $$
+  select case lower(substring(file_name from '\.([^.]+)$'))
+    when 'png' then 'image/png' when 'jpg' then 'image/jpeg' when 'jpeg' then 'image/jpeg'
+    when 'gif' then 'image/gif' when 'webp' then 'image/webp'
+    when 'pdf' then 'application/pdf'
+    when 'zip' then 'application/zip' when '7z' then 'application/x-7z-compressed'
+    when 'rar' then 'application/vnd.rar' when 'tar' then 'application/x-tar' when 'gz' then 'application/gzip'
+    when 'doc' then 'application/msword'
+    when 'docx' then 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    when 'xls' then 'application/vnd.ms-excel'
+    when 'xlsx' then 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    when 'ppt' then 'application/vnd.ms-powerpoint'
+    when 'pptx' then 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    when 'txt' then 'text/plain' when 'csv' then 'text/csv' when 'md' then 'text/markdown'
+    when 'mp4' then 'video/mp4' when 'mov' then 'video/quicktime' when 'webm' then 'video/webm'
+  end;
+$$;
+
+create table if not exists public.task_attachments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  uploaded_by uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  path text not null unique,
+  file_name text not null,
+  content_type text,
+  size_bytes bigint not null check (size_bytes >= 0),
+  submission_event_id uuid references public.task_events (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_attachments_task_idx
+  on public.task_attachments (task_id, created_at);
+
+alter table public.task_attachments enable row level security;
+
+create policy "Task participants can see attachments"
+  on public.task_attachments for select
+  using (public.can_access_task(task_id));
+
+create policy "Assignees can attach files"
+  on public.task_attachments for insert
+  with check (
+    uploaded_by = auth.uid()
+    and exists (select 1 from public.tasks t where t.id = task_id and t.assigned_to = auth.uid())
+  );
+
+create policy "Uploaders can remove files not yet submitted"
+  on public.task_attachments for delete
+  using (uploaded_by = auth.uid() and submission_event_id is null);
+
+-- Workspace from the task, and the workspace's kind and size limits. Size
+-- and content type come from the uploaded object, whose name must be the one
+-- attachmentPath() builds from file_name.
+create or replace function public.check_task_attachment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ws public.workspaces%rowtype;
+  meta jsonb;
+begin
+  select w.* into ws
+  from public.tasks t join public.workspaces w on w.id = t.workspace_id
+  where t.id = new.task_id;
+
+  new.workspace_id := ws.id;
+  new.submission_event_id := null;
+
+  if new.path !~ ('^' || ws.id || '/' || new.task_id || '/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-[^/]+$')
+     or substr(split_part(new.path, '/', 3), 38) <> right(regexp_replace(new.file_name, '[^A-Za-z0-9_.-]+', '_', 'g'), 120) then
+    raise exception 'Attachment path does not match its task and file';
+  end if;
+
+  select o.metadata into meta
+  from storage.objects o
+  where o.bucket_id = 'task-attachments' and o.name = new.path and o.owner = auth.uid();
+
+  if meta is null then
+    raise exception '% has not been uploaded', new.file_name;
+  end if;
+
+  new.size_bytes := coalesce((meta ->> 'size')::bigint, 0);
+  new.content_type := meta ->> 'mimetype';
+
+  if public.attachment_kind(new.file_name) is null
+     or not public.attachment_kind(new.file_name) = any (ws.attachment_types) then
+    raise exception '% is not a file type this workspace accepts', new.file_name;
+  end if;
+
+  if new.content_type is distinct from public.attachment_content_type(new.file_name) then
+    raise exception '% was uploaded as %, not as the type its name says', new.file_name, coalesce(new.content_type, 'an unknown type');
+  end if;
+
+  if new.size_bytes > ws.attachment_max_mb * 1024 * 1024 then
+    raise exception '% is larger than % MB', new.file_name, ws.attachment_max_mb;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists task_attachments_check on public.task_attachments;
+create trigger task_attachments_check
+  before insert on public.task_attachments
+  for each row execute function public.check_task_attachment();
+
+-- Storage
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('task-attachments', 'task-attachments', false, 100 * 1024 * 1024, array[
+  'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf',
+  'application/zip', 'application/x-7z-compressed', 'application/vnd.rar', 'application/x-tar', 'application/gzip',
+  'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint', 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain', 'text/csv', 'text/markdown', 'video/mp4', 'video/quicktime', 'video/webm'
+])
+on conflict (id) do nothing;
+
+create policy "Assignees can upload task attachments"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'task-attachments'
+    and exists (
+      select 1 from public.tasks t
+      where t.workspace_id::text = (storage.foldername(name))[1]
+        and t.id::text = (storage.foldername(name))[2]
+        and t.assigned_to = auth.uid()
+    )
+  );
+
+create policy "Task participants can view task attachments"
+  on storage.objects for select
+  using (
+    bucket_id = 'task-attachments'
+    and exists (
+      select 1 from public.tasks t
+      where t.id::text = (storage.foldername(name))[2]
+        and public.can_access_task(t.id)
+    )
+  );
+
+create policy "Assignees can remove unsubmitted task attachments"
+  on storage.objects for delete
+  using (
+    bucket_id = 'task-attachments'
+    and exists (
+      select 1 from public.tasks t
+      where t.id::text = (storage.foldername(name))[2]
+        and t.assigned_to = auth.uid()
+    )
+    and not exists (
+      select 1 from public.task_attachments a
+      where a.path = name and a.submission_event_id is not null
+    )
+  );
+
+-- The caller's uploads that never made it into task_attachments (a refused
+-- record, a closed tab) after an hour. Storage objects can't be deleted from
+-- SQL, so the client removes them through the storage API.
+create or replace function public.orphaned_task_uploads(target_workspace uuid)
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select o.name
+  from storage.objects o
+  where o.bucket_id = 'task-attachments'
+    and o.owner = auth.uid()
+    and split_part(o.name, '/', 1) = target_workspace::text
+    and o.created_at < now() - interval '1 hour'
+    and not exists (select 1 from public.task_attachments a where a.path = o.name);
+$$;
+
+grant execute on function public.orphaned_task_uploads(uuid) to authenticated;
+
+-- Submissions may carry files instead of (or as well as) a link
+create or replace function public.transition_task(
+  task_id uuid,
+  new_status text,
+  proof text default null,
+  feedback text default null
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks%rowtype;
+  actor text;
+begin
+  select * into task from public.tasks t where t.id = transition_task.task_id for update;
+
+  if not found then
+    raise exception 'Task not found';
+  end if;
+
+  -- Which capacity the move needs
+  actor := case
+    when task.status = 'todo' and new_status = 'in_progress' then 'assignee'
+    when task.status in ('in_progress', 'rejected') and new_status = 'submitted' then 'assignee'
+    when task.status = 'submitted' and new_status in ('approved', 'rejected') then 'reviewer'
+  end;
+
+  if actor is null then
+    raise exception 'A task can''t move from % to %', replace(task.status, '_', ' '), replace(new_status, '_', ' ');
+  end if;
+
+  if actor = 'assignee' and task.assigned_to is distinct from auth.uid() then
+    raise exception 'Only the assignee can move this task to %', replace(new_status, '_', ' ');
+  end if;
+
+  if actor = 'reviewer' and not public.has_workspace_permission(task.workspace_id, 'manage_tasks') then
+    raise exception 'You are not allowed to review this task';
+  end if;
+
+  if actor = 'reviewer' and task.assigned_to = auth.uid() then
+    raise exception 'You can''t review a task assigned to you';
+  end if;
+
+  if new_status = 'submitted' and coalesce(trim(proof), '') = '' and not exists (
+    select 1 from public.task_attachments a
+    where a.task_id = task.id and a.uploaded_by = auth.uid() and a.submission_event_id is null
+  ) then
+    raise exception 'A submission needs a link to the work or an attached file';
+  end if;
+
+  perform set_config('app.task_transition', 'on', true);
+
+  update public.tasks t
+  set status = new_status,
+      proof_link = case when new_status = 'submitted' then nullif(trim(proof), '') else t.proof_link end,
+      client_feedback = case
+        when new_status = 'rejected' then nullif(trim(feedback), '')
+        when new_status = 'approved' then null
+        else t.client_feedback
+      end
+  where t.id = task.id
+  returning * into task;
+
+  perform set_config('app.task_transition', 'off', true);
+
+  -- The trigger has just recorded the submission; its files go with it
+  if new_status = 'submitted' then
+    update public.task_attachments a
+    set submission_event_id = (
+      select e.id from public.task_events e
+      where e.task_id = task.id and e.kind = 'status' and e.to_value = 'submitted'
+      order by e.created_at desc
+      limit 1
+    )
+    where a.task_id = task.id and a.uploaded_by = auth.uid() and a.submission_event_id is null;
+  end if;
+
+  return task;
+end;
+$$;
@@ -0,0 +1,276 @@
+-- Timer sessions are written only by the server.
+-- /api/timer changes active_sessions through the functions below, which take
+-- every timestamp from the database clock, and stopping a session turns it
+-- into time_logs with log_timer_session() (as the stale session sweeper
+-- does). Clients keep read access to their session and can no longer write
+-- it, or timer logs, themselves.
+
+drop policy if exists "Users can start their own session" on public.active_sessions;
+drop policy if exists "Users can update their own session" on public.active_sessions;
+drop policy if exists "Users can stop their own session" on public.active_sessions;
+
+-- Time logs are only ever written by security definer functions (the timer,
+-- the sweeper and approved time requests), never by a client directly
+create or replace function public.guard_time_log_insert()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user = 'authenticated' then
+    raise exception 'Time is logged by the timer or through a time request';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists time_logs_insert_guard on public.time_logs;
+create trigger time_logs_insert_guard
+  before insert on public.time_logs
+  for each row execute function public.guard_time_log_insert();
+
+-- The caller's running session, locked for the change that follows
+create or replace function public.lock_timer_session(session_id uuid)
+returns public.active_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype;
+begin
+  select * into s from public.active_sessions where user_id = auth.uid() for update;
+
+  if not found or (session_id is not null and s.client_session_id <> session_id) then
+    raise exception 'No running timer session found';
+  end if;
+  return s;
+end;
+$$;
+
+revoke execute on function public.lock_timer_session(uuid) from public, anon, authenticated;
+
+-- Only the assignee may track time against a task, and only in its workspace
+create or replace function public.check_timer_task(target_workspace uuid, task uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if task is not null and not exists (
+    select 1 from public.tasks
+    where id = task and assigned_to = auth.uid() and workspace_id = target_workspace
+  ) then
+    raise exception 'Task not found or not assigned to you';
+  end if;
+end;
+$$;
+
+revoke execute on function public.check_timer_task(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.start_timer_session(target_workspace uuid, session_id uuid, task uuid default null)
+returns public.active_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype;
+begin
+  if not public.has_workspace_permission(target_workspace, 'track_time') then
+    raise exception 'Your role in this workspace does not track time';
+  end if;
+
+  perform public.check_timer_task(target_workspace, task);
+
+  -- A submitted week takes no more time, so its logs can never be refused
+  if exists (
+    select 1 from public.timesheets
+    where workspace_id = target_workspace and user_id = auth.uid()
+      and status in ('submitted', 'approved')
+      and now() >= period_start and now() < period_end
+  ) then
+    raise exception 'This week has already been submitted';
+  end if;
+
+  insert into public.active_sessions (
+    user_id, workspace_id, client_session_id, task_id, segments, started_at, last_activity_at, updated_at
+  ) values (
+    auth.uid(), target_workspace, session_id, task,
+    jsonb_build_array(jsonb_build_object('id', session_id, 'task_id', task, 'start_time', now())),
+    now(), now(), now()
+  )
+  returning * into s;
+
+  return s;
+end;
+$$;
+
+grant execute on function public.start_timer_session(uuid, uuid, uuid) to authenticated;
+
+-- Starts (on_break) or ends the current break
+create or replace function public.set_timer_break(session_id uuid, on_break boolean)
+returns public.active_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype := public.lock_timer_session(session_id);
+  has_open_break boolean;
+begin
+  has_open_break := exists (
+    select 1 from jsonb_array_elements(s.breaks) b where b ->> 'end_time' is null
+  );
+
+  if on_break = has_open_break then
+    raise exception '%', case when on_break then 'You are already on a break' else 'You are not on a break' end;
+  end if;
+
+  update public.active_sessions
+  set breaks = case
+        when on_break then breaks || jsonb_build_array(jsonb_build_object('start_time', now(), 'end_time', null))
+        else (
+          select coalesce(jsonb_agg(
+            case when b ->> 'end_time' is null then jsonb_set(b, '{end_time}', to_jsonb(now())) else b end
+            order by ord
+          ), '[]'::jsonb)
+          from jsonb_array_elements(s.breaks) with ordinality as t (b, ord)
+        )
+      end,
+      last_activity_at = now(),
+      updated_at = now()
+  where user_id = s.user_id
+  returning * into s;
+
+  return s;
+end;
+$$;
+
+grant execute on function public.set_timer_break(uuid, boolean) to authenticated;
+
+-- Back from idle. The idle stretch, when discarded, must sit inside the
+-- session and not in the future; it is merged with any it overlaps.
+create or replace function public.return_from_idle(session_id uuid, idle_from timestamptz default null, idle_to timestamptz default null)
+returns public.active_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype := public.lock_timer_session(session_id);
+begin
+  if idle_from is null and idle_to is null then
+    update public.active_sessions set last_activity_at = now()
+    where user_id = s.user_id
+    returning * into s;
+    return s;
+  end if;
+
+  if idle_from is null or idle_to is null or idle_from >= idle_to
+     or idle_from < s.started_at or idle_to > now() then
+    raise exception 'Invalid idle period';
+  end if;
+
+  update public.active_sessions
+  set idle_periods = public.merge_stretches(
+        idle_periods || jsonb_build_array(jsonb_build_object('start_time', idle_from, 'end_time', idle_to)),
+        s.started_at,
+        now()
+      ),
+      last_activity_at = now(),
+      updated_at = now()
+  where user_id = s.user_id
+  returning * into s;
+
+  return s;
+end;
+$$;
+
+grant execute on function public.return_from_idle(uuid, timestamptz, timestamptz) to authenticated;
+
+-- Closes the current task segment and opens one for `task`
+create or replace function public.switch_timer_task(session_id uuid, task uuid)
+returns public.active_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype := public.lock_timer_session(session_id);
+begin
+  if s.task_id is not distinct from task then
+    return s;
+  end if;
+
+  perform public.check_timer_task(s.workspace_id, task);
+
+  -- Sessions started before task tracking have no segments yet
+  update public.active_sessions
+  set task_id = task,
+      segments = case
+        when jsonb_array_length(segments) > 0 then segments
+        else jsonb_build_array(jsonb_build_object('id', client_session_id, 'task_id', s.task_id, 'start_time', started_at))
+      end || jsonb_build_array(jsonb_build_object('id', gen_random_uuid(), 'task_id', task, 'start_time', now())),
+      last_activity_at = now(),
+      updated_at = now()
+  where user_id = s.user_id
+  returning * into s;
+
+  return s;
+end;
+$$;
+
+grant execute on function public.switch_timer_task(uuid, uuid) to authenticated;
+
+-- Latest input: never in the future, never earlier than what is recorded
+create or replace function public.record_timer_activity(session_id uuid, activity_at timestamptz)
+returns public.active_sessions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype := public.lock_timer_session(session_id);
+begin
+  update public.active_sessions
+  set last_activity_at = least(greatest(coalesce(activity_at, now()), last_activity_at), now())
+  where user_id = s.user_id
+  returning * into s;
+
+  return s;
+end;
+$$;
+
+grant execute on function public.record_timer_activity(uuid, timestamptz) to authenticated;
+
+-- Ends the session and logs it. `stop_at` replays a stop made while offline;
+-- it can only move the end earlier, never past now. Returns the end time and
+-- the client_session_id of each log.
+create or replace function public.stop_timer_session(session_id uuid, stop_at timestamptz default null, note text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype := public.lock_timer_session(session_id);
+  ended_at timestamptz;
+  log_ids uuid[];
+begin
+  ended_at := least(greatest(coalesce(stop_at, now()), s.started_at), now());
+
+  select coalesce(array_agg(id), '{}') into log_ids
+  from public.log_timer_session(s, ended_at, false) as id;
+
+  if nullif(btrim(note), '') is not null then
+    update public.time_logs set notes = btrim(note) where client_session_id = any (log_ids);
+  end if;
+
+  delete from public.active_sessions where user_id = s.user_id;
+
+  return jsonb_build_object('ended_at', ended_at, 'log_ids', to_jsonb(log_ids));
+end;
+$$;
+
+grant execute on function public.stop_timer_session(uuid, timestamptz, text) to authenticated;
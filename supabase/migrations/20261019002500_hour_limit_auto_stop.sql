@@ -0,0 +1,91 @@
+-- Auto-stop at hour limits, enforced by the server.
+-- The timer stops itself as a limit is reached, but only while its page is
+-- open. Every 5 minutes stop_sessions_over_limit() stops the sessions of
+-- members with auto_stop_at_limit who have passed their daily or weekly
+-- limit, ending the log where the limit was reached, and tells the member
+-- and the workspace owner.
+
+create or replace function public.stop_sessions_over_limit()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.active_sessions%rowtype;
+  status record;
+  over_period text;
+  over_status record;
+  ended_at timestamptz;
+  stopped integer := 0;
+begin
+  for s in
+    select a.*
+    from public.active_sessions a
+    join public.workspace_members m on m.workspace_id = a.workspace_id and m.user_id = a.user_id
+    where m.auto_stop_at_limit
+      and (m.daily_hour_limit is not null or m.weekly_hour_limit is not null)
+    for update of a skip locked
+  loop
+    begin
+      over_period := null;
+
+      -- The period furthest past its limit decides where the session ends
+      for status in
+        select p.period, h.*
+        from unnest(array['day', 'week']) as p (period)
+        cross join lateral public.hour_limit_status(s.workspace_id, s.user_id, p.period) h
+        where h.limit_hours is not null and h.worked_seconds >= h.limit_hours * 3600
+      loop
+        if over_period is null then
+          over_period := status.period;
+          over_status := status;
+        elsif status.worked_seconds - status.limit_hours * 3600 > over_status.worked_seconds - over_status.limit_hours * 3600 then
+          over_period := status.period;
+          over_status := status;
+        end if;
+      end loop;
+
+      if over_period is null then
+        continue;
+      end if;
+
+      ended_at := greatest(
+        s.started_at,
+        now() - (over_status.worked_seconds - over_status.limit_hours * 3600) * interval '1 second'
+      );
+
+      perform public.log_timer_session(s, ended_at, false);
+
+      delete from public.active_sessions where user_id = s.user_id;
+      update public.profiles set current_status = 'offline' where id = s.user_id;
+
+      insert into public.notifications (user_id, workspace_id, kind, title, body, data)
+      values (
+        s.user_id,
+        s.workspace_id,
+        'timer_limit_stopped',
+        'Your timer was stopped',
+        'You reached your ' || case when over_period = 'day' then 'daily' else 'weekly' end || ' hour limit of '
+          || trim_scale(over_status.limit_hours) || 'h.',
+        jsonb_build_object('period', over_period, 'started_at', s.started_at, 'ended_at', ended_at)
+      );
+
+      perform public.notify_hour_limit_exceeded(
+        s.workspace_id, s.user_id, over_period, over_status.period_start,
+        over_status.worked_seconds, over_status.limit_hours
+      );
+
+      stopped := stopped + 1;
+    exception when others then
+      raise warning 'stop_sessions_over_limit: session % of user % not stopped: %', s.client_session_id, s.user_id, sqlerrm;
+    end;
+  end loop;
+
+  return stopped;
+end;
+$$;
+
+revoke execute on function public.stop_sessions_over_limit() from public, anon, authenticated;
+
+select cron.schedule('stop-sessions-over-limit', '*/5 * * * *', 'select public.stop_sessions_over_limit()');